@@ -16,6 +16,7 @@ export const eastmoneyQuoteFieldMap = {
     code: 'f57',
     name: 'f58',
     prevClose: 'f60',
+    time: 'f86',
     changePercent: 'f170',
     change: 'f171',
 } as const;
@@ -25,15 +26,52 @@ export const eastmoneyQuoteFields = Object.values(eastmoneyQuoteFieldMap).join('
 // K 线接口（日线/分钟线）
 export const eastmoneyKlinePath = '/api/qt/stock/kline/get';
 export const eastmoneyKlineFields1 = 'f1,f2,f3,f4,f5,f6';
-export const eastmoneyKlineFields2 = 'f51,f52,f53,f54,f55,f56,f57,f58,f59,f60,f61';
+
+export const eastmoneyKlineFieldMap = {
+    date: 'f51',
+    open: 'f52',
+    close: 'f53',
+    high: 'f54',
+    low: 'f55',
+    volume: 'f56',
+    amount: 'f57',
+    amplitude: 'f58',
+    changePercent: 'f59',
+    change: 'f60',
+    turnover: 'f61',
+} as const;
+
+// 返回的每根 K 线是按 fields2 顺序逗号拼接的字符串
+export const eastmoneyKlineFields2 = Object.values(eastmoneyKlineFieldMap).join(',');
 
 // 分时/趋势接口
 export const eastmoneyMinutePath = '/api/qt/stock/trends2/get';
 export const eastmoneyMinuteFields1 = 'f1,f2,f3,f4,f5,f6';
 export const eastmoneyMinuteFields2 = 'f51,f52,f53,f54,f55,f56,f57,f58';
 
-// 资金流 K 线接口
+// 资金流 K 线接口：当日分钟级（klt=1，开盘以来的累计净流入，push2）与历史日线（push2his）
 export const eastmoneyFflowPath = '/api/qt/stock/fflow/kline/get';
+export const eastmoneyFflowDayPath = '/api/qt/stock/fflow/daykline/get';
+export const eastmoneyFflowFields1 = 'f1,f2,f3,f7';
+
+// 净流入单位为元；主力 = 超大单 + 大单；分钟级只返回前 6 个字段
+export const eastmoneyFflowFieldMap = {
+    time: 'f51',
+    main: 'f52',
+    small: 'f53',
+    medium: 'f54',
+    large: 'f55',
+    superLarge: 'f56',
+    mainRatio: 'f57',
+    smallRatio: 'f58',
+    mediumRatio: 'f59',
+    largeRatio: 'f60',
+    superLargeRatio: 'f61',
+    close: 'f62',
+    changePercent: 'f63',
+} as const;
+
+export const eastmoneyFflowFields2 = Object.values(eastmoneyFflowFieldMap).join(',');
 
 // 板块/排行列表接口
 export const eastmoneyBoardListPath = '/api/qt/clist/get';
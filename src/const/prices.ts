@@ -0,0 +1,19 @@
+// 模型价格表默认值：单位为「元 / 百万 token」，可用 PRICE_TABLE_FILE 指向的 JSON 覆盖
+// 键为 "provider:model" 或模型名；未命中的模型（如本地 ollama / llama.cpp）按 0 计费
+export const defaultPriceCurrency = 'CNY';
+
+export const defaultModelPrices: Record<string, { input: number; output: number }> = {
+    'dashscope:qwen-turbo': { input: 0.3, output: 0.6 },
+    'dashscope:qwen-plus': { input: 0.8, output: 2 },
+    'dashscope:qwen-max': { input: 2.4, output: 9.6 },
+    'dashscope:qwen-vl-plus': { input: 1.5, output: 4.5 },
+    'dashscope:qwen-vl-max': { input: 3, output: 9 },
+    'dashscope:text-embedding-v1': { input: 0.7, output: 0 },
+    'dashscope:text-embedding-v2': { input: 0.7, output: 0 },
+    'dashscope:text-embedding-v3': { input: 0.5, output: 0 },
+    'dashscope:text-embedding-v4': { input: 0.5, output: 0 },
+    // Mistral 官方以美元计价，这里按约 7.2 汇率折算
+    'mistral:mistral-small-latest': { input: 0.72, output: 2.16 },
+    'mistral:mistral-medium-latest': { input: 2.88, output: 14.4 },
+    'mistral:mistral-large-latest': { input: 14.4, output: 43.2 },
+};
@@ -0,0 +1,260 @@
+/*
+WebSocket 网关：一条长连接上并发执行多个聊天/Agent 任务
+
+客户端 -> 服务端
+  { "type": "run", "id": "r1", "route": "/dashscope/chat", "body": { "input": "你好" } }
+  { "type": "cancel", "id": "r1" }
+  { "type": "ping" }
+
+服务端 -> 客户端（均带上 id，便于前端按任务分流）
+  { "type": "ack", "id": "r1", "route": "/dashscope/chat" }
+  { "type": "token", "id": "r1", "delta": "..." }
+  { "type": "tool_start", "id": "r1", "runId": "...", "name": "get_stock_price", "input": {...} }
+  { "type": "tool_end", "id": "r1", "runId": "...", "name": "get_stock_price", "output": {...} }
+  { "type": "result", "id": "r1", "data": {...}, "usage": { "totalTokens": 1234, "cost": 0.0021, ... } }
+  { "type": "error", "id": "r1", "message": "...", "status": 400, "errors": [{ "field": "input", "reason": "必填" }] }
+  { "type": "error", "id": "r1", "message": "...", "status": 429, "retryAfter": 12 }
+  { "type": "cancelled", "id": "r1" }
+  { "type": "pong" }
+*/
+
+import type { Server } from 'node:http';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+
+import type { RunHooks } from '../utils/callbacks';
+import {
+    extractApiKey,
+    getApiKeyLimiter,
+    getApiKeyStore,
+    getRouteGroup,
+    isRouteGroupAllowed,
+    type ApiKeyRecord,
+} from '../utils/apiKeys';
+import { createRequestContext, runWithRequestContext } from '../utils/requestContext';
+import { getUsageLedger, summarizeUsage } from '../utils/usage';
+import { parseDashScopeChatParams, runDashScopeChat } from '../routes/dashscope/chat';
+import { parseDashScopeWebSearchParams, runDashScopeWebSearch } from '../routes/dashscope/webSearch';
+import { parseQuantAnalysisParams, runQuantAnalysis } from '../routes/quant/strategy';
+
+export const wsGatewayPath = '/ws';
+
+// 单连接最多同时运行的任务数
+const maxConcurrentRunsPerConnection = 4;
+// 心跳间隔：超过一个周期没有收到 pong 的连接会被断开
+const heartbeatIntervalMs = 30_000;
+
+type GatewayRunner = (body: Record<string, any>, hooks: RunHooks) => Promise<unknown>;
+
+// 可通过网关调用的路由，与 HTTP 路由同名
+const gatewayRoutes: Record<string, GatewayRunner> = {
+    '/dashscope/chat': (body, hooks) => runDashScopeChat(parseDashScopeChatParams(body), hooks),
+    '/dashscope/web-search': (body, hooks) => runDashScopeWebSearch(parseDashScopeWebSearchParams(body), hooks),
+    '/quant/strategy': (body, hooks) => runQuantAnalysis(parseQuantAnalysisParams(body), hooks),
+};
+
+interface GatewayConnection {
+    socket: WebSocket;
+    /** 握手时鉴权通过的 Key（鉴权关闭时为空） */
+    apiKey?: ApiKeyRecord;
+    runs: Map<string, AbortController>;
+    alive: boolean;
+}
+
+/**
+ * 向客户端发送一帧 JSON
+ * @param {WebSocket} socket 连接
+ * @param {Record<string, unknown>} frame 帧内容
+ * @returns {void}
+ */
+function sendFrame(socket: WebSocket, frame: Record<string, unknown>): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify(frame));
+}
+
+/**
+ * 解析客户端帧
+ * @param {RawData} raw 原始消息
+ * @returns {Record<string, any>} 帧对象
+ */
+function parseFrame(raw: RawData): Record<string, any> {
+    let frame: unknown;
+    try {
+        frame = JSON.parse(raw.toString());
+    } catch {
+        throw Object.assign(new Error('消息必须是 JSON'), { status: 400 });
+    }
+    if (!frame || typeof frame !== 'object' || Array.isArray(frame)) {
+        throw Object.assign(new Error('消息必须是 JSON 对象'), { status: 400 });
+    }
+    return frame as Record<string, any>;
+}
+
+/**
+ * 处理 run 帧：执行对应路由并把 token/工具事件/结果推回客户端
+ * @param {GatewayConnection} conn 连接状态
+ * @param {Record<string, any>} frame run 帧
+ * @returns {Promise<void>}
+ */
+async function handleRunFrame(conn: GatewayConnection, frame: Record<string, any>): Promise<void> {
+    const { socket, runs } = conn;
+    const id = frame.id;
+    if (typeof id !== 'string' || !id) {
+        sendFrame(socket, { type: 'error', message: '缺少必要参数：id（string）', status: 400 });
+        return;
+    }
+    const runner = gatewayRoutes[frame.route];
+    if (!runner) {
+        sendFrame(socket, { type: 'error', id, message: `不支持的路由: ${frame.route}`, status: 404 });
+        return;
+    }
+    if (runs.has(id)) {
+        sendFrame(socket, { type: 'error', id, message: `任务 ${id} 正在运行`, status: 409 });
+        return;
+    }
+    if (runs.size >= maxConcurrentRunsPerConnection) {
+        sendFrame(socket, { type: 'error', id, message: `单连接最多同时运行 ${maxConcurrentRunsPerConnection} 个任务`, status: 429 });
+        return;
+    }
+
+    // 每个任务与一次 HTTP 请求同等计入 Key 的路由权限、速率与配额
+    const { apiKey } = conn;
+    let releaseQuota: () => void = () => undefined;
+    if (apiKey) {
+        const group = getRouteGroup(frame.route);
+        if (!isRouteGroupAllowed(apiKey, group)) {
+            sendFrame(socket, { type: 'error', id, message: `API Key ${apiKey.name} 无权访问 ${group} 接口`, status: 403 });
+            return;
+        }
+        const limit = getApiKeyLimiter().checkRequest(apiKey);
+        if (!limit.ok) {
+            sendFrame(socket, { type: 'error', id, message: limit.message, status: 429, retryAfter: limit.retryAfterSeconds });
+            return;
+        }
+        releaseQuota = limit.release;
+    }
+
+    const controller = new AbortController();
+    runs.set(id, controller);
+    sendFrame(socket, { type: 'ack', id, route: frame.route });
+
+    const requestContext = createRequestContext(frame.route, apiKey?.name);
+    try {
+        const body = frame.body && typeof frame.body === 'object' ? frame.body : {};
+        const data = await runWithRequestContext(requestContext, () => runner(body, {
+            signal: controller.signal,
+            onToken: (delta) => sendFrame(socket, { type: 'token', id, delta }),
+            onToolStart: (event) => sendFrame(socket, { type: 'tool_start', id, ...event }),
+            onToolEnd: (event) => sendFrame(socket, { type: 'tool_end', id, ...event }),
+        }));
+        if (controller.signal.aborted) {
+            sendFrame(socket, { type: 'cancelled', id });
+        } else {
+            sendFrame(socket, { type: 'result', id, data, usage: summarizeUsage(requestContext.usage.values()) });
+        }
+    } catch (err) {
+        if (controller.signal.aborted) {
+            sendFrame(socket, { type: 'cancelled', id });
+        } else {
+            const message = err instanceof Error ? err.message : '执行失败';
+            sendFrame(socket, { type: 'error', id, message, status: (err as any)?.status ?? 500, errors: (err as any)?.errors });
+        }
+    } finally {
+        runs.delete(id);
+        if (requestContext.usage.size > 0) getUsageLedger().record(requestContext);
+        releaseQuota();
+    }
+}
+
+/**
+ * 处理单条客户端消息
+ * @param {GatewayConnection} conn 连接状态
+ * @param {RawData} raw 原始消息
+ * @returns {void}
+ */
+function handleMessage(conn: GatewayConnection, raw: RawData): void {
+    let frame: Record<string, any>;
+    try {
+        frame = parseFrame(raw);
+    } catch (err) {
+        sendFrame(conn.socket, { type: 'error', message: (err as Error).message, status: 400 });
+        return;
+    }
+
+    switch (frame.type) {
+        case 'run':
+            void handleRunFrame(conn, frame);
+            return;
+        case 'cancel':
+            conn.runs.get(frame.id)?.abort();
+            return;
+        case 'ping':
+            sendFrame(conn.socket, { type: 'pong' });
+            return;
+        default:
+            sendFrame(conn.socket, { type: 'error', id: frame.id, message: `未知消息类型: ${frame.type}`, status: 400 });
+    }
+}
+
+/**
+ * 在 HTTP 服务上挂载 WebSocket 网关（与 Koa 共用端口）
+ * @param {Server} server Node HTTP 服务
+ * @returns {WebSocketServer} WebSocket 服务实例（停机时需关闭）
+ */
+export function registerWebSocketGateway(server: Server): WebSocketServer {
+    const store = getApiKeyStore();
+    const wss = new WebSocketServer({
+        server,
+        path: wsGatewayPath,
+        // 握手阶段校验 Key：浏览器无法设置请求头，可用 ?api_key=
+        verifyClient: (info, done) => {
+            if (!store.enabled) {
+                done(true);
+                return;
+            }
+            const queryKey = new URL(info.req.url ?? '/', 'http://localhost').searchParams.get('api_key') ?? undefined;
+            const key = extractApiKey(info.req.headers, queryKey);
+            const record = key ? store.find(key) : undefined;
+            if (!record) {
+                done(false, 401, key ? 'API Key 无效' : '缺少 API Key');
+                return;
+            }
+            (info.req as any).apiKey = record;
+            done(true);
+        },
+    });
+    const connections: Set<GatewayConnection> = new Set();
+
+    wss.on('connection', (socket, req) => {
+        const conn: GatewayConnection = { socket, apiKey: (req as any).apiKey, runs: new Map(), alive: true };
+        connections.add(conn);
+
+        socket.on('pong', () => {
+            conn.alive = true;
+        });
+        socket.on('message', (raw) => handleMessage(conn, raw));
+        socket.on('close', () => {
+            // 连接断开时取消该连接上所有未完成任务
+            for (const controller of conn.runs.values()) controller.abort();
+            conn.runs.clear();
+            connections.delete(conn);
+        });
+        socket.on('error', (err) => {
+            console.error('WebSocket error:', err.message);
+        });
+    });
+
+    const heartbeat = setInterval(() => {
+        for (const conn of connections) {
+            if (!conn.alive) {
+                conn.socket.terminate();
+                continue;
+            }
+            conn.alive = false;
+            conn.socket.ping();
+        }
+    }, heartbeatIntervalMs);
+    heartbeat.unref();
+
+    wss.on('close', () => clearInterval(heartbeat));
+    return wss;
+}
@@ -3,6 +3,17 @@ import bodyParser from 'koa-bodyparser';
 import fs from 'node:fs';
 import path from 'node:path';
 
+import {
+    extractApiKey,
+    getApiKeyLimiter,
+    getApiKeyStore,
+    getRouteGroup,
+    isRouteGroupAllowed,
+} from '../utils/apiKeys';
+import { getMatchedRoute } from '../utils/dashscope';
+import { createRequestContext, runWithRequestContext } from '../utils/requestContext';
+import { getUsageLedger, summarizeUsage } from '../utils/usage';
+
 /**
  * 创建错误处理中间件
  * @returns {(ctx: Context, next: Function) => Promise<void>} 错误处理中间件函数
@@ -13,8 +24,9 @@ function createErrorHandlerMiddleware(): (ctx: Context, next: () => Promise<void
             await next();
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Internal Server Error';
+            const errors = (err as any)?.errors;
             ctx.status = (err as any)?.status ?? 500;
-            ctx.body = { message };
+            ctx.body = Array.isArray(errors) ? { message, errors } : { message };
             ctx.app.emit('error', err as unknown, ctx);
         }
     };
@@ -42,7 +54,8 @@ function createRequestLoggerMiddleware(): (ctx: Context, next: () => Promise<voi
         const start = Date.now();
         await next();
         const ms = Date.now() - start;
-        console.log(`${ctx.method} ${ctx.url} -> ${ctx.status} ${ms}ms`);
+        const key = ctx.state.apiKey ? ` [${ctx.state.apiKey}]` : '';
+        console.log(`${ctx.method} ${ctx.url} -> ${ctx.status} ${ms}ms${key}`);
     };
 }
 
@@ -112,7 +125,105 @@ function createStaticImagesMiddleware(): (ctx: Context, next: () => Promise<void
 }
 
 /**
- * 注册通用中间件（错误处理、请求体解析、访问日志）
+ * 鉴权失败 / 限流时的响应；/v1 接口沿用 OpenAI 错误格式，方便 SDK 识别
+ * @param {Context} ctx Koa上下文
+ * @param {number} status HTTP状态码
+ * @param {string} message 错误信息
+ * @returns {void}
+ */
+function rejectRequest(ctx: Context, status: number, message: string): void {
+    ctx.status = status;
+    ctx.body = getRouteGroup(ctx.path) === 'openai'
+        ? { error: { message, type: status === 429 ? 'rate_limit_error' : 'authentication_error', code: null } }
+        : { message };
+}
+
+/**
+ * 创建 API Key 鉴权中间件
+ * - Key 来自 API_KEYS_FILE（默认 config/api-keys.json）与 API_KEYS 环境变量；一个都未配置时不做鉴权
+ * - 按 Key 限制可访问的路由分组（dashscope / mistral / metaso / quant / openai）
+ * - 令牌桶限制请求速率，超出每日 token 配额时拒绝，均返回 429 + Retry-After
+ * - 健康检查（/）与静态图片不需要 Key；其余不属于任何分组的路径只对可访问全部分组（"*"）的 Key 开放
+ * @returns {(ctx: Context, next: Function) => Promise<void>} 鉴权中间件函数
+ */
+function createApiKeyAuthMiddleware(): (ctx: Context, next: () => Promise<void>) => Promise<void> {
+    const store = getApiKeyStore();
+    const limiter = getApiKeyLimiter();
+
+    return async (ctx: Context, next: () => Promise<void>): Promise<void> => {
+        const group = getRouteGroup(ctx.path);
+        if (!store.enabled || ctx.method === 'OPTIONS' || ctx.path === '/') {
+            await next();
+            return;
+        }
+
+        const key = extractApiKey(ctx.headers);
+        if (!key) {
+            ctx.set('WWW-Authenticate', 'Bearer');
+            rejectRequest(ctx, 401, '缺少 API Key：请使用 Authorization: Bearer <key> 或 X-API-Key 请求头');
+            return;
+        }
+        const record = store.find(key);
+        if (!record) {
+            ctx.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+            rejectRequest(ctx, 401, 'API Key 无效');
+            return;
+        }
+        if (!isRouteGroupAllowed(record, group)) {
+            rejectRequest(ctx, 403, `API Key ${record.name} 无权访问${group ? ` ${group} ` : '该'}接口`);
+            return;
+        }
+
+        const limit = limiter.checkRequest(record);
+        if (!limit.ok) {
+            ctx.set('Retry-After', String(limit.retryAfterSeconds));
+            rejectRequest(ctx, 429, limit.message);
+            return;
+        }
+        if (Number.isFinite(limit.remaining)) {
+            ctx.set('X-RateLimit-Limit', String(record.requestsPerMinute));
+            ctx.set('X-RateLimit-Remaining', String(limit.remaining));
+        }
+
+        ctx.state.apiKey = record.name;
+        ctx.state.apiKeyAdmin = record.admin;
+        try {
+            await next();
+        } finally {
+            // 用量已在内层中间件入账，归还预占的配额
+            limit.release();
+        }
+    };
+}
+
+/**
+ * 创建用量统计中间件
+ * 为每个请求建立上下文，收集其中所有模型 / 向量调用的 token 用量；请求结束后写入用量账本，
+ * 并给 JSON 对象响应附加 usage 字段（响应已自带 usage 的，如 /v1 接口，保持原样）。
+ * SSE 接口同样在 next 内等待生成结束，这里能拿到完整用量。
+ * @returns {(ctx: Context, next: Function) => Promise<void>} 用量统计中间件函数
+ */
+function createUsageMiddleware(): (ctx: Context, next: () => Promise<void>) => Promise<void> {
+    return async (ctx: Context, next: () => Promise<void>): Promise<void> => {
+        const requestContext = createRequestContext(ctx.path, ctx.state.apiKey);
+        try {
+            await runWithRequestContext(requestContext, next);
+        } finally {
+            // 按路由模板（如 /dashscope/rag/documents/:docId）而不是实际路径记账，避免路径参数让统计维度无限增长
+            requestContext.route = getMatchedRoute(ctx);
+            if (requestContext.usage.size > 0) {
+                getUsageLedger().record(requestContext);
+                const body = ctx.body as any;
+                if (body && typeof body === 'object' && Object.getPrototypeOf(body) === Object.prototype && !('usage' in body)) {
+                    body.usage = summarizeUsage(requestContext.usage.values());
+                }
+            }
+        }
+    };
+}
+
+/**
+ * 注册通用中间件（错误处理、访问日志、API Key 鉴权、用量统计、请求体解析）
  * @param {Koa} app Koa应用实例
  * @returns {void}
  */
@@ -120,6 +231,8 @@ export function registerMiddlewares(app: Koa): void {
     app.use(createErrorHandlerMiddleware());
     registerErrorEvent(app);
     app.use(createStaticImagesMiddleware());
-    app.use(bodyParser());
     app.use(createRequestLoggerMiddleware());
+    app.use(createApiKeyAuthMiddleware());
+    app.use(createUsageMiddleware());
+    app.use(bodyParser());
 }
\ No newline at end of file
@@ -1,86 +1,250 @@
 import Router from '@koa/router';
 import { Context } from 'koa';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import {
+    AIMessage,
+    HumanMessage,
+    SystemMessage,
+    mapChatMessagesToStoredMessages,
+} from '@langchain/core/messages';
+
+import { z } from 'zod';
 
+import { getKoaRequestBody, setKoaError, setKoaJson } from '../../utils/dashscope';
+import { openSseStream, wantsEventStream } from '../../utils/sse';
+import type { RunHooks } from '../../utils/callbacks';
+import { createChatModel, type ResolvedModelSpec } from '../../utils/llm';
+import { setRequestSession } from '../../utils/requestContext';
+import { accumulateUsage, getCurrentUsage } from '../../utils/usage';
 import {
-    createDashScopeChatModel,
-    getKoaRequestBody,
-    getOptionalBodyString,
-    getRequiredBodyString,
-    setKoaError,
-    setKoaJson,
-} from '../../utils/dashscope';
+    booleanish,
+    modelSelectorShape,
+    numeric,
+    parseKoaBody,
+    parseWithSchema,
+    requiredString,
+    resolveBodyModel,
+} from '../../utils/validation';
 
+import { memoryTypes } from '../../utils/memory';
+import { describeMemory, resolveMemoryConfig, restoreMemory } from '../../utils/sessionMemory';
 import {
-    ConversationBufferWindowMemory,
-} from '../../utils/memory';
+    createSessionRecord,
+    getSessionStore,
+    lockSession,
+    type SessionMemoryConfig,
+} from '../../utils/sessionStore';
+
+// --- 会话存储 ---
+// 由 SESSION_STORE 选择内存版或文件版，带 TTL 过期与 LRU 容量上限
+const sessionStore = getSessionStore();
+
+// --- Core ---
+
+export interface DashScopeChatParams {
+    input: string;
+    sessionId: string;
+    model: ResolvedModelSpec;
+    /** 本次请求指定的记忆策略，未指定的字段沿用会话已有配置 */
+    memory: Partial<SessionMemoryConfig>;
+    /** 采样温度，默认 0.7 */
+    temperature?: number;
+    maxTokens?: number;
+    stop?: string[];
+    /** 追加到系统提示末尾的指令（如 OpenAI 兼容接口传入的 system 消息），不写入会话记忆 */
+    instructions?: string;
+}
 
-// --- 全局 Memory Store (简单内存存储) ---
-// 注意：生产环境应使用 Redis 代替
-const memoryStore: Map<string, ConversationBufferWindowMemory> = new Map();
+export interface DashScopeChatResult {
+    sessionId: string;
+    input: string;
+    answer: string;
+    model: string;
+    /** 本轮结束后记忆策略保存的历史消息条数 */
+    historyCount: number;
+    memory: Record<string, unknown>;
+}
+
+export const dashScopeChatBodySchema = z.object({
+    input: requiredString('缺少必要参数：input（string）'),
+    sessionId: z.string().trim().min(1).optional(),
+    ...modelSelectorShape,
+    stream: booleanish().optional(),
+    memoryType: z.enum(memoryTypes).optional(),
+    k: numeric(z.number().int().positive()).optional(),
+    summaryModel: z.string().trim().min(1).optional(),
+});
+
+export type DashScopeChatBody = z.infer<typeof dashScopeChatBodySchema>;
 
-function getMemory(sessionId: string): ConversationBufferWindowMemory {
-    if (!memoryStore.has(sessionId)) {
-        memoryStore.set(sessionId, new ConversationBufferWindowMemory(10)); // 保留最近 10 轮
+/**
+ * 从请求体解析对话参数（HTTP 与 WebSocket 网关共用）
+ * @param {Record<string, any>} raw 请求体
+ * @returns {DashScopeChatParams} 对话参数
+ */
+export function parseDashScopeChatParams(raw: Record<string, any>): DashScopeChatParams {
+    const body = parseWithSchema(dashScopeChatBodySchema, raw);
+    if (body.summaryModel) {
+        // 提前解析，模型写法有误时直接返回 400
+        resolveBodyModel({ model: body.summaryModel }, { provider: 'dashscope' });
     }
-    return memoryStore.get(sessionId)!;
+    return {
+        input: body.input,
+        sessionId: body.sessionId ?? 'default-session',
+        model: resolveBodyModel({ provider: body.provider, model: body.model }, { provider: 'dashscope', model: 'qwen-plus' }),
+        memory: {
+            type: body.memoryType,
+            k: body.k,
+            summaryModel: body.summaryModel,
+        },
+    };
 }
 
-// --- Handler ---
+/**
+ * 执行一轮带记忆的对话
+ * - 传入 onToken 时以流式方式调用模型，每个增量回调一次
+ * - signal 被 abort（客户端断开）时中止生成，且本轮不写入 Memory
+ * - 同一会话的并发请求排队执行
+ * @param {DashScopeChatParams} params 对话参数
+ * @param {RunHooks} hooks 流式回调与中止信号
+ * @returns {Promise<DashScopeChatResult>} 对话结果
+ */
+export async function runDashScopeChat(params: DashScopeChatParams, hooks: RunHooks = {}): Promise<DashScopeChatResult> {
+    const { input, sessionId } = params;
+    setRequestSession(sessionId);
 
-export async function dashScopeChatHandler(ctx: Context): Promise<void> {
+    // 同一会话的请求依次执行，避免并发的两轮互相覆盖
+    const release = await lockSession(sessionId);
     try {
-        const body = getKoaRequestBody(ctx);
-        const input = getRequiredBodyString(body, 'input', '缺少必要参数：input（string）');
-        const sessionId = getOptionalBodyString(body, 'sessionId') ?? 'default-session';
-        const modelName = getOptionalBodyString(body, 'model');
-
         // 1. 获取 Memory
-        const memory = getMemory(sessionId);
+        const record = (await sessionStore.get(sessionId)) ?? createSessionRecord(sessionId);
+        const memoryConfig = resolveMemoryConfig(record, params.memory);
+        const memory = await restoreMemory(record, memoryConfig);
 
-        // 2. 准备上下文 (System Prompt + History)
-        const history = await memory.getMessages();
-        const systemMessage = new SystemMessage('你是一个智能助手，能够记住我们之前的对话。请用简练的中文回答。');
+        // 2. 准备上下文 (System Prompt + 记忆上下文 + History)
+        const { systemText, messages: history } = await memory.loadContext();
+        const systemMessage = new SystemMessage(
+            ['你是一个智能助手，能够记住我们之前的对话。请用简练的中文回答。', systemText, params.instructions].filter(Boolean).join('\n\n')
+        );
 
         // 3. 构造本次请求的 Messages
         const messages = [systemMessage, ...history, new HumanMessage(input)];
         // 4. 调用模型
-        const model = createDashScopeChatModel({
-            model: modelName ?? 'qwen-plus',
-            temperature: 0.7,
-        });
+        const model = createChatModel(params.model, { temperature: params.temperature ?? 0.7, maxTokens: params.maxTokens });
 
-        const response = await model.invoke(messages);
-        const answer = typeof response.content === 'string' ? response.content : String(response.content);
+        let answer = '';
+        if (hooks.onToken) {
+            const stream = await model.stream(messages, { signal: hooks.signal, stop: params.stop });
+            for await (const chunk of stream) {
+                const delta = typeof chunk.content === 'string' ? chunk.content : '';
+                if (!delta) continue;
+                answer += delta;
+                hooks.onToken(delta);
+            }
+        } else {
+            const response = await model.invoke(messages, { signal: hooks.signal, stop: params.stop });
+            answer = typeof response.content === 'string' ? response.content : String(response.content);
+        }
+
+        // 客户端中途断开：不保存本轮
+        if (hooks.signal?.aborted) {
+            throw Object.assign(new Error('客户端已断开，本轮对话未保存'), { status: 499 });
+        }
 
         // 5. 更新 Memory (保存本轮对话)
-        await memory.addUserMessage(input);
-        await memory.addAiMessage(answer);
+        await memory.saveTurn(input, answer);
+        const memoryState = await memory.exportState();
+        record.memory = { ...memoryConfig, state: memoryState };
+        record.messages.push(...mapChatMessagesToStoredMessages([new HumanMessage(input), new AIMessage(answer)]));
+        // 本轮用量（含记忆摘要 / 实体抽取）累加到会话合计
+        record.usage = accumulateUsage(record.usage, getCurrentUsage());
+        record.updatedAt = Date.now();
+        await sessionStore.set(record);
 
-        setKoaJson(ctx, 200, {
+        return {
             sessionId,
             input,
             answer,
-            historyCount: history.length + 2, // 之前的 + 本次的一问一答
-        });
+            model: params.model.spec,
+            // 记忆中保存的消息条数（summary / entity 只保存摘要与实体表，为 0）
+            historyCount: memoryState.messages?.length ?? 0,
+            memory: describeMemory(memoryConfig, memoryState),
+        };
+    } finally {
+        release();
+    }
+}
 
+// --- Handler ---
+
+/**
+ * 聊天接口
+ * POST /dashscope/chat
+ * Body: { "input": "...", "sessionId"?: "...", "provider"?: "...", "model"?: "...", "stream"?: true,
+ *         "memoryType"?: "buffer" | "window" | "summary" | "summary_buffer" | "entity", "k"?: 10, "summaryModel"?: "qwen-plus" }
+ * 记忆策略按会话保存，后续请求不传则沿用；响应中的 memory 字段返回当前摘要 / 实体表
+ * stream 为 true（或 Accept: text/event-stream）时以 SSE 返回：
+ * - event: token  data: { delta }
+ * - event: done   data: { sessionId, historyCount, memory, usage }
+ * 响应（及 done 事件）中的 usage 为本次请求的 token 用量与费用
+ * - event: error  data: { message }
+ */
+export async function dashScopeChatHandler(ctx: Context): Promise<void> {
+    try {
+        const body = getKoaRequestBody(ctx);
+        const params = parseDashScopeChatParams(body);
+
+        if (wantsEventStream(ctx, body)) {
+            await streamDashScopeChat(ctx, params);
+            return;
+        }
+
+        const result = await runDashScopeChat(params);
+        setKoaJson(ctx, 200, result);
     } catch (err) {
         setKoaError(ctx, err, '聊天失败');
     }
 }
 
+/**
+ * 以 SSE 方式输出对话
+ * @param {Context} ctx Koa上下文
+ * @param {DashScopeChatParams} params 对话参数
+ * @returns {Promise<void>}
+ */
+async function streamDashScopeChat(ctx: Context, params: DashScopeChatParams): Promise<void> {
+    const sse = openSseStream(ctx);
+    try {
+        const result = await runDashScopeChat(params, {
+            signal: sse.signal,
+            onToken: (delta) => sse.send('token', { delta }),
+        });
+        sse.send('done', {
+            sessionId: result.sessionId,
+            historyCount: result.historyCount,
+            memory: result.memory,
+            usage: getCurrentUsage(),
+        });
+    } catch (err) {
+        if (!sse.closed) {
+            sse.send('error', { message: err instanceof Error ? err.message : '聊天失败' });
+        }
+    } finally {
+        sse.end();
+    }
+}
+
+const clearMemoryBodySchema = z.object({
+    sessionId: requiredString('缺少必要参数：sessionId'),
+});
+
 /**
  * 清除记忆接口
  */
 export async function clearMemoryHandler(ctx: Context): Promise<void> {
     try {
-        const body = getKoaRequestBody(ctx);
-        const sessionId = getRequiredBodyString(body, 'sessionId', '缺少必要参数：sessionId');
+        const { sessionId } = parseKoaBody(ctx, clearMemoryBodySchema);
 
-        if (memoryStore.has(sessionId)) {
-            await memoryStore.get(sessionId)?.clear?.();
-            memoryStore.delete(sessionId);
-        }
+        await sessionStore.delete(sessionId);
 
         setKoaJson(ctx, 200, { message: `Session ${sessionId} 记忆已清除` });
     } catch (err) {
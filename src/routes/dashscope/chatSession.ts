@@ -0,0 +1,393 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+import { mapStoredMessagesToChatMessages, type StoredMessage } from '@langchain/core/messages';
+
+import { z } from 'zod';
+
+import { getKoaRequestBody, setKoaError, setKoaJson } from '../../utils/dashscope';
+import type { MemoryState } from '../../utils/memory';
+import { booleanish, numeric, parseKoaQuery, parseWithSchema, requiredString } from '../../utils/validation';
+import { describeMemory } from '../../utils/sessionMemory';
+import { createSessionRecord, getSessionStore, lockSession, type SessionRecord } from '../../utils/sessionStore';
+
+const sessionStore = getSessionStore();
+
+// 导出文件格式版本，导入时校验
+const sessionExportVersion = 1;
+
+const exportFormats = ['json', 'markdown'] as const;
+
+const exportQuerySchema = z.object({
+    format: z.enum(exportFormats).default('json'),
+});
+
+const storedMessageSchema = z.looseObject({
+    type: z.enum(['human', 'ai', 'system']),
+    data: z.looseObject({ content: z.string() }),
+});
+
+const importFormatSchema = z.object({
+    format: z.enum(exportFormats).default('json'),
+    overwrite: booleanish().default(false),
+});
+
+const memoryConfigShape = {
+    k: numeric(z.number().int().positive()),
+    summaryModel: requiredString(),
+};
+
+// 记忆状态按策略校验（与 memory.ts 中各策略的 exportState 对应），避免导入后下一轮对话恢复记忆时出错
+const stateMessagesSchema = z.array(storedMessageSchema).optional();
+const stateSummarySchema = z.string().optional();
+
+const importedMemorySchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.enum(['buffer', 'window']),
+        ...memoryConfigShape,
+        state: z.object({ messages: stateMessagesSchema }).optional(),
+    }),
+    z.object({
+        type: z.literal('summary'),
+        ...memoryConfigShape,
+        state: z.object({ summary: stateSummarySchema }).optional(),
+    }),
+    z.object({
+        type: z.literal('summary_buffer'),
+        ...memoryConfigShape,
+        state: z.object({ summary: stateSummarySchema, messages: stateMessagesSchema }).optional(),
+    }),
+    z.object({
+        type: z.literal('entity'),
+        ...memoryConfigShape,
+        state: z.object({ entities: z.record(z.string(), z.string()).optional() }).optional(),
+    }),
+]);
+
+const jsonImportBodySchema = z.object({
+    version: z.literal(sessionExportVersion).optional(),
+    sessionId: requiredString('缺少必要参数：sessionId'),
+    messages: z.array(storedMessageSchema),
+    memory: importedMemorySchema.optional(),
+});
+
+const markdownImportBodySchema = z.object({
+    content: requiredString('缺少必要参数：content（Markdown string）'),
+    sessionId: z.string().trim().min(1).optional(),
+});
+
+const turnParamsSchema = z.object({
+    turn: numeric(z.number().int().min(0)),
+});
+
+// Markdown 导出中每条消息前的标记，导入时据此切分（消息正文本身可能包含任意 Markdown 标题）
+const markdownMessageMarker = /^<!-- message:(human|ai|system) -->$/gm;
+
+function getSessionIdParam(ctx: Context): string {
+    return String((ctx as any).params?.sessionId ?? '');
+}
+
+async function getSessionOrThrow(sessionId: string): Promise<SessionRecord> {
+    const record = await sessionStore.get(sessionId);
+    if (!record) {
+        throw Object.assign(new Error(`会话不存在或已过期: ${sessionId}`), { status: 404 });
+    }
+    return record;
+}
+
+function getMessageText(message: StoredMessage): string {
+    const content = message.data.content as unknown;
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+        return content.map((block: any) => (typeof block === 'string' ? block : typeof block?.text === 'string' ? block.text : '')).join('');
+    }
+    return content == null ? '' : String(content);
+}
+
+/**
+ * 把消息按“轮”分组：每条 human 消息开启新的一轮，后续 ai/system 消息归入该轮
+ * @param {StoredMessage[]} messages 完整对话
+ * @returns {Array<{ start: number; end: number }>} 每轮在 messages 中的下标区间 [start, end)
+ */
+function groupTurns(messages: StoredMessage[]): Array<{ start: number; end: number }> {
+    const turns: Array<{ start: number; end: number }> = [];
+    messages.forEach((message, index) => {
+        if (message.type === 'human' || turns.length === 0) {
+            turns.push({ start: index, end: index + 1 });
+        } else {
+            turns[turns.length - 1].end = index + 1;
+        }
+    });
+    return turns;
+}
+
+function toMessageView(messages: StoredMessage[]): Array<{ index: number; turn: number; role: string; content: string }> {
+    const view: Array<{ index: number; turn: number; role: string; content: string }> = [];
+    groupTurns(messages).forEach(({ start, end }, turn) => {
+        for (let i = start; i < end; i += 1) {
+            view.push({ index: i, turn, role: messages[i].type, content: getMessageText(messages[i]) });
+        }
+    });
+    return view;
+}
+
+/**
+ * 删除某轮后同步记忆状态：基于消息的策略按完整对话重建窗口；
+ * summary / entity 已经提炼出的摘要与实体无法撤回，保持不变。
+ * @param {SessionRecord} record 会话记录（原地修改）
+ * @returns {boolean} 记忆是否已随之重建
+ */
+function syncMemoryAfterEdit(record: SessionRecord): boolean {
+    const memory = record.memory;
+    if (!memory) return true;
+    if (memory.type === 'buffer') {
+        memory.state = { ...memory.state, messages: record.messages };
+        return true;
+    }
+    if (memory.type === 'window' || memory.type === 'summary_buffer') {
+        memory.state = { ...memory.state, messages: record.messages.slice(-memory.k * 2) };
+        return memory.type === 'window';
+    }
+    return false;
+}
+
+function toMarkdown(record: SessionRecord): string {
+    const lines = [
+        `# 会话 ${record.sessionId}`,
+        '',
+        `- 创建时间: ${new Date(record.createdAt).toISOString()}`,
+        `- 最后活动: ${new Date(record.updatedAt).toISOString()}`,
+        `- 记忆策略: ${record.memory?.type ?? 'window'}`,
+        '',
+    ];
+    groupTurns(record.messages).forEach(({ start, end }, turn) => {
+        lines.push(`## 第 ${turn + 1} 轮`, '');
+        for (let i = start; i < end; i += 1) {
+            const message = record.messages[i];
+            lines.push(`<!-- message:${message.type} -->`);
+            lines.push(`**${message.type === 'human' ? '用户' : message.type === 'ai' ? '助手' : '系统'}**：`, '');
+            lines.push(getMessageText(message), '');
+        }
+    });
+    return lines.join('\n');
+}
+
+function parseMarkdown(markdown: string): StoredMessage[] {
+    const matches = [...markdown.matchAll(markdownMessageMarker)];
+    return matches.map((match, i) => {
+        const bodyStart = match.index! + match[0].length;
+        const bodyEnd = i + 1 < matches.length ? matches[i + 1].index! : markdown.length;
+        const content = markdown
+            .slice(bodyStart, bodyEnd)
+            .replace(/^\s*\*\*[^*\n]+\*\*：\s*\n/, '') // 去掉角色标签行
+            .replace(/\n+## 第 \d+ 轮\s*$/, '') // 去掉下一轮的标题
+            .trim();
+        return { type: match[1], data: { content, role: undefined, name: undefined, tool_call_id: undefined } };
+    });
+}
+
+/**
+ * 校验导入的消息列表
+ * @param {unknown} messages 待导入的消息
+ * @returns {StoredMessage[]} 校验通过的消息
+ */
+function validateImportedMessages(messages: unknown): StoredMessage[] {
+    parseWithSchema(z.object({ messages: z.array(storedMessageSchema) }), { messages });
+    try {
+        mapStoredMessagesToChatMessages(messages as StoredMessage[]);
+    } catch (err) {
+        throw Object.assign(new Error(`消息无法解析: ${(err as Error).message}`), { status: 400 });
+    }
+    return messages as StoredMessage[];
+}
+
+/**
+ * 列出会话
+ * GET /dashscope/chat/sessions
+ */
+export async function listSessionsHandler(ctx: Context): Promise<void> {
+    try {
+        const records = await sessionStore.list();
+        const sessions = records
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .map((record) => ({
+                sessionId: record.sessionId,
+                createdAt: new Date(record.createdAt).toISOString(),
+                lastActivityAt: new Date(record.updatedAt).toISOString(),
+                turnCount: groupTurns(record.messages).length,
+                messageCount: record.messages.length,
+                memoryType: record.memory?.type ?? 'window',
+                usage: record.usage ?? null,
+            }));
+        setKoaJson(ctx, 200, { total: sessions.length, sessions });
+    } catch (err) {
+        setKoaError(ctx, err, '获取会话列表失败');
+    }
+}
+
+/**
+ * 获取会话完整历史
+ * GET /dashscope/chat/sessions/:sessionId
+ */
+export async function getSessionHandler(ctx: Context): Promise<void> {
+    try {
+        const record = await getSessionOrThrow(getSessionIdParam(ctx));
+        setKoaJson(ctx, 200, {
+            sessionId: record.sessionId,
+            createdAt: new Date(record.createdAt).toISOString(),
+            lastActivityAt: new Date(record.updatedAt).toISOString(),
+            turnCount: groupTurns(record.messages).length,
+            memory: record.memory ? describeMemory(record.memory, record.memory.state) : null,
+            usage: record.usage ?? null,
+            messages: toMessageView(record.messages),
+        });
+    } catch (err) {
+        setKoaError(ctx, err, '获取会话失败');
+    }
+}
+
+/**
+ * 导出会话
+ * GET /dashscope/chat/sessions/:sessionId/export?format=json|markdown
+ */
+export async function exportSessionHandler(ctx: Context): Promise<void> {
+    try {
+        const record = await getSessionOrThrow(getSessionIdParam(ctx));
+        const { format } = parseKoaQuery(ctx, exportQuerySchema);
+        const fileName = encodeURIComponent(record.sessionId);
+
+        if (format === 'markdown') {
+            ctx.set('Content-Disposition', `attachment; filename="${fileName}.md"`);
+            ctx.type = 'text/markdown; charset=utf-8';
+            ctx.status = 200;
+            ctx.body = toMarkdown(record);
+            return;
+        }
+
+        ctx.set('Content-Disposition', `attachment; filename="${fileName}.json"`);
+        setKoaJson(ctx, 200, { version: sessionExportVersion, ...record });
+    } catch (err) {
+        setKoaError(ctx, err, '导出会话失败');
+    }
+}
+
+/**
+ * 导入会话
+ * POST /dashscope/chat/sessions/import
+ * Body（JSON 导出文件）：{ "version": 1, "sessionId": "...", "messages": [...], "memory"?: {...} }
+ * Body（Markdown）：{ "format": "markdown", "content": "...", "sessionId": "..." }
+ * 可选：sessionId 覆盖导入后的会话ID；overwrite 为 true 时允许覆盖已存在的会话
+ */
+export async function importSessionHandler(ctx: Context): Promise<void> {
+    try {
+        const body = getKoaRequestBody(ctx);
+        const { format, overwrite } = parseWithSchema(importFormatSchema, body);
+
+        let record: SessionRecord;
+        if (format === 'markdown') {
+            const { content, sessionId: requestedId } = parseWithSchema(markdownImportBodySchema, body);
+            const sessionId = requestedId ?? content.match(/^# 会话 (.+)$/m)?.[1]?.trim();
+            if (!sessionId) {
+                throw Object.assign(new Error('缺少必要参数：sessionId'), { status: 400 });
+            }
+            record = createSessionRecord(sessionId);
+            record.messages = validateImportedMessages(parseMarkdown(content));
+        } else {
+            const { sessionId, messages, memory } = parseWithSchema(jsonImportBodySchema, body);
+            record = createSessionRecord(sessionId);
+            record.messages = validateImportedMessages(messages);
+            if (memory) {
+                const state = { ...memory.state } as MemoryState;
+                if (state.messages) state.messages = validateImportedMessages(state.messages);
+                record.memory = {
+                    type: memory.type,
+                    k: memory.k,
+                    summaryModel: memory.summaryModel,
+                    state,
+                };
+            }
+        }
+
+        // 与进行中的对话互斥，避免其用旧记录覆盖导入结果
+        const release = await lockSession(record.sessionId);
+        try {
+            if (!overwrite && (await sessionStore.get(record.sessionId))) {
+                throw Object.assign(new Error(`会话已存在: ${record.sessionId}（如需覆盖请传 overwrite: true）`), { status: 409 });
+            }
+            // 消息窗口以导入的完整对话为准；未携带记忆配置时（如 Markdown），下一轮对话会按完整对话重建默认记忆
+            syncMemoryAfterEdit(record);
+            await sessionStore.set(record);
+        } finally {
+            release();
+        }
+        setKoaJson(ctx, 200, {
+            message: '会话已导入',
+            sessionId: record.sessionId,
+            turnCount: groupTurns(record.messages).length,
+            messageCount: record.messages.length,
+        });
+    } catch (err) {
+        setKoaError(ctx, err, '导入会话失败');
+    }
+}
+
+/**
+ * 删除会话中的某一轮（turn 从 0 开始，与 GET 返回的 messages[].turn 一致）
+ * DELETE /dashscope/chat/sessions/:sessionId/turns/:turn
+ */
+export async function deleteSessionTurnHandler(ctx: Context): Promise<void> {
+    let release: (() => void) | undefined;
+    try {
+        const { turn: turnIndex } = parseWithSchema(turnParamsSchema, (ctx as any).params);
+        // 读-改-写期间独占会话，避免与进行中的对话互相覆盖
+        release = await lockSession(getSessionIdParam(ctx));
+        const record = await getSessionOrThrow(getSessionIdParam(ctx));
+        const turns = groupTurns(record.messages);
+        if (turnIndex >= turns.length) {
+            throw Object.assign(new Error(`turn 超出范围：0 ~ ${turns.length - 1}`), { status: 400 });
+        }
+
+        const { start, end } = turns[turnIndex];
+        const removed = record.messages.splice(start, end - start);
+        const memoryRebuilt = syncMemoryAfterEdit(record);
+        record.updatedAt = Date.now();
+        await sessionStore.set(record);
+
+        setKoaJson(ctx, 200, {
+            message: `已删除第 ${turnIndex} 轮`,
+            sessionId: record.sessionId,
+            removedMessages: removed.length,
+            turnCount: turns.length - 1,
+            memoryRebuilt, // false 表示摘要/实体中可能仍保留该轮提炼出的信息
+        });
+    } catch (err) {
+        setKoaError(ctx, err, '删除对话轮次失败');
+    } finally {
+        release?.();
+    }
+}
+
+/**
+ * 删除整个会话
+ * DELETE /dashscope/chat/sessions/:sessionId
+ */
+export async function deleteSessionHandler(ctx: Context): Promise<void> {
+    try {
+        const sessionId = getSessionIdParam(ctx);
+        const existed = await sessionStore.delete(sessionId);
+        if (!existed) {
+            throw Object.assign(new Error(`会话不存在或已过期: ${sessionId}`), { status: 404 });
+        }
+        setKoaJson(ctx, 200, { message: `Session ${sessionId} 已删除` });
+    } catch (err) {
+        setKoaError(ctx, err, '删除会话失败');
+    }
+}
+
+export function registerDashScopeChatSessionRoutes(router: Router): void {
+    router.get('/dashscope/chat/sessions', listSessionsHandler);
+    router.post('/dashscope/chat/sessions/import', importSessionHandler);
+    router.get('/dashscope/chat/sessions/:sessionId', getSessionHandler);
+    router.get('/dashscope/chat/sessions/:sessionId/export', exportSessionHandler);
+    router.delete('/dashscope/chat/sessions/:sessionId', deleteSessionHandler);
+    router.delete('/dashscope/chat/sessions/:sessionId/turns/:turn', deleteSessionTurnHandler);
+}
@@ -1,25 +1,45 @@
 import Router from '@koa/router';
 import { Context } from 'koa';
+import { HumanMessage } from '@langchain/core/messages';
 
-import {
-    getDashScopeClient,
-    getKoaRequestBody,
-    getOptionalBodyNumber,
-    getOptionalBodyString,
-    setKoaError,
-    setKoaJson,
-} from '../../utils/dashscope';
-
-const dashscopeClient = getDashScopeClient();
+import { z } from 'zod';
 
-type DashScopeVisionModel = 'qwen-vl-plus' | 'qwen-vl-max' | string;
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { createChatModel, type ResolvedModelSpec } from '../../utils/llm';
+import {
+    createValidationError,
+    maxTokensField,
+    modelSelectorShape,
+    parseKoaBody,
+    resolveBodyModel,
+    temperatureField,
+} from '../../utils/validation';
 
 type ImageReadOptions = {
-    model?: DashScopeVisionModel;
     max_tokens?: number;
     temperature?: number;
 };
 
+// 兼容多种字段名写法（驼峰 / 下划线 / 简写），按顺序取第一个
+const optionalText = z.string().trim().optional();
+const imageReadBodySchema = z.object({
+    imageUrl: optionalText,
+    image_url: optionalText,
+    url: optionalText,
+    imageBase64: optionalText,
+    image_base64: optionalText,
+    base64: optionalText,
+    imageMimeType: optionalText,
+    mimeType: optionalText,
+    mime_type: optionalText,
+    question: optionalText,
+    prompt: optionalText,
+    input: optionalText,
+    ...modelSelectorShape,
+    max_tokens: maxTokensField.optional(),
+    temperature: temperatureField.optional(),
+});
+
 function buildImageUrlFromBase64(base64: string, mimeType?: string): string {
     const mt = (mimeType && typeof mimeType === 'string' ? mimeType : 'image/png').trim();
     const b64 = base64.trim().replace(/^data:[^;]+;base64,/, '');
@@ -61,29 +81,30 @@ async function normalizeImageUrlForDashScope(ctx: Context, imageUrl: string): Pr
     return trimmed;
 }
 
-async function callDashScopeImageRead(imageUrl: string, question: string, options: ImageReadOptions = {}): Promise<string> {
-    const requestBody: any = {
-        model: options.model ?? 'qwen-vl-plus',
-        messages: [
-            {
-                role: 'user',
-                content: [
-                    { type: 'text', text: question },
-                    { type: 'image_url', image_url: { url: imageUrl } },
-                ],
-            },
-        ],
-        max_tokens: options.max_tokens,
+/**
+ * 调用视觉模型读取图片（模型经 provider 注册表解析，默认 dashscope:qwen-vl-plus）
+ * @param {string} imageUrl 图片 URL 或 data URL
+ * @param {string} question 提问
+ * @param {ResolvedModelSpec} modelSpec 视觉模型
+ * @param {ImageReadOptions} options 生成参数
+ * @returns {Promise<string>} 模型回答
+ */
+async function callVisionModel(imageUrl: string, question: string, modelSpec: ResolvedModelSpec, options: ImageReadOptions = {}): Promise<string> {
+    const model = createChatModel(modelSpec, {
+        maxTokens: options.max_tokens,
         temperature: options.temperature,
-    };
-
-    const response = await dashscopeClient.chat.completions.create(requestBody, {
-        headers: {
-            'Content-Type': 'application/json',
-        },
     });
 
-    const content = response.choices?.[0]?.message?.content as any;
+    const response = await model.invoke([
+        new HumanMessage({
+            content: [
+                { type: 'text', text: question },
+                { type: 'image_url', image_url: { url: imageUrl } },
+            ],
+        }),
+    ]);
+
+    const content = response.content as any;
     if (typeof content === 'string') return content;
     if (Array.isArray(content)) {
         return content?.map((block: any) => (typeof block === 'string' ? block : typeof block?.text === 'string' ? block.text : ''))
@@ -99,43 +120,31 @@ async function callDashScopeImageRead(imageUrl: string, question: string, option
  */
 export async function dashScopeImageReadHandler(ctx: Context): Promise<void> {
     try {
-        const body = getKoaRequestBody(ctx);
-
-        const imageUrlRaw =
-            getOptionalBodyString(body, 'imageUrl') ??
-            getOptionalBodyString(body, 'image_url') ??
-            getOptionalBodyString(body, 'url');
-        const imageBase64 =
-            getOptionalBodyString(body, 'imageBase64') ??
-            getOptionalBodyString(body, 'image_base64') ??
-            getOptionalBodyString(body, 'base64');
-        const imageMimeType =
-            getOptionalBodyString(body, 'imageMimeType') ??
-            getOptionalBodyString(body, 'mimeType') ??
-            getOptionalBodyString(body, 'mime_type');
-
-        const question =
-            (getOptionalBodyString(body, 'question') ??
-                getOptionalBodyString(body, 'prompt') ??
-                getOptionalBodyString(body, 'input') ??
-                '').trim() || '请描述这张图片的内容。';
-
-        const model = getOptionalBodyString(body, 'model');
-        const maxTokens = getOptionalBodyNumber(body, 'max_tokens');
-        const temperature = getOptionalBodyNumber(body, 'temperature');
+        const body = parseKoaBody(ctx, imageReadBodySchema);
+
+        const imageUrlRaw = body.imageUrl || body.image_url || body.url;
+        const imageBase64 = body.imageBase64 || body.image_base64 || body.base64;
+        const imageMimeType = body.imageMimeType || body.mimeType || body.mime_type;
+        const question = body.question || body.prompt || body.input || '请描述这张图片的内容。';
+
+        const modelSpec = resolveBodyModel(
+            { provider: body.provider, model: body.model },
+            { provider: 'dashscope', model: 'qwen-vl-plus' }
+        );
+        const maxTokens = body.max_tokens;
+        const temperature = body.temperature;
 
         let imageUrl: string | undefined;
-        if (imageUrlRaw && imageUrlRaw.trim()) {
+        if (imageUrlRaw) {
             imageUrl = await normalizeImageUrlForDashScope(ctx, imageUrlRaw);
-        } else if (imageBase64 && imageBase64.trim()) {
+        } else if (imageBase64) {
             imageUrl = buildImageUrlFromBase64(imageBase64, imageMimeType);
         }
         if (!imageUrl) {
-            throw Object.assign(new Error('缺少必要参数：imageUrl（string）或 imageBase64（string）'), { status: 400 });
+            throw createValidationError([{ field: 'imageUrl', reason: '缺少必要参数：imageUrl（string）或 imageBase64（string）' }]);
         }
 
-        const answer = await callDashScopeImageRead(imageUrl, question, {
-            model: (model ?? 'qwen-vl-plus') as DashScopeVisionModel,
+        const answer = await callVisionModel(imageUrl, question, modelSpec, {
             max_tokens: maxTokens,
             temperature,
         });
@@ -146,7 +155,7 @@ export async function dashScopeImageReadHandler(ctx: Context): Promise<void> {
             .filter((line) => line.trim().length > 0);
 
         setKoaJson(ctx, 200, {
-            model: model ?? 'qwen-vl-plus',
+            model: modelSpec.spec,
             question,
             answer,
             answerLines,
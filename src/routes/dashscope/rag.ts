@@ -1,105 +1,145 @@
 import Router from '@koa/router';
 import { Context } from 'koa';
 // import { MemoryVectorStore } from '@langchain/classic/vectorstores/memory';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { Document } from '@langchain/core/documents';
-import { StringOutputParser } from '@langchain/core/output_parsers';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
 import multer from '@koa/multer';
-import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { LanceDB } from '@langchain/community/vectorstores/lancedb';
-import * as lancedb from '@lancedb/lancedb';
+import { AIMessage, HumanMessage, mapChatMessagesToStoredMessages } from '@langchain/core/messages';
 import fs from 'node:fs';
-import path from 'node:path';
+import { z } from 'zod';
+import { getMatchedRoute, setKoaError, setKoaJson } from '../../utils/dashscope';
+import { createChatModel } from '../../utils/llm';
+import type { MemoryContext } from '../../utils/memory';
+import { loadRagFile, loadRagUrl } from '../../utils/ragLoaders';
+import { generateCitedAnswer } from '../../utils/ragCitations';
+import { retrieve, rewriteStandaloneQuery } from '../../utils/ragRetrieval';
+import { getRagJobQueue } from '../../utils/ragJobs';
+import { createDocumentId, defaultCollectionName, getKnowledgeBase, hashContent } from '../../utils/ragStore';
+import { setRequestSession } from '../../utils/requestContext';
+import { resolveMemoryConfig, restoreMemory } from '../../utils/sessionMemory';
+import { createSessionRecord, getSessionStore, lockSession } from '../../utils/sessionStore';
+import { accumulateUsage, getCurrentUsage } from '../../utils/usage';
 import {
-    createDashScopeChatModel,
-    getDashScopeApiKey,
-    getKoaRequestBody,
-    getRequiredBodyString,
-    setKoaError,
-    setKoaJson,
-    dashScopeBaseUrl,
-} from '../../utils/dashscope';
+    createValidationError,
+    modelSelectorShape,
+    numeric,
+    parseKoaBody,
+    parseWithSchema,
+    requiredString,
+    resolveBodyModel,
+} from '../../utils/validation';
 
 // 配置上传
 const upload = multer({ dest: 'uploads/' });
-// --- 全局 Vector Store (内存版) ---
-// 注意：生产环境应使用 Faiss / Milvus / PGVector 等持久化方案
 
+// 多轮问答的会话与聊天接口共用会话存储（记忆策略见 utils/sessionMemory.ts）
+const sessionStore = getSessionStore();
 
-/**
- * 初始化 Embedding 模型
- * 
- * 作用：将文本转换为向量（数字列表），用于计算文本之间的相似度。
- * 
- * 这里虽然使用的是 OpenAIEmbeddings 类，但通过配置：
- * 1. apiKey: 使用阿里云 DashScope 的 API Key
- * 2. baseURL: 指向 DashScope 的兼容接口
- * 3. modelName: 指定使用通义千问的文本向量模型 'text-embedding-v1'
- * 
- * 从而实现了用 OpenAI 的 SDK 调用阿里云的向量服务。
- */
-const embeddings = new OpenAIEmbeddings({
-    apiKey: getDashScopeApiKey(),
-    modelName: 'text-embedding-v1', // DashScope 文本向量模型
-    configuration: {
-        baseURL: dashScopeBaseUrl,
-    },
-});
-
-
-
-// --- LanceDB 持久化配置 ---
-const LANCE_DB_PATH = path.join(process.cwd(), 'data/lancedb');
-
-// 单例模式获取 VectorStore
-let vectorStoreInstance: LanceDB | null = null;
+// 知识库存储见 utils/ragStore.ts（LanceDB，data/lancedb，按集合 / 文档管理片段）
 
-async function getVectorStore(): Promise<LanceDB> {
-    if (vectorStoreInstance) return vectorStoreInstance;
+/** 集合名：小写字母、数字、下划线与连字符 */
+export const collectionNameField = z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, { error: '只能包含小写字母、数字、下划线和连字符，最长 64 个字符' });
 
-    // 确保目录存在
-    if (!fs.existsSync(LANCE_DB_PATH)) {
-        fs.mkdirSync(LANCE_DB_PATH, { recursive: true });
-    }
+const docIdField = z
+    .string()
+    .trim()
+    .regex(/^[\w.:-]{1,128}$/, { error: '只能包含字母、数字、下划线、点、冒号和连字符，最长 128 个字符' });
 
-    const db = await lancedb.connect(LANCE_DB_PATH);
+const addDocumentBodySchema = z.object({
+    text: requiredString('缺少必要参数：text（string）'),
+    collection: collectionNameField.default(defaultCollectionName),
+    docId: docIdField.optional(),
+    source: z.string().trim().min(1).optional(),
+    metadata: z.record(z.string(), z.unknown()).default({}),
+});
 
-    // 尝试打开表，如果不存在则创建（需要一个初始 schema 或 dummy data）
-    let table: lancedb.Table;
-    try {
-        table = await db.openTable('vectors');
-    } catch (e) {
-        // 创建新表，必须提供初始数据来推断 Schema
-        // 这里的 vector 维度必须与 Embedding 模型一致 (text-embedding-v1 是 1536 维)
-        table = await db.createTable('vectors', [
-            { id: 'init', vector: Array(1536).fill(0), text: 'init', metadata: '{}' }
-        ]);
-    }
+const uploadDocumentFieldsSchema = z.object({
+    collection: collectionNameField.default(defaultCollectionName),
+    docId: docIdField.optional(),
+    metadata: z
+        .string()
+        .optional()
+        .transform((value, ctx) => {
+            if (!value) return {};
+            try {
+                const parsed = JSON.parse(value);
+                if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, unknown>;
+            } catch {
+                // 落到下方统一报错
+            }
+            ctx.addIssue({ code: 'custom', message: '应为 JSON 对象字符串' });
+            return z.NEVER;
+        }),
+});
 
-    vectorStoreInstance = new LanceDB(embeddings, { table });
-    return vectorStoreInstance;
-}
+const ingestUrlBodySchema = z.object({
+    url: z.url({ protocol: /^https?$/, error: 'url 应为 http / https 地址' }),
+    collection: collectionNameField.default(defaultCollectionName),
+    docId: docIdField.optional(),
+    metadata: z.record(z.string(), z.unknown()).default({}),
+});
 
+const queryRagBodySchema = z.object({
+    query: requiredString('缺少必要参数：query（string）'),
+    collection: collectionNameField.optional(),
+    /** 跨集合检索，优先于 collection */
+    collections: z.array(collectionNameField).min(1).max(10).optional(),
+    /** 返回（并交给模型）的片段数 */
+    topK: numeric(z.number().int().min(1).max(20)).default(3),
+    /** 最低余弦相似度（0~1），没有片段达到时直接回答未找到，不调用模型 */
+    minScore: numeric(z.number().min(0).max(1)).optional(),
+    /** 元数据过滤：{ "字段": 值 | [值...] | { "eq" | "ne" | "in" | "gt" | "gte" | "lt" | "lte": ... } }，见 utils/ragMetadata.ts */
+    filter: z.record(z.string(), z.unknown()).optional(),
+    /** 多轮问答的会话ID：传入后记住问答历史，追问会先改写为独立问题再检索 */
+    sessionId: z.string().trim().min(1).optional(),
+    /** 检索参数（见 utils/ragRetrieval.ts），缺省为向量 + 关键词混合检索、不重排 */
+    retrieval: z
+        .object({
+            mode: z.enum(['vector', 'keyword', 'hybrid']).default('hybrid'),
+            vectorK: numeric(z.number().int().min(1).max(100)).default(20),
+            keywordK: numeric(z.number().int().min(1).max(100)).default(20),
+            rrfK: numeric(z.number().int().min(1).max(1000)).default(60),
+            rerank: z.string().trim().min(1).default('none'),
+            rerankCandidates: numeric(z.number().int().min(1).max(50)).default(10),
+            /** 重排模型，形如 "dashscope:qwen-turbo"；缺省使用问答模型 */
+            rerankModel: z.string().trim().min(1).optional(),
+        })
+        .prefault({}),
+    ...modelSelectorShape,
+});
 
 /**
  * 添加文档到知识库
  * POST /dashscope/rag/add
- * Body: { "text": "...", "metadata": { ... } }
+ * Body: { "text": "...", "collection"?: "default", "docId"?: "...", "source"?: "...", "metadata": { ... } }
+ * 文档ID缺省时由 source（未传则为文本内容）推导，相同ID重复提交会替换旧片段
  */
 export async function addDocumentHandler(ctx: Context): Promise<void> {
     try {
-        const body = getKoaRequestBody(ctx);
-        const text = getRequiredBodyString(body, 'text', '缺少必要参数：text（string）');
-        const metadata = (body.metadata as Record<string, any>) ?? {};
-
-        const vectorStore = await getVectorStore();
-        await vectorStore.addDocuments([
-            new Document({ pageContent: text, metadata }),
-        ]);
+        const { text, collection, docId, source, metadata } = parseKoaBody(ctx, addDocumentBodySchema);
+
+        const knowledgeBase = getKnowledgeBase(collection);
+        const splitDocs = await knowledgeBase.split([new Document({ pageContent: text })]);
+        const result = await knowledgeBase.upsertDocument(
+            {
+                // 未给出 source 时按内容推导，同一段文本重复提交不会产生重复片段
+                docId: docId ?? (source ? undefined : createDocumentId(`text:${text}`)),
+                source: source ?? 'inline',
+                sourceType: 'text',
+                metadata,
+                contentHash: hashContent(text),
+            },
+            splitDocs
+        );
 
-        setKoaJson(ctx, 200, { message: '文档已添加', textLength: text.length });
+        setKoaJson(ctx, 200, {
+            message: result.skipped ? '文档内容未变化，未重复入库' : '文档已添加',
+            collection,
+            textLength: text.length,
+            ...result,
+        });
     } catch (err) {
         setKoaError(ctx, err, '添加文档失败');
     }
@@ -107,115 +147,244 @@ export async function addDocumentHandler(ctx: Context): Promise<void> {
 
 
 /**
- * 上传文件并建立索引
+ * 上传文件并提交入库任务
  * POST /dashscope/rag/upload
+ * PUT  /dashscope/rag/documents/:docId（替换指定文档）
  * Content-Type: multipart/form-data
- * File: file
+ * File: file（PDF / DOCX / HTML / Markdown / TXT / CSV / TSV / JSON / JSONL，或这些文件的 ZIP 压缩包）
+ * 可选字段 collection、docId、metadata（JSON 字符串）
+ * 切片参数与向量模型取自集合配置
+ * 文档ID缺省时由文件名推导：同名文件重新上传会替换旧片段而不是重复入库
+ * 加载、切分与向量化在后台执行，立即返回 202 与任务ID，进度见 GET /dashscope/rag/jobs/:id；
+ * 未指定 docId 且同名文件的内容与元数据都未变化时任务直接完成（result.skipped 为 true）
  */
 export async function uploadDocumentHandler(ctx: Context): Promise<void> {
+    const file = (ctx.request as any).file;
     try {
-        const file = (ctx.request as any).file;
+        const fields = parseWithSchema(uploadDocumentFieldsSchema, (ctx.request as any).body ?? {});
+        const docId = ctx.params?.docId ? parseWithSchema(docIdField, ctx.params.docId) : fields.docId;
+        const knowledgeBase = getKnowledgeBase(fields.collection);
         if (!file) {
-            setKoaError(ctx, new Error('未找到文件'), '请上传文件');
-            return;
+            throw createValidationError([{ field: 'file', reason: '未找到文件，请以 multipart/form-data 上传 file 字段' }]);
         }
 
-        const filePath = file.path;
-        const mimeType = file.mimetype;
-
-        let docs: Document[] = [];
-
-        // 根据文件类型加载
-        if (mimeType === 'application/pdf') {
-            const loader = new PDFLoader(filePath);
-            docs = await loader.load();
-        } else if (mimeType === 'text/plain' || mimeType === 'text/markdown') {
-            // 简单文本直接读取
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-            docs = [new Document({ pageContent: content, metadata: { source: file.originalname } })];
-        } else {
-            throw new Error(`不支持的文件类型: ${mimeType}`);
-        }
+        const filePath: string = file.path;
+        const job = getRagJobQueue().submit({
+            collection: fields.collection,
+            fileName: file.originalname,
+            docId,
+            apiKeyName: ctx.state.apiKey,
+            route: getMatchedRoute(ctx),
+            run: async (reporter) => {
+                reporter.setStage('loading');
+                const buffer = await fs.promises.readFile(filePath);
+                // 根据文件内容识别类型并加载（客户端声明的 mimetype 只作参考）
+                const { fileType, title, documents } = await loadRagFile({
+                    buffer,
+                    fileName: file.originalname,
+                    mimeType: file.mimetype,
+                });
+
+                // 文本切片 (Split)
+                reporter.setStage('splitting');
+                const splitDocs = await knowledgeBase.split(documents);
+
+                // 存入向量库（同一文档的旧片段被替换，相同文本的片段复用已有向量）
+                reporter.setStage('embedding');
+                const result = await knowledgeBase.upsertDocument(
+                    {
+                        docId,
+                        source: file.originalname,
+                        sourceType: 'upload',
+                        metadata: { ...(title ? { title } : {}), fileType, ...fields.metadata },
+                        contentHash: hashContent(buffer),
+                    },
+                    splitDocs,
+                    (progress) => reporter.setProgress(progress)
+                );
+                return { ...result, fileType };
+            },
+            // 清理临时文件（成功或失败都执行）
+            cleanup: () => removeUploadedFile(filePath),
+        });
 
-        // 文本切片 (Split)
-        const splitter = new RecursiveCharacterTextSplitter({
-            chunkSize: 500,
-            chunkOverlap: 50,
+        setKoaJson(ctx, 202, {
+            message: '文件已接收，正在后台处理',
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/dashscope/rag/jobs/${job.id}`,
+            collection: fields.collection,
+            fileName: file.originalname,
         });
-        const splitDocs = await splitter.splitDocuments(docs);
+    } catch (err) {
+        // 未能提交任务时临时文件由这里清理
+        if (file?.path) await removeUploadedFile(file.path);
+        setKoaError(ctx, err, '文件上传处理失败');
+    }
+}
 
-        // 存入向量库
-        const vectorStore = await getVectorStore();
-        await vectorStore.addDocuments(splitDocs);
+/**
+ * 删除 multer 写入的临时文件（已不存在时忽略）
+ * @param {string} filePath 文件路径
+ * @returns {Promise<void>}
+ */
+async function removeUploadedFile(filePath: string): Promise<void> {
+    await fs.promises.rm(filePath, { force: true });
+}
 
-        // 清理临时文件
-        await fs.promises.unlink(filePath);
+/**
+ * 抓取网页并建立索引
+ * POST /dashscope/rag/ingest-url
+ * Body: { "url": "https://...", "collection"?: "default", "docId"?: "...", "metadata"?: { ... } }
+ * 网页去除脚本 / 导航等噪声后按标题层级切分；URL 指向 PDF 等文件时按文件内容加载
+ * 文档ID缺省时由 URL 推导，重复抓取会替换旧片段
+ */
+export async function ingestUrlHandler(ctx: Context): Promise<void> {
+    try {
+        const { url, collection, docId, metadata } = parseKoaBody(ctx, ingestUrlBodySchema);
+        const knowledgeBase = getKnowledgeBase(collection);
+
+        const loaded = await loadRagUrl(url);
+        const splitDocs = await knowledgeBase.split(loaded.documents);
+        const result = await knowledgeBase.upsertDocument(
+            {
+                docId,
+                source: url,
+                sourceType: 'url',
+                metadata: { ...(loaded.title ? { title: loaded.title } : {}), fileType: loaded.fileType, url: loaded.url, ...metadata },
+                contentHash: hashContent(loaded.documents.map((doc) => doc.pageContent).join('\n')),
+            },
+            splitDocs
+        );
 
         setKoaJson(ctx, 200, {
-            message: '文件处理完成',
-            fileName: file.originalname,
-            chunks: splitDocs.length,
+            message: result.skipped ? '网页内容未变化，未重复处理' : '网页处理完成',
+            collection,
+            url: loaded.url,
+            title: loaded.title ?? null,
+            fileType: loaded.fileType,
+            ...result,
         });
     } catch (err) {
-        setKoaError(ctx, err, '文件上传处理失败');
+        setKoaError(ctx, err, '网页抓取处理失败');
     }
 }
 
 /**
  * 基于知识库提问
  * POST /dashscope/rag/query
- * Body: { "query": "..." }
+ * 回答中以 [n] 标注引用，sources[n-1] 为对应来源（文档ID、文件名、页码 / 行号、片段ID、相似度）
+ * 传入 sessionId 时为多轮问答：结合会话历史把追问改写为独立问题后检索，改写结果见响应中的 rewrittenQuery
+ * Body: { "query": "...", "sessionId"?: "...", "collection"?: "default", "collections"?: ["hr", "product"], "provider"?: "...", "model"?: "...",
+ *         "topK"?: 3, "minScore"?: 0.5, "filter"?: { "department": "hr", "year": { "gte": 2023 } },
+ *         "retrieval"?: { "mode"?: "hybrid", "vectorK"?: 20, "keywordK"?: 20, "rrfK"?: 60, "rerank"?: "none", "rerankCandidates"?: 10, "rerankModel"?: "..." } }
  */
 export async function queryRagHandler(ctx: Context): Promise<void> {
+    let session: RagSession | undefined;
     try {
-        const body = getKoaRequestBody(ctx);
-        const query = getRequiredBodyString(body, 'query', '缺少必要参数：query（string）');
+        const { query, sessionId, collection, collections, topK, minScore, filter, retrieval, provider, model: modelName } =
+            parseKoaBody(ctx, queryRagBodySchema);
+        const modelSpec = resolveBodyModel({ provider, model: modelName }, { provider: 'dashscope', model: 'qwen-plus' });
+        const { rerankModel, ...retrievalOptions } = retrieval;
+
+        // 0. 多轮问答：恢复会话记忆，把追问改写为独立问题
+        let rewrittenQuery = query;
+        if (sessionId) {
+            session = await loadRagSession(sessionId);
+            rewrittenQuery = await rewriteStandaloneQuery(query, session.context, modelSpec);
+        }
 
         // 1. 检索 (Retrieve)
-        const vectorStore = await getVectorStore();
-        // 查找最相似的 3 个片段
-        const relevantDocs = await vectorStore.similaritySearch(query, 3);
-
-        if (relevantDocs.length === 0) {
-            setKoaJson(ctx, 200, { answer: '知识库中没有相关信息。', sources: [] });
-            return;
-        }
+        // 按元数据过滤后向量 + 关键词召回，RRF 融合（可选重排）后取前 topK 个片段（多个集合时一起融合）
+        const targetCollections = collections ?? [collection ?? defaultCollectionName];
+        const hits = await retrieve(targetCollections.map((name) => getKnowledgeBase(name)), rewrittenQuery, {
+            ...retrievalOptions,
+            k: topK,
+            filter,
+            minScore,
+            rerankModel: rerankModel ? resolveBodyModel({ model: rerankModel }, modelSpec) : modelSpec,
+        });
+        const retrievalReport = {
+            mode: retrieval.mode,
+            reranker: retrieval.rerank,
+            hits: hits.map(({ chunk, scores }) => ({ chunkId: chunk.chunkId, collection: chunk.collection, docId: chunk.docId, scores })),
+        };
 
-        const context = relevantDocs.map((d) => d.pageContent).join('\n\n');
+        const sessionInfo = sessionId ? { sessionId, rewrittenQuery } : {};
 
         // 2. 生成 (Generate)
-        const prompt = ChatPromptTemplate.fromTemplate(`
-        你是一个智能助手。请基于以下提供的背景信息回答用户的问题。
-        如果背景信息中没有答案，请直接说“我不知道”，不要编造。
-
-        背景信息：
-        {context}
-
-        用户问题：{question}
-        `);
+        // 背景信息逐条编号，回答用 [n] 标注出处；没有片段通过过滤与相似度阈值时直接回答，不调用模型
+        const { answer, sources } = hits.length === 0
+            ? { answer: '知识库中没有相关信息。', sources: [] }
+            : await generateCitedAnswer(rewrittenQuery, hits, createChatModel(modelSpec, { temperature: 0 }));
 
-        const model = createDashScopeChatModel({ temperature: 0 });
-        const chain = prompt.pipe(model).pipe(new StringOutputParser());
-
-        const answer = await chain.invoke({
-            context,
-            question: query,
-        });
+        // 3. 记录本轮问答（保存用户原始提问，改写只用于检索与生成）
+        if (session) await session.saveTurn(query, answer);
 
         setKoaJson(ctx, 200, {
             query,
+            ...sessionInfo,
             answer,
-            sources: relevantDocs.map((d) => d.pageContent), // 返回引用来源，方便调试
+            model: modelSpec.spec,
+            collections: targetCollections,
+            // 返回结构化来源（编号与回答中的 [n] 对应），未被引用的来源 cited 为 false
+            sources,
+            uncitedSources: sources.filter((source) => !source.cited).map((source) => source.index),
+            retrieval: retrievalReport,
         });
 
     } catch (err) {
         setKoaError(ctx, err, 'RAG 问答失败');
+    } finally {
+        session?.release();
+    }
+}
+
+/**
+ * 多轮问答会话：记忆上下文 + 保存本轮问答
+ */
+interface RagSession {
+    context: MemoryContext;
+    saveTurn(input: string, answer: string): Promise<void>;
+    /** 释放会话（同一会话的下一个请求才能继续） */
+    release(): void;
+}
+
+/**
+ * 恢复多轮问答会话（独占该会话直到 release）
+ * @param {string} sessionId 会话ID
+ * @returns {Promise<RagSession>} 会话
+ */
+async function loadRagSession(sessionId: string): Promise<RagSession> {
+    setRequestSession(sessionId);
+    const release = await lockSession(sessionId);
+    try {
+        const record = (await sessionStore.get(sessionId)) ?? createSessionRecord(sessionId);
+        const memoryConfig = resolveMemoryConfig(record, {});
+        const memory = await restoreMemory(record, memoryConfig);
+        return {
+            release,
+            context: await memory.loadContext(),
+            saveTurn: async (input, answer) => {
+                await memory.saveTurn(input, answer);
+                record.memory = { ...memoryConfig, state: await memory.exportState() };
+                record.messages.push(...mapChatMessagesToStoredMessages([new HumanMessage(input), new AIMessage(answer)]));
+                record.usage = accumulateUsage(record.usage, getCurrentUsage());
+                record.updatedAt = Date.now();
+                await sessionStore.set(record);
+            },
+        };
+    } catch (err) {
+        release();
+        throw err;
     }
 }
 
 export function registerDashScopeRagRoutes(router: Router): void {
     // 注册上传路由 (需要 multer 中间件)
     router.post('/dashscope/rag/upload', upload.single('file'), uploadDocumentHandler);
+    router.put('/dashscope/rag/documents/:docId', upload.single('file'), uploadDocumentHandler);
     router.post('/dashscope/rag/add', addDocumentHandler);
+    router.post('/dashscope/rag/ingest-url', ingestUrlHandler);
     router.post('/dashscope/rag/query', queryRagHandler);
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+
+import { z } from 'zod';
+
+import { getMatchedRoute, setKoaError, setKoaJson } from '../../utils/dashscope';
+import { getEmbeddingModel } from '../../utils/embeddings';
+import { getRagJobQueue } from '../../utils/ragJobs';
+import { ragMetadataFieldTypes } from '../../utils/ragMetadata';
+import {
+    addCollectionMetadataField,
+    createCollection,
+    dropCollection,
+    getCollectionConfig,
+    getKnowledgeBase,
+    listCollections,
+    reembedCollection,
+} from '../../utils/ragStore';
+import { numeric, parseKoaBody, parseWithSchema } from '../../utils/validation';
+import { collectionNameField } from './rag';
+
+/** 元数据字段：字段名为字母开头的字母、数字、下划线 */
+const metadataFieldSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .regex(/^[A-Za-z][A-Za-z0-9_]{0,63}$/, { error: '只能包含字母、数字和下划线，且以字母开头，最长 64 个字符' }),
+    type: z.enum(ragMetadataFieldTypes),
+});
+
+const createCollectionBodySchema = z.object({
+    name: collectionNameField,
+    description: z.string().trim().max(500).optional(),
+    /** 向量模型ID（见 utils/embeddings.ts，GET /v1/models 中也会列出），缺省为 RAG_EMBEDDING_MODEL */
+    embeddingModel: z.string().trim().min(1).optional(),
+    chunkSize: numeric(z.number().int().min(100).max(8000)).optional(),
+    chunkOverlap: numeric(z.number().int().min(0).max(2000)).optional(),
+    /** 可过滤的元数据字段，如 [{ "name": "department", "type": "string" }, { "name": "publishedAt", "type": "date" }] */
+    metadataFields: z.array(metadataFieldSchema).max(32).optional(),
+});
+
+const reembedBodySchema = z.object({
+    /** 新的向量模型ID（可与当前相同，用于修复索引） */
+    embeddingModel: z.string().trim().min(1),
+});
+
+function getCollectionParam(ctx: Context): string {
+    return parseWithSchema(collectionNameField, (ctx as any).params?.name ?? '');
+}
+
+/**
+ * 列出知识库集合（含文档数 / 片段数）
+ * GET /dashscope/rag/collections
+ */
+export async function listRagCollectionsHandler(ctx: Context): Promise<void> {
+    try {
+        const collections = await Promise.all(
+            listCollections().map(async (config) => ({ ...config, ...(await getKnowledgeBase(config.name).stats()) }))
+        );
+        setKoaJson(ctx, 200, { total: collections.length, collections });
+    } catch (err) {
+        setKoaError(ctx, err, '获取集合列表失败');
+    }
+}
+
+/**
+ * 获取单个集合
+ * GET /dashscope/rag/collections/:name
+ */
+export async function getRagCollectionHandler(ctx: Context): Promise<void> {
+    try {
+        const config = getCollectionConfig(getCollectionParam(ctx));
+        const knowledgeBase = getKnowledgeBase(config.name);
+        setKoaJson(ctx, 200, { ...config, ...(await knowledgeBase.stats()), index: await knowledgeBase.indexStatus() });
+    } catch (err) {
+        setKoaError(ctx, err, '获取集合失败');
+    }
+}
+
+/**
+ * 创建集合
+ * POST /dashscope/rag/collections
+ * Body: { "name": "hr", "description"?: "...", "embeddingModel"?: "dashscope:text-embedding-v1", "chunkSize"?: 500, "chunkOverlap"?: 50,
+ *         "metadataFields"?: [{ "name": "department", "type": "string" | "number" | "date" | "boolean" }] }
+ */
+export async function createRagCollectionHandler(ctx: Context): Promise<void> {
+    try {
+        const body = parseKoaBody(ctx, createCollectionBodySchema);
+        const config = createCollection(body);
+        setKoaJson(ctx, 201, config);
+    } catch (err) {
+        setKoaError(ctx, err, '创建集合失败');
+    }
+}
+
+/**
+ * 新增可过滤的元数据字段（已有文档按其 metadata 回填）
+ * POST /dashscope/rag/collections/:name/metadata-fields
+ * Body: { "name": "year", "type": "number" }
+ */
+export async function addRagMetadataFieldHandler(ctx: Context): Promise<void> {
+    try {
+        const name = getCollectionParam(ctx);
+        const field = parseKoaBody(ctx, metadataFieldSchema);
+        const { config, backfilledDocuments } = await addCollectionMetadataField(name, field);
+        setKoaJson(ctx, 200, { ...config, backfilledDocuments });
+    } catch (err) {
+        setKoaError(ctx, err, '新增元数据字段失败');
+    }
+}
+
+/**
+ * 用新的向量模型重建集合索引（后台任务，进度见 GET /dashscope/rag/jobs/:id）
+ * POST /dashscope/rag/collections/:name/reembed
+ * Body: { "embeddingModel": "dashscope:text-embedding-v3" }
+ */
+export async function reembedRagCollectionHandler(ctx: Context): Promise<void> {
+    try {
+        const name = getCollectionParam(ctx);
+        const { embeddingModel } = parseKoaBody(ctx, reembedBodySchema);
+        getCollectionConfig(name);
+        // 提交前校验模型，未知模型直接返回 400 而不是留下一个失败的任务
+        const model = getEmbeddingModel(embeddingModel);
+        const job = getRagJobQueue().submit({
+            kind: 'reembed',
+            collection: name,
+            apiKeyName: ctx.state.apiKey,
+            route: getMatchedRoute(ctx),
+            run: async (reporter) => {
+                reporter.setStage('embedding');
+                return { ...(await reembedCollection(name, model.id, (progress) => reporter.setProgress(progress))) };
+            },
+        });
+        setKoaJson(ctx, 202, {
+            message: '已开始重建索引，期间检索仍使用旧索引',
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/dashscope/rag/jobs/${job.id}`,
+            collection: name,
+            embeddingModel: model.id,
+        });
+    } catch (err) {
+        setKoaError(ctx, err, '重建索引失败');
+    }
+}
+
+/**
+ * 删除集合（连同其中的全部文档）
+ * DELETE /dashscope/rag/collections/:name
+ */
+export async function dropRagCollectionHandler(ctx: Context): Promise<void> {
+    try {
+        const name = getCollectionParam(ctx);
+        await dropCollection(name);
+        setKoaJson(ctx, 200, { message: `集合 ${name} 已删除` });
+    } catch (err) {
+        setKoaError(ctx, err, '删除集合失败');
+    }
+}
+
+export function registerDashScopeRagCollectionRoutes(router: Router): void {
+    router.get('/dashscope/rag/collections', listRagCollectionsHandler);
+    router.post('/dashscope/rag/collections', createRagCollectionHandler);
+    router.get('/dashscope/rag/collections/:name', getRagCollectionHandler);
+    router.delete('/dashscope/rag/collections/:name', dropRagCollectionHandler);
+    router.post('/dashscope/rag/collections/:name/metadata-fields', addRagMetadataFieldHandler);
+    router.post('/dashscope/rag/collections/:name/reembed', reembedRagCollectionHandler);
+}
@@ -0,0 +1,76 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+
+import { z } from 'zod';
+
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { defaultCollectionName, getKnowledgeBase, type KnowledgeBase } from '../../utils/ragStore';
+import { parseKoaQuery } from '../../utils/validation';
+import { collectionNameField } from './rag';
+
+const collectionQuerySchema = z.object({
+    collection: collectionNameField.default(defaultCollectionName),
+});
+
+function getDocIdParam(ctx: Context): string {
+    return String((ctx as any).params?.docId ?? '');
+}
+
+function getQueryKnowledgeBase(ctx: Context): KnowledgeBase {
+    return getKnowledgeBase(parseKoaQuery(ctx, collectionQuerySchema).collection);
+}
+
+/**
+ * 列出知识库中的文档
+ * GET /dashscope/rag/documents?collection=default
+ */
+export async function listRagDocumentsHandler(ctx: Context): Promise<void> {
+    try {
+        const documents = await getQueryKnowledgeBase(ctx).listDocuments();
+        setKoaJson(ctx, 200, { total: documents.length, documents });
+    } catch (err) {
+        setKoaError(ctx, err, '获取文档列表失败');
+    }
+}
+
+/**
+ * 获取文档及其全部片段
+ * GET /dashscope/rag/documents/:docId?collection=default
+ */
+export async function getRagDocumentHandler(ctx: Context): Promise<void> {
+    try {
+        const docId = getDocIdParam(ctx);
+        const document = await getQueryKnowledgeBase(ctx).getDocument(docId);
+        if (!document) {
+            throw Object.assign(new Error(`文档不存在: ${docId}`), { status: 404 });
+        }
+        const { chunkList, ...summary } = document;
+        setKoaJson(ctx, 200, { ...summary, chunks: chunkList });
+    } catch (err) {
+        setKoaError(ctx, err, '获取文档失败');
+    }
+}
+
+/**
+ * 删除文档的全部片段
+ * DELETE /dashscope/rag/documents/:docId?collection=default
+ */
+export async function deleteRagDocumentHandler(ctx: Context): Promise<void> {
+    try {
+        const docId = getDocIdParam(ctx);
+        const removed = await getQueryKnowledgeBase(ctx).deleteDocument(docId);
+        if (removed === 0) {
+            throw Object.assign(new Error(`文档不存在: ${docId}`), { status: 404 });
+        }
+        setKoaJson(ctx, 200, { message: `文档 ${docId} 已删除`, removedChunks: removed });
+    } catch (err) {
+        setKoaError(ctx, err, '删除文档失败');
+    }
+}
+
+// 替换文档（PUT /dashscope/rag/documents/:docId）与上传共用处理器，见 rag.ts
+export function registerDashScopeRagDocumentRoutes(router: Router): void {
+    router.get('/dashscope/rag/documents', listRagDocumentsHandler);
+    router.get('/dashscope/rag/documents/:docId', getRagDocumentHandler);
+    router.delete('/dashscope/rag/documents/:docId', deleteRagDocumentHandler);
+}
@@ -0,0 +1,79 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+
+import { z } from 'zod';
+
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { getRagEvalStore, ragEvalConfigSchema, ragEvalDatasetSchema, runRagEval } from '../../utils/ragEval';
+import { parseKoaBody, parseKoaQuery } from '../../utils/validation';
+
+const ragEvalBodySchema = z.object({
+    dataset: ragEvalDatasetSchema,
+    config: ragEvalConfigSchema.prefault({}),
+    /** 基线评测ID，"latest" 为同一数据集的上一次评测，"none" 不对比 */
+    compareTo: z.string().trim().min(1).default('latest'),
+});
+
+const listRunsQuerySchema = z.object({
+    dataset: z.string().trim().min(1).optional(),
+});
+
+/**
+ * 运行一次知识库评测（同步返回，问题较多时耗时较长）
+ * POST /dashscope/rag/eval
+ */
+export async function ragEvalHandler(ctx: Context): Promise<void> {
+    try {
+        const { dataset, config, compareTo } = parseKoaBody(ctx, ragEvalBodySchema);
+        const run = await runRagEval(dataset, config, { compareTo: compareTo === 'none' ? undefined : compareTo });
+        setKoaJson(ctx, 200, run);
+    } catch (err) {
+        setKoaError(ctx, err, '知识库评测失败');
+    }
+}
+
+/**
+ * 列出评测记录（只含汇总指标）
+ * GET /dashscope/rag/eval/runs?dataset=
+ */
+export async function listRagEvalRunsHandler(ctx: Context): Promise<void> {
+    try {
+        const { dataset } = parseKoaQuery(ctx, listRunsQuerySchema);
+        const runs = getRagEvalStore()
+            .list(dataset)
+            .map(({ id, createdAt, dataset, datasetHash, config, summary }) => ({
+                id,
+                createdAt,
+                dataset,
+                datasetHash,
+                config,
+                summary,
+            }));
+        setKoaJson(ctx, 200, { total: runs.length, runs });
+    } catch (err) {
+        setKoaError(ctx, err, '获取评测记录失败');
+    }
+}
+
+/**
+ * 评测详情（逐题结果与对比）
+ * GET /dashscope/rag/eval/runs/:id
+ */
+export async function getRagEvalRunHandler(ctx: Context): Promise<void> {
+    try {
+        const id = String((ctx as any).params?.id ?? '');
+        const run = getRagEvalStore().get(id);
+        if (!run) {
+            throw Object.assign(new Error(`评测记录不存在: ${id}`), { status: 404 });
+        }
+        setKoaJson(ctx, 200, run);
+    } catch (err) {
+        setKoaError(ctx, err, '获取评测记录失败');
+    }
+}
+
+export function registerDashScopeRagEvalRoutes(router: Router): void {
+    router.post('/dashscope/rag/eval', ragEvalHandler);
+    router.get('/dashscope/rag/eval/runs', listRagEvalRunsHandler);
+    router.get('/dashscope/rag/eval/runs/:id', getRagEvalRunHandler);
+}
@@ -0,0 +1,59 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+
+import { getApiKeyStore } from '../../utils/apiKeys';
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { getRagJobQueue, type RagJob } from '../../utils/ragJobs';
+
+/**
+ * 鉴权开启时非管理员只能看到自己提交的任务
+ * @param {Context} ctx Koa上下文
+ * @param {RagJob} job 任务
+ * @returns {boolean} 是否可见
+ */
+function canViewJob(ctx: Context, job: RagJob): boolean {
+    return !getApiKeyStore().enabled || Boolean(ctx.state.apiKeyAdmin) || job.apiKeyName === ctx.state.apiKey;
+}
+
+function toJobView(job: RagJob): Omit<RagJob, 'apiKeyName'> {
+    const { apiKeyName: _apiKeyName, ...view } = job;
+    return view;
+}
+
+/**
+ * 列出入库任务（已结束的任务保留 1 小时）
+ * GET /dashscope/rag/jobs
+ */
+export async function listRagJobsHandler(ctx: Context): Promise<void> {
+    try {
+        const jobs = getRagJobQueue()
+            .list()
+            .filter((job) => canViewJob(ctx, job))
+            .map(toJobView);
+        setKoaJson(ctx, 200, { total: jobs.length, jobs });
+    } catch (err) {
+        setKoaError(ctx, err, '获取任务列表失败');
+    }
+}
+
+/**
+ * 查询入库任务：阶段（loading / splitting / embedding / done / failed）、片段进度、结果或错误
+ * GET /dashscope/rag/jobs/:id
+ */
+export async function getRagJobHandler(ctx: Context): Promise<void> {
+    try {
+        const id = String((ctx as any).params?.id ?? '');
+        const job = getRagJobQueue().get(id);
+        if (!job || !canViewJob(ctx, job)) {
+            throw Object.assign(new Error(`任务不存在或已过期: ${id}`), { status: 404 });
+        }
+        setKoaJson(ctx, 200, toJobView(job));
+    } catch (err) {
+        setKoaError(ctx, err, '获取任务失败');
+    }
+}
+
+export function registerDashScopeRagJobRoutes(router: Router): void {
+    router.get('/dashscope/rag/jobs', listRagJobsHandler);
+    router.get('/dashscope/rag/jobs/:id', getRagJobHandler);
+}
@@ -3,14 +3,17 @@ import { Context } from 'koa';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 
-import {
-    createDashScopeChatModel,
-    getKoaRequestBody,
-    getOptionalBodyString,
-    getRequiredBodyString,
-    setKoaError,
-    setKoaJson,
-} from '../../utils/dashscope';
+import { z } from 'zod';
+
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { createChatModel } from '../../utils/llm';
+import { modelSelectorShape, parseKoaBody, requiredString, resolveBodyModel } from '../../utils/validation';
+
+const translateBodySchema = z.object({
+    input: requiredString('缺少必要参数：input（string）'),
+    targetLanguage: z.string().trim().min(1).default('中文'),
+    ...modelSelectorShape,
+});
 
 /**
  * 翻译 Prompt 模板
@@ -27,14 +30,11 @@ const translatePrompt = ChatPromptTemplate.fromMessages([
  */
 export async function dashScopeTranslateHandler(ctx: Context): Promise<void> {
     try {
-        const body = getKoaRequestBody(ctx);
-        const input = getRequiredBodyString(body, 'input', '缺少必要参数：input（string）');
-        const targetLanguage = getOptionalBodyString(body, 'targetLanguage') ?? '中文';
-        const modelName = getOptionalBodyString(body, 'model');
+        const { input, targetLanguage, provider, model: modelName } = parseKoaBody(ctx, translateBodySchema);
+        const modelSpec = resolveBodyModel({ provider, model: modelName }, { provider: 'dashscope', model: 'qwen-plus' });
 
-        // 创建模型实例（默认使用 qwen-plus）
-        const model = createDashScopeChatModel({
-            model: modelName ?? 'qwen-plus',
+        // 创建模型实例（默认使用 dashscope:qwen-plus）
+        const model = createChatModel(modelSpec, {
             temperature: 0, // 翻译任务建议 temperature 为 0 以保证稳定性
         });
 
@@ -51,7 +51,7 @@ export async function dashScopeTranslateHandler(ctx: Context): Promise<void> {
             originalText: input,
             targetLanguage,
             translatedText: result,
-            model: modelName ?? 'qwen-plus',
+            model: modelSpec.spec,
         });
     } catch (err) {
         setKoaError(ctx, err, '翻译失败');
@@ -20,15 +20,22 @@ import { createAgent, tool } from 'langchain';
 import { z } from 'zod';
 
 import {
-    createDashScopeChatModel,
     getDashScopeClient,
     getKoaRequestBody,
-    getOptionalBodyNumber,
-    getOptionalBodyString,
-    getRequiredBodyString,
     setKoaError,
     setKoaJson,
 } from '../../utils/dashscope';
+import { RunHooksCallbackHandler, type RunHooks } from '../../utils/callbacks';
+import { createChatModel, type ResolvedModelSpec } from '../../utils/llm';
+import { addRequestUsage } from '../../utils/requestContext';
+import {
+    maxTokensField,
+    modelSelectorShape,
+    parseWithSchema,
+    requiredString,
+    resolveBodyModel,
+    temperatureField,
+} from '../../utils/validation';
 
 const dashscopeClient = getDashScopeClient();
 
@@ -42,8 +49,8 @@ async function callDashScopeWebSearch(
     query: string,
     options: { model?: string; max_tokens?: number; temperature?: number } = {}
 ): Promise<string> {
-    // 强制使用 qwen-turbo 以提升搜索响应速度（相比 plus/max 快很多，且足够用于提取搜索结果）
-    const model = 'qwen-turbo';
+    // 缺省使用 qwen-turbo 以提升搜索响应速度（相比 plus/max 快很多，且足够用于提取搜索结果）
+    const model = options.model ?? 'qwen-turbo';
 
     const requestBody: any = {
         model,
@@ -61,6 +68,8 @@ async function callDashScopeWebSearch(
             }),
         },
     });
+    // 直接调用 OpenAI SDK，不经过 LangChain 回调，需手动记账
+    addRequestUsage(`dashscope:${model}`, 'chat', response.usage?.prompt_tokens ?? 0, response.usage?.completion_tokens ?? 0);
 
     return response.choices[0]?.message?.content ?? '';
 }
@@ -72,9 +81,10 @@ async function callDashScopeWebSearch(
  */
 function createDashScopeWebSearchTool(defaults: { model?: string; max_tokens?: number; temperature?: number }) {
     return tool(
-        async (input: { query: string; model?: string; max_tokens?: number; temperature?: number }) => {
+        async (input: { query: string; max_tokens?: number; temperature?: number }) => {
+            // 搜索模型由调用方决定，不允许 Agent 自行更换
             const result = await callDashScopeWebSearch(input.query, {
-                model: input.model ?? defaults.model,
+                model: defaults.model,
                 max_tokens: input.max_tokens ?? defaults.max_tokens,
                 temperature: input.temperature ?? defaults.temperature,
             });
@@ -85,7 +95,6 @@ function createDashScopeWebSearchTool(defaults: { model?: string; max_tokens?: n
             description: '使用阿里通义千问 API 进行联网搜索。当需要查询实时信息、新闻或网页内容时调用。',
             schema: z.object({
                 query: z.string().describe('搜索关键词或自然语言问题'),
-                model: z.string().optional().describe('（已内部锁定为 qwen-turbo 以优化速度）'),
                 max_tokens: z.number().optional().describe('最大生成token数'),
                 temperature: z.number().optional().describe('温度参数，控制生成随机性'),
             }),
@@ -93,6 +102,110 @@ function createDashScopeWebSearchTool(defaults: { model?: string; max_tokens?: n
     );
 }
 
+export interface DashScopeWebSearchParams {
+    input: string;
+    /** Agent 大脑使用的模型；联网搜索工具固定走 DashScope，指定的是 DashScope 模型时搜索也用它，否则用 qwen-turbo */
+    model: ResolvedModelSpec;
+    maxTokens?: number;
+    temperature?: number;
+}
+
+export interface DashScopeWebSearchResult {
+    query: string;
+    agentOutput: string;
+    model: string;
+}
+
+export const dashScopeWebSearchBodySchema = z.object({
+    input: requiredString('缺少必要参数：input（string）'),
+    ...modelSelectorShape,
+    max_tokens: maxTokensField.optional(),
+    temperature: temperatureField.optional(),
+});
+
+/**
+ * 从请求体解析联网搜索参数（HTTP 与 WebSocket 网关共用）
+ * @param {Record<string, any>} raw 请求体
+ * @returns {DashScopeWebSearchParams} 联网搜索参数
+ */
+export function parseDashScopeWebSearchParams(raw: Record<string, any>): DashScopeWebSearchParams {
+    const body = parseWithSchema(dashScopeWebSearchBodySchema, raw);
+    return {
+        input: body.input,
+        model: resolveBodyModel({ provider: body.provider, model: body.model }, { provider: 'dashscope', model: 'qwen-turbo' }),
+        maxTokens: body.max_tokens,
+        temperature: body.temperature,
+    };
+}
+
+/**
+ * 执行联网搜索 Agent
+ * @param {DashScopeWebSearchParams} params 联网搜索参数
+ * @param {RunHooks} hooks token/工具事件回调与中止信号
+ * @returns {Promise<DashScopeWebSearchResult>} Agent 最终输出
+ */
+export async function runDashScopeWebSearch(
+    params: DashScopeWebSearchParams,
+    hooks: RunHooks = {}
+): Promise<DashScopeWebSearchResult> {
+    const { input, model, maxTokens, temperature } = params;
+
+    const dashscopeTool = createDashScopeWebSearchTool({
+        model: model.provider === 'dashscope' ? model.model : undefined,
+        max_tokens: maxTokens,
+        temperature,
+    });
+
+    // 创建 Agent 实例
+    const agent = createAgent({
+        // 大脑
+        model: createChatModel(model, {
+            temperature: 0,
+            enableSearch: true,
+        }),
+        // 工具
+        tools: [dashscopeTool],
+        systemPrompt: '你是一名检索助手。优先使用工具检索最新信息，再基于工具返回结果回答。回答用中文，最多引用3个来源链接；若信息不足请明确说明。',
+    });
+
+    const finalState = await agent.invoke(
+        {
+            messages: [{ role: 'user', content: input }],
+        },
+        {
+            callbacks: [new RunHooksCallbackHandler(hooks)],
+            signal: hooks.signal,
+        }
+    );
+
+    const messages = (finalState as any)?.messages ?? [];
+
+    let agentOutput = '';
+    for (let i = messages.length - 1; i >= 0; i -= 1) {
+        const msg = messages[i];
+        const msgType = typeof msg?._getType === 'function' ? msg._getType() : msg?.type ?? msg?.role;
+        if (msgType === 'ai' || msgType === 'assistant') {
+            const content = msg?.content;
+            if (typeof content === 'string') {
+                agentOutput = content;
+            } else if (Array.isArray(content)) {
+                agentOutput = content
+                    .map((block: any) => (typeof block === 'string' ? block : typeof block?.text === 'string' ? block.text : ''))
+                    .join('');
+            } else {
+                agentOutput = content == null ? '' : String(content);
+            }
+            break;
+        }
+    }
+
+    return {
+        query: input,
+        agentOutput,
+        model: model.spec,
+    };
+}
+
 /**
  * DashScope网络搜索处理器
  *
@@ -104,7 +217,8 @@ function createDashScopeWebSearchTool(defaults: { model?: string; max_tokens?: n
  *
  * 请求体参数：
  * - input (required): 用户问题
- * - model (optional): 模型名称，默认 'qwen-plus'
+ * - provider (optional): 模型提供方，默认 'dashscope'
+ * - model (optional): 模型名称或 "provider:model"，默认 'qwen-turbo'
  * - max_tokens (optional): 最大输出长度
  * - temperature (optional): 随机性 (0-1)
  *
@@ -114,60 +228,8 @@ function createDashScopeWebSearchTool(defaults: { model?: string; max_tokens?: n
 export async function dashScopeWebSearchHandler(ctx: Context): Promise<void> {
     try {
         const body = getKoaRequestBody(ctx);
-        const input = getRequiredBodyString(body, 'input', '缺少必要参数：input（string）');
-        const model = getOptionalBodyString(body, 'model');
-        const maxTokens = getOptionalBodyNumber(body, 'max_tokens');
-        const temperature = getOptionalBodyNumber(body, 'temperature');
-
-        const dashscopeTool = createDashScopeWebSearchTool({
-            model,
-            max_tokens: maxTokens,
-            temperature,
-        });
-
-        // 创建 Agent 实例
-        const agent = createAgent({
-            // 大脑
-            model: createDashScopeChatModel({
-                model: model ?? 'qwen-turbo',
-                temperature: 0,
-                enableSearch: true,
-            }),
-            // 工具
-            tools: [dashscopeTool],
-            systemPrompt: '你是一名检索助手。优先使用工具检索最新信息，再基于工具返回结果回答。回答用中文，最多引用3个来源链接；若信息不足请明确说明。',
-        });
-
-        const finalState = await agent.invoke({
-            messages: [{ role: 'user', content: input }],
-        });
-
-        const messages = (finalState as any)?.messages ?? [];
-
-        let agentOutput = '';
-        for (let i = messages.length - 1; i >= 0; i -= 1) {
-            const msg = messages[i];
-            const msgType = typeof msg?._getType === 'function' ? msg._getType() : msg?.type ?? msg?.role;
-            if (msgType === 'ai' || msgType === 'assistant') {
-                const content = msg?.content;
-                if (typeof content === 'string') {
-                    agentOutput = content;
-                } else if (Array.isArray(content)) {
-                    agentOutput = content
-                        .map((block: any) => (typeof block === 'string' ? block : typeof block?.text === 'string' ? block.text : ''))
-                        .join('');
-                } else {
-                    agentOutput = content == null ? '' : String(content);
-                }
-                break;
-            }
-        }
-
-        setKoaJson(ctx, 200, {
-            query: input,
-            agentOutput,
-            model: model ?? 'qwen-turbo',
-        });
+        const result = await runDashScopeWebSearch(parseDashScopeWebSearchParams(body));
+        setKoaJson(ctx, 200, result);
     } catch (err) {
         setKoaError(ctx, err, '代理搜索失败');
     }
@@ -6,8 +6,15 @@ import { registerDashScopeWebSearchRoutes } from './dashscope/webSearch';
 import { registerDashScopeImageRoutes } from './dashscope/imageRead';
 import { registerDashScopeTranslateRoutes } from './dashscope/translate';
 import { registerDashScopeChatRoutes } from './dashscope/chat';
+import { registerDashScopeChatSessionRoutes } from './dashscope/chatSession';
 import { registerDashScopeRagRoutes } from './dashscope/rag';
+import { registerDashScopeRagDocumentRoutes } from './dashscope/ragDocuments';
+import { registerDashScopeRagCollectionRoutes } from './dashscope/ragCollections';
+import { registerDashScopeRagJobRoutes } from './dashscope/ragJobs';
+import { registerDashScopeRagEvalRoutes } from './dashscope/ragEval';
 import { registerQuantRoutes } from './quant';
+import { registerOpenAICompatibleRoutes } from './openai/v1';
+import { registerUsageRoutes } from './usage';
 
 
 
@@ -24,8 +31,15 @@ export function registerRoutes(app: Koa): void {
     registerDashScopeWebSearchRoutes(router);
     registerDashScopeTranslateRoutes(router);
     registerDashScopeChatRoutes(router);
+    registerDashScopeChatSessionRoutes(router);
     registerDashScopeRagRoutes(router);
+    registerDashScopeRagDocumentRoutes(router);
+    registerDashScopeRagCollectionRoutes(router);
+    registerDashScopeRagJobRoutes(router);
+    registerDashScopeRagEvalRoutes(router);
     registerQuantRoutes(router);
+    registerOpenAICompatibleRoutes(router);
+    registerUsageRoutes(router);
 
     app.use(router.routes());
     app.use(router.allowedMethods());
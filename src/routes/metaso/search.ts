@@ -1,10 +1,27 @@
 import Router from '@koa/router';
 import { Context } from 'koa';
 
-import { ChatMistralAI } from '@langchain/mistralai';
 import { createAgent, tool } from 'langchain';
 import { z } from 'zod';
 
+import { createChatModel } from '../../utils/llm';
+import { setKoaError } from '../../utils/dashscope';
+import {
+  modelSelectorShape,
+  numeric,
+  parseKoaBody,
+  requiredString,
+  resolveBodyModel,
+  temperatureField,
+} from '../../utils/validation';
+
+const metasoSearchBodySchema = z.object({
+  input: requiredString('缺少必要参数：input（string）'),
+  num: numeric(z.number().int().min(1).max(10)).optional(),
+  ...modelSelectorShape,
+  temperature: temperatureField.default(0),
+});
+
 
 /**
  * 调用秘塔 AI 搜索 API
@@ -114,26 +131,13 @@ function createMetasoSearchTool(defaults: { num?: number }) {
  * @returns {Promise<void>} 异步处理结果
  */
 export async function metasoSearchAgentHandler(ctx: Context): Promise<void> {
-  const body = (ctx.request as any).body ?? {};
-  const input: unknown = body.input;
-  const num: unknown = body.num;
-  const modelName: unknown = body.model;
-  const temperature: unknown = body.temperature;
-
-  if (typeof input !== 'string' || !input.trim()) {
-    ctx.status = 400;
-    ctx.body = { message: '缺少必要参数：input（string）' };
-    return;
-  }
   try {
-    const llm = new ChatMistralAI({
-      apiKey: process.env.MISTRAL_API_KEY ?? '',
-      model: typeof modelName === 'string' ? modelName : process.env.MISTRAL_MODEL ?? 'mistral-small-latest',
-      temperature: typeof temperature === 'number' ? temperature : 0,
-    });
+    const { input, num, provider, model: modelName, temperature } = parseKoaBody(ctx, metasoSearchBodySchema);
+    const modelSpec = resolveBodyModel({ provider, model: modelName }, { provider: 'mistral' });
+    const llm = createChatModel(modelSpec, { temperature });
 
     const metasoTool = createMetasoSearchTool({
-      num: typeof num === 'number' ? num : 5,
+      num: num ?? 5,
     });
 
     const agent = createAgent({
@@ -195,13 +199,13 @@ export async function metasoSearchAgentHandler(ctx: Context): Promise<void> {
       try {
         const raw = await (metasoTool as any).invoke({
           query: input,
-          num: typeof num === 'number' ? num : undefined,
+          num,
         });
         const parsed = JSON.parse(raw);
         if (Array.isArray(parsed?.results)) results = parsed.results;
       } catch {
         results = await callMetasoSearchApi(input, {
-          num: typeof num === 'number' ? num : 5,
+          num: num ?? 5,
         });
       }
     }
@@ -211,13 +215,10 @@ export async function metasoSearchAgentHandler(ctx: Context): Promise<void> {
       query: input,
       agentOutput,
       results,
-      model: typeof modelName === 'string' ? modelName : process.env.MISTRAL_MODEL ?? 'mistral-small-latest',
+      model: modelSpec.spec,
     };
   } catch (err) {
-    const message = err instanceof Error ? err.message : '代理搜索失败';
-    const status = (err as any)?.status ?? 500;
-    ctx.status = status;
-    ctx.body = { message };
+    setKoaError(ctx, err, '代理搜索失败');
   }
 }
 
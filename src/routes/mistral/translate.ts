@@ -1,33 +1,32 @@
 import Router from '@koa/router';
 import { Context } from 'koa';
-import { ChatMistralAI } from '@langchain/mistralai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StringOutputParser } from '@langchain/core/output_parsers';
+import { z } from 'zod';
+import { createChatModel } from '../../utils/llm';
+import { setKoaError } from '../../utils/dashscope';
+import {
+    modelSelectorShape,
+    parseKoaBody,
+    requiredString,
+    resolveBodyModel,
+    temperatureField,
+} from '../../utils/validation';
 
-/**
- * 创建 Mistral Chat 模型实例
- * @param {string | undefined} modelName 指定模型名称（可选）
- * @param {number | undefined} temperature 采样温度（可选）
- * @returns {ChatMistralAI} Chat 模型实例
- */
-function createMistralChat(modelName?: string, temperature?: number): ChatMistralAI {
-    const apiKey = process.env.MISTRAL_API_KEY;
-    if (!apiKey) {
-        throw Object.assign(new Error('缺少 MISTRAL_API_KEY 环境变量'), { status: 500 });
-    }
-    return new ChatMistralAI({
-        apiKey,
-        model: modelName ?? (process.env.MISTRAL_MODEL ?? 'mistral-small-latest'),
-        temperature: temperature ?? 0.2,
-    });
-}
+const translateBodySchema = z.object({
+    text: requiredString('缺少必要参数：text（string）'),
+    targetLanguage: requiredString('targetLanguage 不能为空').default('en'),
+    ...modelSelectorShape,
+    temperature: temperatureField.default(0.2),
+});
 
 /**
  * 构建翻译链
- * @param {ChatMistralAI} chatModel Mistral 聊天模型
+ * @param {BaseChatModel} chatModel 聊天模型（默认 Mistral）
  * @returns {any} 可执行的翻译链
  */
-function createTranslateChain(chatModel: ChatMistralAI): any {
+function createTranslateChain(chatModel: BaseChatModel): any {
     const prompt = ChatPromptTemplate.fromMessages([
         [
             'system',
@@ -45,23 +44,10 @@ function createTranslateChain(chatModel: ChatMistralAI): any {
  * @returns {Promise<void>} 异步处理结果
  */
 async function translateHandler(ctx: Context): Promise<void> {
-    const body = (ctx.request as any).body ?? {};
-    const text: unknown = body.text;
-    const targetLanguage: unknown = body.targetLanguage ?? 'en';
-    const modelName: unknown = body.model;
-    const temperature: unknown = body.temperature;
-
-    if (typeof text !== 'string' || !text.trim() || typeof targetLanguage !== 'string' || !targetLanguage.trim()) {
-        ctx.status = 400;
-        ctx.body = { message: '缺少必要参数：text（string）与 targetLanguage（string）' };
-        return;
-    }
-
     try {
-        const chat = createMistralChat(
-            typeof modelName === 'string' ? modelName : undefined,
-            typeof temperature === 'number' ? temperature : undefined,
-        );
+        const { text, targetLanguage, provider, model: modelName, temperature } = parseKoaBody(ctx, translateBodySchema);
+        const modelSpec = resolveBodyModel({ provider, model: modelName }, { provider: 'mistral' });
+        const chat = createChatModel(modelSpec, { temperature });
 
         const chain = createTranslateChain(chat);
         const result = await chain.invoke({ text, targetLanguage });
@@ -70,13 +56,10 @@ async function translateHandler(ctx: Context): Promise<void> {
         ctx.body = {
             translation: result,
             targetLanguage,
-            model: typeof modelName === 'string' ? modelName : process.env.MISTRAL_MODEL ?? 'mistral-small-latest',
+            model: modelSpec.spec,
         };
     } catch (err) {
-        const message = err instanceof Error ? err.message : '翻译失败';
-        const status = (err as any)?.status ?? 500;
-        ctx.status = status;
-        ctx.body = { message };
+        setKoaError(ctx, err, '翻译失败');
     }
 }
 
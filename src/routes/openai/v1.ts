@@ -0,0 +1,415 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+import { randomUUID } from 'node:crypto';
+import {
+    AIMessage,
+    HumanMessage,
+    SystemMessage,
+    type AIMessageChunk,
+    type BaseMessage,
+    type MessageContent,
+} from '@langchain/core/messages';
+
+import { z } from 'zod';
+
+import { getKoaRequestBody, setKoaJson } from '../../utils/dashscope';
+import { createChatModel, listLlmProviders, type ResolvedModelSpec } from '../../utils/llm';
+import {
+    booleanish,
+    createValidationError,
+    maxTokensField,
+    numeric,
+    parseKoaBody,
+    parseWithSchema,
+    requiredString,
+    resolveBodyModel,
+    temperatureField,
+} from '../../utils/validation';
+import { estimateTokens, getEmbeddingModel, listEmbeddingModels } from '../../utils/embeddings';
+import { openSseStream, type SseWriter } from '../../utils/sse';
+import { getCurrentUsage } from '../../utils/usage';
+import { runDashScopeChat, type DashScopeChatParams } from '../dashscope/chat';
+
+/**
+ * OpenAI 兼容接口：/v1/chat/completions、/v1/embeddings、/v1/models
+ * 客户端把 OpenAI SDK 的 baseURL 指向本服务的 /v1 即可复用服务端的模型密钥与会话记忆。
+ * model 字段沿用模型注册表写法（qwen-plus、dashscope:qwen-max、mistral:mistral-small-latest 等），
+ * 不带提供方前缀时默认 dashscope。
+ */
+
+interface OpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
+interface ChatCompletionParams {
+    model: ResolvedModelSpec;
+    messages: BaseMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    stop?: string[];
+    stream: boolean;
+    includeUsage: boolean;
+    /** 扩展字段：指定后由服务端会话记忆维护历史，只取最后一条 user 消息作为本轮输入（system 消息与生成参数照常生效） */
+    sessionId?: string;
+}
+
+/**
+ * 按 OpenAI 错误格式返回
+ * @param {Context} ctx Koa上下文
+ * @param {unknown} err 错误
+ * @param {string} fallbackMessage 兜底错误信息
+ * @returns {void}
+ */
+function setOpenAIError(ctx: Context, err: unknown, fallbackMessage: string): void {
+    const message = err instanceof Error ? err.message : fallbackMessage;
+    const status = (err as any)?.status ?? 500;
+    const errors = (err as any)?.errors;
+    setKoaJson(ctx, status, {
+        error: {
+            message,
+            type: status >= 500 ? 'server_error' : 'invalid_request_error',
+            param: Array.isArray(errors) ? errors[0]?.field ?? null : null,
+            code: (err as any)?.code ?? null,
+            ...(Array.isArray(errors) ? { errors } : {}),
+        },
+    });
+}
+
+const contentPartSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text'), text: z.string() }),
+    z.object({
+        type: z.literal('image_url'),
+        image_url: z.union([z.string(), z.object({ url: z.string() })]),
+    }),
+]);
+
+const chatMessageSchema = z.object({
+    role: z.enum(['system', 'developer', 'user', 'assistant']),
+    content: z.union([z.string(), z.array(contentPartSchema)]),
+});
+
+const chatCompletionBodySchema = z.object({
+    model: z.string().trim().optional(),
+    messages: z.array(chatMessageSchema).min(1),
+    temperature: temperatureField.optional(),
+    max_tokens: maxTokensField.optional(),
+    max_completion_tokens: maxTokensField.optional(),
+    stop: z.union([z.string(), z.array(z.string())]).nullish(),
+    n: z.literal(1, { error: '暂不支持 n > 1' }).optional(),
+    stream: booleanish().optional(),
+    stream_options: z.object({ include_usage: booleanish().optional() }).nullish(),
+    tools: z.never({ error: '暂不支持 tools 调用' }).optional(),
+    functions: z.never({ error: '暂不支持 functions 调用' }).optional(),
+    /** 扩展字段：服务端会话ID */
+    session_id: z.string().trim().min(1).optional(),
+});
+
+const embeddingsBodySchema = z.object({
+    input: z.union([requiredString(), z.array(requiredString()).min(1)]),
+    model: z.string().trim().optional(),
+    encoding_format: z.enum(['float', 'base64']).default('float'),
+    dimensions: numeric(z.number().int().positive()).optional(),
+});
+
+/**
+ * 把 OpenAI messages 转换为 LangChain 消息（text / image_url 两种 part 原样透传）
+ * @param {z.infer<typeof chatMessageSchema>[]} messages 已校验的 OpenAI 消息
+ * @returns {BaseMessage[]} LangChain 消息列表
+ */
+function toLangChainMessages(messages: z.infer<typeof chatMessageSchema>[]): BaseMessage[] {
+    return messages.map((m) => {
+        const content: MessageContent = typeof m.content === 'string'
+            ? m.content
+            : m.content.map((part) => part.type === 'text'
+                ? { type: 'text', text: part.text }
+                : { type: 'image_url', image_url: { url: typeof part.image_url === 'string' ? part.image_url : part.image_url.url } });
+        switch (m.role) {
+            case 'system':
+            case 'developer':
+                return new SystemMessage({ content });
+            case 'user':
+                return new HumanMessage({ content });
+            case 'assistant':
+                return new AIMessage({ content });
+        }
+    });
+}
+
+/**
+ * 提取消息中的纯文本
+ * @param {MessageContent} content 消息内容
+ * @returns {string} 文本
+ */
+function contentToText(content: MessageContent): string {
+    if (typeof content === 'string') return content;
+    return content.map((part: any) => (part?.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * 解析 /v1/chat/completions 请求体
+ * @param {Record<string, any>} body 请求体
+ * @returns {ChatCompletionParams} 调用参数
+ */
+function parseChatCompletionParams(raw: Record<string, any>): ChatCompletionParams {
+    const body = parseWithSchema(chatCompletionBodySchema, raw);
+    return {
+        model: resolveBodyModel({ model: body.model }, { provider: 'dashscope', model: 'qwen-plus' }),
+        messages: toLangChainMessages(body.messages),
+        temperature: body.temperature,
+        maxTokens: body.max_completion_tokens ?? body.max_tokens,
+        stop: typeof body.stop === 'string' ? [body.stop] : body.stop ?? undefined,
+        stream: body.stream === true,
+        includeUsage: body.stream_options?.include_usage === true,
+        sessionId: body.session_id,
+    };
+}
+
+/**
+ * 从模型返回中读取 usage（取不到时按文本估算）
+ * @param {AIMessageChunk | AIMessage | undefined} message 模型返回
+ * @param {BaseMessage[]} prompt 输入消息
+ * @param {string} completion 输出文本
+ * @returns {OpenAIUsage} usage
+ */
+function toOpenAIUsage(message: AIMessage | AIMessageChunk | undefined, prompt: BaseMessage[], completion: string): OpenAIUsage {
+    const usage = message?.usage_metadata;
+    if (usage) {
+        return { prompt_tokens: usage.input_tokens, completion_tokens: usage.output_tokens, total_tokens: usage.total_tokens };
+    }
+    const promptTokens = prompt.reduce((sum, m) => sum + estimateTokens(contentToText(m.content)), 0);
+    const completionTokens = estimateTokens(completion);
+    return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+/**
+ * 取最后一条 user 消息作为会话模式下的本轮输入
+ * @param {BaseMessage[]} messages 消息列表
+ * @returns {string} 输入文本
+ */
+function getLastUserInput(messages: BaseMessage[]): string {
+    const last = [...messages].reverse().find((m) => HumanMessage.isInstance(m));
+    const text = last ? contentToText(last.content).trim() : '';
+    if (!text) {
+        throw Object.assign(new Error('session_id 模式下 messages 中需要至少一条文本 user 消息'), { status: 400 });
+    }
+    return text;
+}
+
+/**
+ * 会话模式的调用参数：最后一条 user 消息作为本轮输入，system / developer 消息作为附加指令，生成参数原样透传
+ * @param {ChatCompletionParams} params 调用参数
+ * @param {string} sessionId 会话ID
+ * @returns {DashScopeChatParams} 会话对话参数
+ */
+function toSessionChatParams(params: ChatCompletionParams, sessionId: string): DashScopeChatParams {
+    const instructions = params.messages
+        .filter((m) => SystemMessage.isInstance(m))
+        .map((m) => contentToText(m.content).trim())
+        .filter(Boolean)
+        .join('\n\n');
+    return {
+        input: getLastUserInput(params.messages),
+        sessionId,
+        model: params.model,
+        memory: {},
+        temperature: params.temperature,
+        maxTokens: params.maxTokens,
+        stop: params.stop,
+        instructions: instructions || undefined,
+    };
+}
+
+/**
+ * 会话模式的 usage：取本次请求实际记录的用量（含记忆历史与摘要调用），取不到时按本轮输入输出估算
+ * @param {string} input 本轮输入
+ * @param {string} completion 输出文本
+ * @returns {OpenAIUsage} usage
+ */
+function toSessionUsage(input: string, completion: string): OpenAIUsage {
+    const usage = getCurrentUsage();
+    if (usage && usage.totalTokens > 0) {
+        return { prompt_tokens: usage.promptTokens, completion_tokens: usage.completionTokens, total_tokens: usage.totalTokens };
+    }
+    return toOpenAIUsage(undefined, [new HumanMessage(input)], completion);
+}
+
+// --- Handlers ---
+
+/**
+ * 聊天补全接口（OpenAI 兼容）
+ * POST /v1/chat/completions
+ * Body: { "model"?: "qwen-plus", "messages": [...], "stream"?: true, "temperature"?, "max_tokens"?, "stop"?,
+ *         "stream_options"?: { "include_usage": true }, "session_id"?: "..." }
+ * 传 session_id 时改用 /dashscope/chat 的会话记忆：历史由服务端维护，只取最后一条 user 消息作为输入，
+ * system 消息追加到系统提示，temperature / max_tokens / stop 照常生效
+ */
+export async function chatCompletionsHandler(ctx: Context): Promise<void> {
+    try {
+        const body = getKoaRequestBody(ctx);
+        const params = parseChatCompletionParams(body);
+        const id = `chatcmpl-${randomUUID()}`;
+        const created = Math.floor(Date.now() / 1000);
+
+        if (params.stream) {
+            await streamChatCompletion(openSseStream(ctx), id, created, params);
+            return;
+        }
+
+        let content: string;
+        let usage: OpenAIUsage;
+        let finishReason = 'stop';
+        if (params.sessionId) {
+            const result = await runDashScopeChat(toSessionChatParams(params, params.sessionId));
+            content = result.answer;
+            usage = toSessionUsage(result.input, content);
+        } else {
+            const model = createChatModel(params.model, { temperature: params.temperature, maxTokens: params.maxTokens });
+            const response = await model.invoke(params.messages, { stop: params.stop });
+            content = contentToText(response.content);
+            usage = toOpenAIUsage(response as AIMessage, params.messages, content);
+            finishReason = typeof response.response_metadata?.finish_reason === 'string'
+                ? response.response_metadata.finish_reason
+                : 'stop';
+        }
+
+        setKoaJson(ctx, 200, {
+            id,
+            object: 'chat.completion',
+            created,
+            model: params.model.spec,
+            choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+            usage,
+        });
+    } catch (err) {
+        setOpenAIError(ctx, err, '聊天补全失败');
+    }
+}
+
+/**
+ * 以 OpenAI chunk 格式流式输出，结束时写 data: [DONE]
+ * @param {SseWriter} sse SSE 写入器
+ * @param {string} id 补全 ID
+ * @param {number} created 创建时间（秒）
+ * @param {ChatCompletionParams} params 调用参数
+ * @returns {Promise<void>}
+ */
+async function streamChatCompletion(sse: SseWriter, id: string, created: number, params: ChatCompletionParams): Promise<void> {
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model: params.model.spec,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    try {
+        sse.sendData(chunk({ role: 'assistant', content: '' }));
+        let completion = '';
+        let last: AIMessageChunk | undefined;
+        let sessionInput: string | undefined;
+
+        if (params.sessionId) {
+            const result = await runDashScopeChat(
+                toSessionChatParams(params, params.sessionId),
+                { signal: sse.signal, onToken: (delta) => sse.sendData(chunk({ content: delta })) }
+            );
+            completion = result.answer;
+            sessionInput = result.input;
+        } else {
+            const model = createChatModel(params.model, { temperature: params.temperature, maxTokens: params.maxTokens });
+            const stream = await model.stream(params.messages, { stop: params.stop, signal: sse.signal });
+            for await (const part of stream) {
+                if (part.usage_metadata) last = part;
+                const delta = contentToText(part.content);
+                if (!delta) continue;
+                completion += delta;
+                sse.sendData(chunk({ content: delta }));
+            }
+        }
+
+        sse.sendData(chunk({}, 'stop'));
+        if (params.includeUsage) {
+            sse.sendData({
+                id,
+                object: 'chat.completion.chunk',
+                created,
+                model: params.model.spec,
+                choices: [],
+                usage: sessionInput !== undefined
+                    ? toSessionUsage(sessionInput, completion)
+                    : toOpenAIUsage(last, params.messages, completion),
+            });
+        }
+        sse.sendData('[DONE]');
+    } catch (err) {
+        if (!sse.closed) {
+            sse.sendData({
+                error: { message: err instanceof Error ? err.message : '聊天补全失败', type: 'server_error', code: null },
+            });
+        }
+    } finally {
+        sse.end();
+    }
+}
+
+/**
+ * 文本向量接口（OpenAI 兼容）
+ * POST /v1/embeddings
+ * Body: { "input": "..." | ["...", ...], "model"?: "text-embedding-v1", "encoding_format"?: "float" | "base64" }
+ */
+export async function embeddingsHandler(ctx: Context): Promise<void> {
+    try {
+        const body = parseKoaBody(ctx, embeddingsBodySchema);
+        const texts = Array.isArray(body.input) ? body.input : [body.input];
+        const format = body.encoding_format;
+        const info = getEmbeddingModel(body.model);
+        if (body.dimensions !== undefined && body.dimensions !== info.dimensions) {
+            throw createValidationError([{ field: 'dimensions', reason: `${info.id} 的向量维度固定为 ${info.dimensions}` }]);
+        }
+
+        const vectors = await info.create().embedDocuments(texts);
+        const promptTokens = texts.reduce((sum, t) => sum + estimateTokens(t), 0);
+
+        setKoaJson(ctx, 200, {
+            object: 'list',
+            model: info.id,
+            data: vectors.map((vector, index) => ({
+                object: 'embedding',
+                index,
+                embedding: format === 'base64'
+                    ? Buffer.from(new Float32Array(vector).buffer).toString('base64')
+                    : vector,
+            })),
+            usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+        });
+    } catch (err) {
+        setOpenAIError(ctx, err, '生成向量失败');
+    }
+}
+
+/**
+ * 模型列表接口（OpenAI 兼容）
+ * GET /v1/models
+ * 列出各提供方的常用 / 默认聊天模型与已注册的向量模型，id 为可直接回填到 model 字段的 "provider:model"
+ */
+export async function listModelsHandler(ctx: Context): Promise<void> {
+    const data: Array<{ id: string; object: 'model'; created: number; owned_by: string }> = [];
+    for (const provider of listLlmProviders()) {
+        const models = new Set([provider.defaultModel, ...provider.knownModels].filter(Boolean));
+        for (const model of models) {
+            data.push({ id: `${provider.name}:${model}`, object: 'model', created: 0, owned_by: provider.name });
+        }
+    }
+    for (const info of listEmbeddingModels()) {
+        data.push({ id: info.id, object: 'model', created: 0, owned_by: info.provider });
+    }
+    setKoaJson(ctx, 200, { object: 'list', data });
+}
+
+export function registerOpenAICompatibleRoutes(router: Router): void {
+    router.post('/v1/chat/completions', chatCompletionsHandler);
+    router.post('/v1/embeddings', embeddingsHandler);
+    router.get('/v1/models', listModelsHandler);
+}
@@ -0,0 +1,50 @@
+// 策略回测：HTTP 接口与 Agent 工具
+import Router from '@koa/router';
+import { Context } from 'koa';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { backtestRequestSchema, backtestSymbol } from '../../utils/backtest';
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { parseKoaBody } from '../../utils/validation';
+
+/**
+ * 回测工具：只返回统计指标与最近几笔交易，完整权益曲线请走 HTTP 接口
+ */
+export const backtestTool = new DynamicStructuredTool({
+    name: 'run_backtest',
+    description:
+        '用历史 K 线回测一条规则策略（只做多，信号按收盘价计算、次日开盘成交，含佣金、印花税、滑点与 A 股 T+1），返回收益率、年化收益、夏普比率、最大回撤、胜率等。' +
+        '规则的操作数为数字、价格字段（close/open/high/low/volume）或指标序列（rsi、macd.dif、macd.dea、boll.upper、boll.lower、kdj.k、ma_cross.fast、ma_cross.slow 等），' +
+        '例如 entry: {"left":"rsi","op":"<","right":30}，exit: {"left":"rsi","op":">","right":70}；比较符支持 > < >= <= crosses_above crosses_below，多个条件用 {"all":[...]} 或 {"any":[...]} 组合',
+    schema: backtestRequestSchema,
+    func: async (input) => {
+        const result = await backtestSymbol(input);
+        return JSON.stringify({
+            symbol: result.symbol,
+            interval: result.interval,
+            adjust: result.adjust,
+            from: result.equityCurve[0]?.date,
+            to: result.equityCurve[result.equityCurve.length - 1]?.date,
+            metrics: result.metrics,
+            settings: result.settings,
+            recentTrades: result.trades.slice(-5),
+            source: result.source,
+        });
+    },
+});
+
+/**
+ * 回测规则策略，返回交易明细、权益曲线与统计指标
+ * POST /quant/backtest
+ */
+export async function quantBacktestHandler(ctx: Context): Promise<void> {
+    try {
+        const request = parseKoaBody(ctx, backtestRequestSchema);
+        setKoaJson(ctx, 200, await backtestSymbol(request));
+    } catch (err) {
+        setKoaError(ctx, err, '策略回测失败');
+    }
+}
+
+export function registerQuantBacktestRoutes(router: Router): void {
+    router.post('/quant/backtest', quantBacktestHandler);
+}
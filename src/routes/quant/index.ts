@@ -1 +1,10 @@
-export { registerQuantRoutes } from './strategy';
\ No newline at end of file
+import Router from '@koa/router';
+import { registerQuantBacktestRoutes } from './backtest';
+import { registerQuantIndicatorRoutes } from './indicators';
+import { registerQuantStrategyRoutes } from './strategy';
+
+export function registerQuantRoutes(router: Router): void {
+    registerQuantStrategyRoutes(router);
+    registerQuantIndicatorRoutes(router);
+    registerQuantBacktestRoutes(router);
+}
@@ -0,0 +1,114 @@
+// 技术指标：Agent 工具与时间序列接口
+import Router from '@koa/router';
+import { Context } from 'koa';
+import { z } from 'zod';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { computeIndicator, indicatorNames, listIndicators, type Series } from '../../utils/indicators';
+import { fetchKlineSeries, klineIntervals, klineQueryShape, klineRanges } from '../../utils/klines';
+import { parseKoaBody, requiredString } from '../../utils/validation';
+
+function round(value: number | null, digits = 4): number | null {
+    return value === null ? null : Number(value.toFixed(digits));
+}
+
+function roundSeries(series: Record<string, Series>): Record<string, Series> {
+    return Object.fromEntries(Object.entries(series).map(([key, values]) => [key, values.map((value) => round(value))]));
+}
+
+/**
+ * 每个指标生成一个 calculate_<name> 工具，返回最新值、信号与最近的交叉事件
+ */
+export const indicatorTools = listIndicators().map(
+    (definition) =>
+        new DynamicStructuredTool({
+            name: `calculate_${definition.name}`,
+            description: `计算指定股票的${definition.description}（数据源：东方财富前复权 K 线，支持 A 股与港股）`,
+            schema: definition.params.extend({
+                symbol: z.string().describe('股票代码，例如 600519.SH、000001.SZ、00700.HK'),
+                range: z.enum(klineRanges).default('3mo').describe('拉取历史数据区间，默认 3mo'),
+                interval: z.enum(klineIntervals).default('1d').describe('K 线间隔，默认 1d'),
+            }),
+            func: async ({ symbol, range, interval, ...params }: Record<string, any>) => {
+                const data = await fetchKlineSeries(symbol, { range, interval });
+                const result = computeIndicator(data.bars, definition.name, params);
+                const latest = Object.fromEntries(Object.entries(result.series).map(([key, values]) => [key, round(values[values.length - 1], 2)]));
+                const entries = Object.values(latest);
+
+                return JSON.stringify({
+                    symbol: data.symbol,
+                    indicator: definition.name.toUpperCase(),
+                    ...result.params,
+                    range,
+                    interval,
+                    date: data.bars[data.bars.length - 1].date,
+                    // 单一序列的指标（RSI 等）直接给出 value
+                    ...(entries.length === 1 ? { value: entries[0] } : { values: latest }),
+                    signal: result.signal,
+                    recentEvents: result.events?.slice(-3),
+                    points: data.bars.length,
+                    source: data.source,
+                });
+            },
+        })
+);
+
+const indicatorRequestSchema = z.union([
+    z.enum(indicatorNames),
+    z.object({
+        name: z.enum(indicatorNames),
+        /** 结果中的键名，同一指标用不同参数计算多次时区分，默认为指标名 */
+        id: z.string().trim().min(1).optional(),
+        params: z.record(z.string(), z.unknown()).default({}),
+    }),
+]);
+
+const indicatorsBodySchema = z.object({
+    symbol: requiredString('缺少股票代码 symbol'),
+    indicators: z.array(indicatorRequestSchema).min(1).max(20).default([...indicatorNames]),
+    ...klineQueryShape,
+    range: klineQueryShape.range.removeDefault().default('6mo'),
+});
+
+/**
+ * 计算技术指标，返回与 K 线逐根对齐的完整序列（供前端绘图）
+ * POST /quant/indicators
+ */
+export async function quantIndicatorsHandler(ctx: Context): Promise<void> {
+    try {
+        const body = parseKoaBody(ctx, indicatorsBodySchema);
+        const requests = body.indicators.map((item) => (typeof item === 'string' ? { name: item, id: item, params: {} } : { ...item, id: item.id ?? item.name }));
+        const duplicate = requests.find((item, index) => requests.findIndex((other) => other.id === item.id) !== index);
+        if (duplicate) {
+            throw Object.assign(new Error(`指标键名重复: ${duplicate.id}（同一指标计算多次时请用 id 区分）`), { status: 400 });
+        }
+
+        const { symbol, range, start, end, interval, adjust } = body;
+        const data = await fetchKlineSeries(symbol, { range, start, end, interval, adjust });
+        const indicators = Object.fromEntries(
+            requests.map(({ name, id, params }) => {
+                const result = computeIndicator(data.bars, name, params);
+                return [id, { name, params: result.params, signal: result.signal, events: result.events, series: roundSeries(result.series) }];
+            })
+        );
+
+        setKoaJson(ctx, 200, {
+            symbol: data.symbol,
+            name: data.name,
+            start: data.start,
+            end: data.end,
+            interval: data.interval,
+            adjust: data.adjust,
+            dates: data.bars.map((bar) => bar.date),
+            bars: data.bars,
+            indicators,
+            source: data.source,
+        });
+    } catch (err) {
+        setKoaError(ctx, err, '计算技术指标失败');
+    }
+}
+
+export function registerQuantIndicatorRoutes(router: Router): void {
+    router.post('/quant/indicators', quantIndicatorsHandler);
+}
@@ -5,71 +5,26 @@ import { z } from 'zod';
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { createAgent } from 'langchain';
-import {
-    createDashScopeChatModel,
-    getKoaRequestBody,
-    getRequiredBodyString,
-    setKoaError,
-    setKoaJson,
-} from '../../utils/dashscope';
+import { getKoaRequestBody, setKoaError, setKoaJson } from '../../utils/dashscope';
+import { modelSelectorShape, parseWithSchema, requiredString, resolveBodyModel } from '../../utils/validation';
 import { getJson } from '../../utils/axios';
-import { fetchEastmoneyKlines, fetchEastmoneyQuote, isChinaSymbol } from '../../utils/eastmoney';
+import { fetchEastmoneyFundFlow, maxFundFlowDays, type EastmoneyFundFlowPoint } from '../../utils/eastmoney';
+import { fetchMarketQuote } from '../../utils/marketData';
+import { isChinaSymbol } from '../../utils/symbols';
 import { fetchTushareReports } from '../../utils/tushare';
-
-function computeRsi(closes: number[], period: number): number {
-    if (closes.length < period + 1) {
-        throw new Error(`数据不足，无法计算 RSI：需要至少 ${period + 1} 个收盘价`);
-    }
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i <= period; i += 1) {
-        const diff = closes[i] - closes[i - 1];
-        if (diff >= 0) gains += diff;
-        else losses += -diff;
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    for (let i = period + 1; i < closes.length; i += 1) {
-        const diff = closes[i] - closes[i - 1];
-        const gain = diff > 0 ? diff : 0;
-        const loss = diff < 0 ? -diff : 0;
-
-        avgGain = (avgGain * (period - 1) + gain) / period;
-        avgLoss = (avgLoss * (period - 1) + loss) / period;
-    }
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - 100 / (1 + rs);
-}
+import { RunHooksCallbackHandler, type RunHooks } from '../../utils/callbacks';
+import { createChatModel, type ResolvedModelSpec } from '../../utils/llm';
+import { backtestTool } from './backtest';
+import { indicatorTools } from './indicators';
 
 // 股票价格工具
 const stockPriceTool = new DynamicStructuredTool({
     name: 'get_stock_price',
-    description: '获取指定股票代码的当前实时价格和涨跌幅（数据源：东财 A 股 / Stooq 美股）',
+    description: '获取指定股票代码的当前实时价格、涨跌幅与交易币种（数据源：东财 A 股 / 港股，Yahoo Finance / Stooq 美股）',
     schema: z.object({
-        symbol: z.string().describe('股票代码，例如 AAPL, TSLA, 600519.SH, 000001.SZ（A股建议加交易所后缀）'),
+        symbol: z.string().describe('股票代码，例如 AAPL, TSLA, 00700.HK, 600519.SH, 000001.SZ（A股建议加交易所后缀）'),
     }),
-    func: async ({ symbol }) => {
-        if (isChinaSymbol(symbol)) {
-            const quote = await fetchEastmoneyQuote(symbol);
-            return JSON.stringify({
-                symbol: quote.symbol,
-                shortName: quote.shortName,
-                price: quote.price,
-                change: quote.change,
-                change_percent: quote.changePercent,
-                currency: quote.currency,
-                marketState: 'OPEN',
-                timestamp: new Date().toISOString(),
-                source: quote.source,
-            });
-        }
-    },
+    func: async ({ symbol }) => JSON.stringify(await fetchMarketQuote(symbol)),
 });
 
 /**
@@ -103,53 +58,81 @@ const financialNewsTool = new DynamicStructuredTool({
     },
 });
 
-// 计算技术指标 (RSI)
-const rsiTool = new DynamicStructuredTool({
-    name: 'calculate_rsi',
-    description: '计算指定股票的 RSI (相对强弱指标，数据源：东方财富 K 线)',
+const orderSizes = ['main', 'superLarge', 'large', 'medium', 'small'] as const;
+
+// 各类净流入换算为万元
+function toWan(flows: Pick<EastmoneyFundFlowPoint, (typeof orderSizes)[number]>): Record<(typeof orderSizes)[number], number> {
+    return Object.fromEntries(orderSizes.map((size) => [size, Number((flows[size] / 10000).toFixed(2))])) as Record<(typeof orderSizes)[number], number>;
+}
+
+/**
+ * 资金流向工具：日线净流入汇总出主力是在吸筹还是派发，另附当日分钟级累计值
+ */
+const fundFlowTool = new DynamicStructuredTool({
+    name: 'get_fund_flow',
+    description: '获取 A 股资金流向：按超大单 / 大单 / 中单 / 小单拆分的每日净流入与当日盘中累计净流入，汇总主力（超大单 + 大单）在窗口内是净流入（吸筹）还是净流出（派发）（数据源：东方财富）',
     schema: z.object({
         symbol: z.string().describe('A股股票代码，例如 600519.SH、000001.SZ'),
-        period: z.number().min(2).max(100).default(14).describe('RSI 周期，默认 14'),
-        range: z.enum(['1mo', '3mo', '6mo', '1y', '2y', '5y']).default('3mo').describe('拉取历史数据区间，默认 3mo'),
-        interval: z.enum(['1d', '1h', '15m', '5m']).default('1d').describe('K 线间隔，默认 1d'),
+        days: z.number().int().min(1).max(maxFundFlowDays).default(10).describe('统计最近多少个交易日，默认 10'),
+        intraday: z.boolean().default(true).describe('是否附带当日盘中累计净流入，默认 true'),
     }),
-    func: async ({ symbol, period, range, interval }) => {
-        if (!isChinaSymbol(symbol)) {
-            throw new Error('东方财富 RSI 暂仅支持 A 股代码');
+    func: async ({ symbol, days, intraday }) => {
+        const daily = await fetchEastmoneyFundFlow(symbol, { period: 'daily', days });
+        const points = daily.points;
+        if (points.length === 0) {
+            throw new Error(`未获取到资金流向数据：${symbol}`);
         }
 
-        const klt = interval === '1h' ? 60 : interval === '15m' ? 15 : interval === '5m' ? 5 : 101;
-        const lmt = range === '1mo'
-            ? 30
-            : range === '3mo'
-                ? 90
-                : range === '6mo'
-                    ? 180
-                    : range === '1y'
-                        ? 260
-                        : range === '2y'
-                            ? 520
-                            : 1300;
-
-        const data = await fetchEastmoneyKlines(symbol, { klt, lmt, fqt: 1 });
-        const closes = data.klines
-            .map((row) => row.split(',')[2])
-            .map((value) => Number(value))
-            .filter((value) => Number.isFinite(value));
-
-        const rsi = computeRsi(closes, period);
-        const signal = rsi > 70 ? 'Overbought' : rsi < 30 ? 'Oversold' : 'Neutral';
+        const total = toWan(
+            Object.fromEntries(orderSizes.map((size) => [size, points.reduce((sum, point) => sum + point[size], 0)])) as Record<(typeof orderSizes)[number], number>
+        );
+        const inflowDays = points.filter((point) => point.main > 0).length;
+        const outflowDays = points.filter((point) => point.main < 0).length;
+        const bias = total.main > 0 && inflowDays >= outflowDays
+            ? 'accumulating'
+            : total.main < 0 && outflowDays >= inflowDays
+                ? 'distributing'
+                : 'mixed';
+        const priceChangePercent = points.every((point) => point.changePercent !== undefined)
+            ? Number(((points.reduce((value, point) => value * (1 + point.changePercent! / 100), 1) - 1) * 100).toFixed(2))
+            : undefined;
+
+        // 非交易时段或接口异常时盘中数据可能为空，不影响日线结论
+        let intradayFlow: Record<string, unknown> | undefined;
+        if (intraday) {
+            try {
+                const minutes = (await fetchEastmoneyFundFlow(symbol, { period: 'intraday' })).points;
+                const latest = minutes[minutes.length - 1];
+                if (latest) {
+                    intradayFlow = {
+                        time: latest.time,
+                        ...toWan(latest),
+                        // 每 30 分钟取一个累计值，观察盘中主力资金的走向
+                        trend: minutes.filter((_, i) => i % 30 === 29 || i === minutes.length - 1).map((point) => ({ time: point.time, main: toWan(point).main })),
+                    };
+                }
+            } catch (err) {
+                intradayFlow = { error: err instanceof Error ? err.message : String(err) };
+            }
+        }
 
         return JSON.stringify({
-            symbol: data.symbol,
-            indicator: 'RSI',
-            period,
-            range,
-            interval,
-            value: Number(rsi.toFixed(2)),
-            signal,
-            points: closes.length,
-            source: 'eastmoney',
+            symbol: daily.symbol,
+            name: daily.name,
+            unit: '万元',
+            window: {
+                from: points[0].time,
+                to: points[points.length - 1].time,
+                days: points.length,
+                netInflow: total,
+                mainInflowDays: inflowDays,
+                mainOutflowDays: outflowDays,
+                priceChangePercent,
+            },
+            bias,
+            daily: points.map((point) => ({ date: point.time, ...toWan(point), mainRatio: point.mainRatio, close: point.close, changePercent: point.changePercent })),
+            intraday: intradayFlow,
+            source: daily.source,
         });
     },
 });
@@ -176,65 +159,112 @@ const financialReportTool = new DynamicStructuredTool({
     },
 });
 
-const tools = [stockPriceTool, financialNewsTool, rsiTool, financialReportTool];
+const tools = [stockPriceTool, financialNewsTool, ...indicatorTools, fundFlowTool, backtestTool, financialReportTool];
+
+export interface QuantAnalysisParams {
+    symbol: string;
+    query: string;
+    model: ResolvedModelSpec;
+}
+
+export interface QuantAnalysisResult {
+    symbol: string;
+    model: string;
+    analysis: string;
+    timestamp: string;
+}
+
+export const quantAnalysisBodySchema = z.object({
+    symbol: requiredString('缺少股票代码 symbol'),
+    query: z.string().trim().optional(),
+    ...modelSelectorShape,
+});
+
+/**
+ * 从请求体解析量化分析参数（HTTP 与 WebSocket 网关共用）
+ * @param {Record<string, any>} raw 请求体
+ * @returns {QuantAnalysisParams} 量化分析参数
+ */
+export function parseQuantAnalysisParams(raw: Record<string, any>): QuantAnalysisParams {
+    const body = parseWithSchema(quantAnalysisBodySchema, raw);
+    const symbol = body.symbol;
+    const rawQuery = body.query || `请分析 ${symbol} 的投资价值，并给出买入/卖出/持有建议。`;
+    const query = rawQuery.includes(symbol)
+        ? rawQuery
+        : `${rawQuery}\n\n股票代码：${symbol}`;
+    const model = resolveBodyModel({ provider: body.provider, model: body.model }, { provider: 'dashscope', model: 'qwen-plus' });
+    return { symbol, query, model };
+}
 
 // --- 2. 构建 Agent ---
-export async function quantAnalysisHandler(ctx: Context): Promise<void> {
-    try {
-        const body = getKoaRequestBody(ctx);
-        const symbol = getRequiredBodyString(body, 'symbol', '缺少股票代码 symbol');
-        const rawQuery = body.query || `请分析 ${symbol} 的投资价值，并给出买入/卖出/持有建议。`;
-        const userQuery = rawQuery.includes(symbol)
-            ? rawQuery
-            : `${rawQuery}\n\n股票代码：${symbol}`;
+export async function runQuantAnalysis(params: QuantAnalysisParams, hooks: RunHooks = {}): Promise<QuantAnalysisResult> {
+    const { symbol, query: userQuery } = params;
 
-        // 1. 初始化模型 (开启搜索能力可选，这里用 Tool 代替)
-        const llm = createDashScopeChatModel({ temperature: 0 });
+    // 1. 初始化模型 (开启搜索能力可选，这里用 Tool 代替)
+    const llm = createChatModel(params.model, { temperature: 0 });
 
-        const systemPrompt = `你是一名资深的量化交易员和金融分析师。
+    const systemPrompt = `你是一名资深的量化交易员和金融分析师。
 你必须基于工具数据完成分析，禁止要求用户再次提供股票代码。
 当前要分析的股票代码是：${symbol}
 分析时必须调用以下工具并引用其结果：
-1) get_stock_price 获取实时价格与涨跌幅
+1) get_stock_price 获取实时价格与涨跌幅（注意报价币种 currency，不同市场不要混用）
 2) get_financial_news 获取最新新闻
-3) calculate_rsi 计算 RSI 指标
-4) read_financial_reports 研读近期财报要点
+3) calculate_rsi 计算 RSI 指标，并结合 calculate_macd、calculate_boll、calculate_kdj、calculate_ma_cross 判断趋势与超买超卖，
+   用 calculate_atr 衡量波动、calculate_obv / calculate_vwap 确认量能（按需选用，不必全部调用）
+4) get_fund_flow 查看近期主力资金（超大单 + 大单）净流入，判断机构是在吸筹（accumulating）还是派发（distributing），并与价格、RSI 走势对照
+5) read_financial_reports 研读近期财报要点
+6) run_backtest 回测与你的判断相对应的规则策略（例如 RSI 低于 30 买入、高于 70 卖出，或均线金叉买入、死叉卖出），用历史收益率、最大回撤与胜率佐证建议
+技术指标与回测工具支持 A 股与港股，get_fund_flow 与 read_financial_reports 暂仅支持 A 股，美股等调用失败时如实说明缺少该项数据即可。
 请严格基于数据说话，不要编造事实。
-如果数据相互矛盾（例如价格上涨但RSI超买），请在分析中指出来。
+如果数据相互矛盾（例如价格上涨但RSI超买、MACD 金叉但 OBV 走弱、股价上涨但主力资金持续净流出），请在分析中指出来。
+回测只代表历史表现，引用时说明区间与费用假设，不要把回测收益当作预期收益。
 最后必须给出一个明确的建议：【买入】、【卖出】或【观望】，并说明理由。`;
 
-        // 2. 创建 Agent（将 prompt 中的系统信息通过 systemPrompt 传入）
-        const agent = createAgent({
-            model: llm,
-            tools,
-            systemPrompt, // 固定系统提示,定义agent的行为和能力
-            name: 'quantAgent',
-            description: '基于工具数据进行量化分析并给出交易建议的 Agent',
-        });
+    // 2. 创建 Agent（将 prompt 中的系统信息通过 systemPrompt 传入）
+    const agent = createAgent({
+        model: llm,
+        tools,
+        systemPrompt, // 固定系统提示,定义agent的行为和能力
+        name: 'quantAgent',
+        description: '基于工具数据进行量化分析并给出交易建议的 Agent',
+    });
 
-        // 3. 执行
-        const result = await agent.invoke({
+    // 3. 执行
+    const result = await agent.invoke(
+        {
             messages: [
                 new SystemMessage(`股票代码：${symbol}`), // 本次请求的系统消息
                 new HumanMessage(userQuery),
             ],
-        });
+        },
+        {
+            callbacks: [new RunHooksCallbackHandler(hooks)],
+            signal: hooks.signal,
+        }
+    );
 
-        const resultMessages = (result as any)?.messages as Array<{ content?: unknown }> | undefined;
-        const lastMessage = resultMessages?.length ? resultMessages[resultMessages.length - 1] : undefined;
-        const analysis = typeof lastMessage?.content === 'string' ? lastMessage.content : JSON.stringify(lastMessage?.content ?? result);
+    const resultMessages = (result as any)?.messages as Array<{ content?: unknown }> | undefined;
+    const lastMessage = resultMessages?.length ? resultMessages[resultMessages.length - 1] : undefined;
+    const analysis = typeof lastMessage?.content === 'string' ? lastMessage.content : JSON.stringify(lastMessage?.content ?? result);
 
-        setKoaJson(ctx, 200, {
-            symbol,
-            analysis,
-            timestamp: new Date().toISOString(),
-        });
+    return {
+        symbol,
+        model: params.model.spec,
+        analysis,
+        timestamp: new Date().toISOString(),
+    };
+}
 
+export async function quantAnalysisHandler(ctx: Context): Promise<void> {
+    try {
+        const body = getKoaRequestBody(ctx);
+        const result = await runQuantAnalysis(parseQuantAnalysisParams(body));
+        setKoaJson(ctx, 200, result);
     } catch (err) {
         setKoaError(ctx, err, '量化分析失败');
     }
 }
 
-export function registerQuantRoutes(router: Router): void {
+export function registerQuantStrategyRoutes(router: Router): void {
     router.post('/quant/strategy', quantAnalysisHandler);
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import Router from '@koa/router';
+import { Context } from 'koa';
+
+import { z } from 'zod';
+
+import { setKoaError, setKoaJson } from '../../utils/dashscope';
+import { getApiKeyStore } from '../../utils/apiKeys';
+import { getPriceTable, getUsageLedger } from '../../utils/usage';
+import { parseKoaQuery } from '../../utils/validation';
+
+const dayField = z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { error: '日期格式应为 YYYY-MM-DD' })
+    .optional();
+
+const usageQuerySchema = z
+    .object({
+        from: dayField,
+        to: dayField,
+        apiKey: z.string().trim().min(1).optional(),
+        sessionId: z.string().trim().min(1).optional(),
+        route: z.string().trim().min(1).optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, { error: 'from 不能晚于 to', path: ['from'] });
+
+/**
+ * 用量报表
+ * GET /usage?from=2025-01-01&to=2025-01-31&apiKey=&sessionId=&route=
+ * 按路由 / 模型 / 日期 / Key 汇总 token 用量与费用（日期为服务器本地日期，闭区间）
+ * 开启鉴权时，非管理员 Key 只能查看自己的用量
+ */
+export async function usageReportHandler(ctx: Context): Promise<void> {
+    try {
+        const filter = parseKoaQuery(ctx, usageQuerySchema);
+        if (getApiKeyStore().enabled && !ctx.state.apiKeyAdmin) {
+            if (filter.apiKey && filter.apiKey !== ctx.state.apiKey) {
+                throw Object.assign(new Error('只有管理员 Key 可以查看其它 Key 的用量'), { status: 403 });
+            }
+            filter.apiKey = ctx.state.apiKey;
+        }
+        setKoaJson(ctx, 200, getUsageLedger().report(filter));
+    } catch (err) {
+        setKoaError(ctx, err, '获取用量报表失败');
+    }
+}
+
+/**
+ * 当前价格表
+ * GET /usage/prices
+ * 单价单位为「货币 / 百万 token」
+ */
+export async function usagePricesHandler(ctx: Context): Promise<void> {
+    try {
+        setKoaJson(ctx, 200, getPriceTable().list());
+    } catch (err) {
+        setKoaError(ctx, err, '获取价格表失败');
+    }
+}
+
+/**
+ * 注册用量路由
+ * @param {Router} router Koa路由器实例
+ * @returns {void}
+ */
+export function registerUsageRoutes(router: Router): void {
+    router.get('/usage', usageReportHandler);
+    router.get('/usage/prices', usagePricesHandler);
+}
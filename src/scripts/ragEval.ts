@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import { ragEvalConfigSchema, ragEvalDatasetSchema, runRagEval, type RagEvalRun } from '../utils/ragEval';
+import { parseWithSchema } from '../utils/validation';
+
+/**
+ * 知识库离线评测命令
+ * npm run rag:eval -- --dataset config/rag-eval.example.json --offline
+ *
+ * 参数：
+ *   --dataset <file>       评测数据集（JSON，格式见 README）
+ *   --offline              离线模式：本地哈希向量（local:hash-v1）+ 抽取式回答 + 规则评分，不调用任何模型接口
+ *   --compare <runId>      对比的基线评测，默认 latest（同一数据集的上一次评测），none 不对比
+ *   --top-k / --mode / --chunk-size / --chunk-overlap / --rerank / --model / --embedding-model / --judge-model  覆盖评测参数
+ *   --json                 输出完整 JSON 结果
+ *   --fail-on-regression   存在退化的问题时以退出码 1 结束（用于 CI）
+ */
+const { values } = parseArgs({
+    options: {
+        dataset: { type: 'string' },
+        offline: { type: 'boolean', default: false },
+        compare: { type: 'string', default: 'latest' },
+        'top-k': { type: 'string' },
+        mode: { type: 'string' },
+        'chunk-size': { type: 'string' },
+        'chunk-overlap': { type: 'string' },
+        rerank: { type: 'string' },
+        model: { type: 'string' },
+        'embedding-model': { type: 'string' },
+        'judge-model': { type: 'string' },
+        json: { type: 'boolean', default: false },
+        'fail-on-regression': { type: 'boolean', default: false },
+    },
+});
+
+function formatScore(value: number | null): string {
+    return value === null ? '-' : value.toFixed(3);
+}
+
+function formatDelta(value: number | null): string {
+    if (value === null) return '';
+    if (Math.abs(value) < 1e-9) return ' (±0)';
+    return ` (${value > 0 ? '+' : ''}${value.toFixed(3)})`;
+}
+
+function printReport(run: RagEvalRun): void {
+    const delta = run.comparison?.summaryDelta;
+    console.log(`评测 ${run.id}（数据集 ${run.dataset}，${run.summary.questions} 个问题，topK=${run.config.topK}）`);
+    console.log(`  recall@k      ${formatScore(run.summary.recallAtK)}${formatDelta(delta?.recallAtK ?? null)}`);
+    console.log(`  MRR           ${formatScore(run.summary.mrr)}${formatDelta(delta?.mrr ?? null)}`);
+    console.log(`  faithfulness  ${formatScore(run.summary.faithfulness)}${formatDelta(delta?.faithfulness ?? null)}`);
+    console.log(`  relevance     ${formatScore(run.summary.relevance)}${formatDelta(delta?.relevance ?? null)}`);
+
+    const missed = run.results.filter((result) => result.recall < 1);
+    if (missed.length > 0) {
+        console.log('\n未完全召回：');
+        for (const result of missed) {
+            console.log(`  ${result.id}  期望 ${result.expectedDocs.join(', ')}，召回 ${result.retrievedDocs.join(', ') || '（无）'}`);
+        }
+    }
+
+    if (!run.comparison) {
+        console.log('\n（没有可对比的历史评测）');
+        return;
+    }
+    console.log(`\n对比基线 ${run.comparison.baselineRunId}：`);
+    const changes = new Map(run.comparison.changedQuestions.map((question) => [question.id, question.changes]));
+    for (const [label, ids] of [
+        ['退化', run.comparison.regressions],
+        ['改善', run.comparison.improvements],
+    ] as const) {
+        if (ids.length === 0) continue;
+        console.log(`  ${label}：`);
+        for (const id of ids) {
+            const detail = Object.entries(changes.get(id) ?? {})
+                .map(([metric, change]) => `${metric} ${formatScore(change!.before)} → ${formatScore(change!.after)}`)
+                .join('，');
+            console.log(`    ${id}  ${detail}`);
+        }
+    }
+    if (run.comparison.regressions.length === 0 && run.comparison.improvements.length === 0) {
+        console.log('  各题指标无明显变化');
+    }
+    if (run.comparison.addedQuestions.length > 0) console.log(`  新增问题：${run.comparison.addedQuestions.join(', ')}`);
+    if (run.comparison.removedQuestions.length > 0) console.log(`  移除问题：${run.comparison.removedQuestions.join(', ')}`);
+}
+
+async function main(): Promise<void> {
+    if (!values.dataset) {
+        throw new Error('缺少 --dataset 参数');
+    }
+    const dataset = parseWithSchema(ragEvalDatasetSchema, JSON.parse(fs.readFileSync(values.dataset, 'utf-8')));
+    const config = parseWithSchema(ragEvalConfigSchema, {
+        offline: values.offline,
+        topK: values['top-k'],
+        mode: values.mode,
+        chunkSize: values['chunk-size'],
+        chunkOverlap: values['chunk-overlap'],
+        rerank: values.rerank,
+        model: values.model,
+        embeddingModel: values['embedding-model'],
+        judgeModel: values['judge-model'],
+    });
+
+    const run = await runRagEval(dataset, config, {
+        compareTo: values.compare === 'none' ? undefined : values.compare,
+        onProgress: (done, total) => {
+            if (!values.json) process.stderr.write(`\r评测中 ${done}/${total}`);
+        },
+    });
+    if (!values.json) process.stderr.write('\n');
+
+    if (values.json) console.log(JSON.stringify(run, null, 2));
+    else printReport(run);
+    if (values['fail-on-regression'] && (run.comparison?.regressions.length ?? 0) > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+});
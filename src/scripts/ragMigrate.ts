@@ -0,0 +1,61 @@
+import { parseArgs } from 'node:util';
+
+import { getDefaultEmbeddingModelId, listEmbeddingModels } from '../utils/embeddings';
+import { getKnowledgeBase, listCollections, reembedCollection } from '../utils/ragStore';
+
+/**
+ * 知识库索引迁移命令：用新的向量模型重建集合索引
+ * npm run rag:migrate -- --collection hr --model dashscope:text-embedding-v3
+ *
+ * 参数：
+ *   --collection <name>    要重建的集合（可重复），--all 表示全部集合
+ *   --model <id>           新的向量模型，默认为 RAG_EMBEDDING_MODEL（未配置时为 dashscope:text-embedding-v1）
+ *   --status               只列出各集合的索引状态，不做迁移
+ *
+ * 服务运行时请改用 POST /dashscope/rag/collections/:name/reembed，避免两个进程同时写同一张表
+ */
+const { values } = parseArgs({
+    options: {
+        collection: { type: 'string', multiple: true },
+        all: { type: 'boolean', default: false },
+        model: { type: 'string' },
+        status: { type: 'boolean', default: false },
+    },
+});
+
+async function printStatus(): Promise<void> {
+    for (const config of listCollections()) {
+        const knowledgeBase = getKnowledgeBase(config.name);
+        const [stats, index] = await Promise.all([knowledgeBase.stats(), knowledgeBase.indexStatus()]);
+        const state = index.ok ? '正常' : `不一致：${index.error}`;
+        console.log(`${config.name}  ${config.embeddingModel}（${config.dimensions} 维）  ${stats.chunks} 个片段  ${state}`);
+    }
+    console.log(`\n可用的向量模型：${listEmbeddingModels().map((info) => `${info.id}（${info.dimensions} 维）`).join('，')}`);
+}
+
+async function main(): Promise<void> {
+    if (values.status) {
+        await printStatus();
+        return;
+    }
+    const collections = values.all ? listCollections().map((config) => config.name) : (values.collection ?? []);
+    if (collections.length === 0) {
+        throw new Error('请用 --collection 指定集合，或用 --all 迁移全部集合（--status 查看索引状态）');
+    }
+    const model = values.model ?? getDefaultEmbeddingModelId();
+    for (const name of collections) {
+        const result = await reembedCollection(name, model, (progress) => {
+            process.stderr.write(`\r${name}：${progress.embeddedChunks + progress.reusedChunks}/${progress.totalChunks}`);
+        });
+        process.stderr.write('\n');
+        console.log(
+            `${name}：${result.previousEmbeddingModel} → ${result.embeddingModel}（${result.dimensions} 维），` +
+                `${result.chunks} 个片段，向量化 ${result.embeddedChunks} 条，新表 ${result.table}`
+        );
+    }
+}
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+});
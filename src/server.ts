@@ -1,6 +1,7 @@
 import Koa from 'koa';
 import { registerMiddlewares } from './middleware';
 import { registerRoutes } from './routes';
+import { registerWebSocketGateway, wsGatewayPath } from './gateway';
 import { patchArrayToReversed } from './utils/index';
 patchArrayToReversed();
 /**
@@ -26,12 +27,19 @@ const port = Number(process.env.PORT ?? 3000);
 function startServer(listenPort: number): void {
   const server = app.listen(listenPort, () => {
     console.log(`Koa TS server listening on http://localhost:${listenPort}`);
+    console.log(`WebSocket gateway listening on ws://localhost:${listenPort}${wsGatewayPath}`);
   });
+  // WebSocket 网关与 HTTP 共用端口
+  const wss = registerWebSocketGateway(server);
 
   // 优雅停机逻辑
   const gracefulShutdown = (signal: string) => {
     console.log(`\nReceived ${signal}. Closing server...`);
     
+    // 断开所有 WebSocket 长连接，否则 server.close 会一直等待
+    for (const client of wss.clients) client.terminate();
+    wss.close();
+
     // 停止接收新请求
     server.close(() => {
       console.log('Http server closed.');
@@ -0,0 +1,363 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { getUsageLedger } from './usage';
+
+/**
+ * 路由分组：按路径第一段划分，/v1 记为 openai
+ * usage（用量报表）对所有 Key 开放，非管理员 Key 只能查看自己的用量
+ */
+export const routeGroups = ['dashscope', 'mistral', 'metaso', 'quant', 'openai', 'usage'] as const;
+
+export type RouteGroup = (typeof routeGroups)[number];
+
+/**
+ * 配置文件中单个 Key 的写法
+ * key 与 keyHash（"sha256:<hex>"）二选一，推荐只在配置中保存哈希
+ */
+export interface ApiKeyConfig {
+    name: string;
+    key?: string;
+    keyHash?: string;
+    /** 允许访问的路由分组，缺省或包含 "*" 表示全部 */
+    routes?: Array<RouteGroup | '*'>;
+    /** 每分钟请求数（令牌桶补充速率） */
+    requestsPerMinute?: number;
+    /** 令牌桶容量（允许的突发请求数），缺省等于 requestsPerMinute */
+    burst?: number;
+    /** 每日模型 token 上限，0 表示不限 */
+    dailyTokens?: number;
+    /** 管理员 Key 可查看所有 Key 的用量 */
+    admin?: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * 解析后的 Key
+ */
+export interface ApiKeyRecord {
+    name: string;
+    keyHash: string;
+    routes: Array<RouteGroup | '*'>;
+    requestsPerMinute: number;
+    burst: number;
+    dailyTokens: number;
+    admin: boolean;
+}
+
+/**
+ * 限流 / 配额检查结果
+ */
+export type LimitResult =
+    | { ok: true; remaining: number; release: () => void }
+    | { ok: false; reason: 'rate' | 'quota'; message: string; retryAfterSeconds: number };
+
+/**
+ * 读取环境变量（去除两侧引号与空格）
+ * @param {string} name 变量名
+ * @returns {string | undefined} 变量值
+ */
+function readEnv(name: string): string | undefined {
+    const value = (process.env[name] ?? '').trim().replace(/^['"]|['"]$/g, '');
+    return value || undefined;
+}
+
+function readEnvNumber(name: string, fallback: number): number {
+    const value = Number(readEnv(name));
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 计算 Key 的哈希（配置与比对都只用哈希，避免明文 Key 常驻内存结构）
+ * @param {string} key 明文 Key
+ * @returns {string} "sha256:<hex>"
+ */
+export function hashApiKey(key: string): string {
+    return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * 根据请求路径得到路由分组（不属于任何分组的路径返回 undefined）
+ * 路由匹配不区分大小写（/QUANT/... 同样命中 /quant/...），分组也按小写判断，避免换个大小写绕过鉴权
+ * @param {string} requestPath 请求路径
+ * @returns {RouteGroup | undefined} 路由分组
+ */
+export function getRouteGroup(requestPath: string): RouteGroup | undefined {
+    const first = requestPath.split('/').filter(Boolean)[0]?.toLowerCase();
+    if (first === 'v1') return 'openai';
+    return (routeGroups as readonly string[]).includes(first) ? (first as RouteGroup) : undefined;
+}
+
+/**
+ * Key 是否允许访问某个路由分组
+ * @param {ApiKeyRecord} record Key
+ * @param {RouteGroup | undefined} group 路由分组
+ * @returns {boolean} 是否允许
+ */
+export function isRouteGroupAllowed(record: ApiKeyRecord, group: RouteGroup | undefined): boolean {
+    if (record.routes.includes('*') || group === 'usage') return true;
+    return group !== undefined && record.routes.includes(group);
+}
+
+/**
+ * 把配置项规范化为 ApiKeyRecord（配置有误时抛错，启动 / 热加载时即可发现）
+ * @param {ApiKeyConfig} config 配置项
+ * @param {string} source 配置来源（用于错误提示）
+ * @returns {ApiKeyRecord | undefined} 规范化后的 Key，disabled 时返回 undefined
+ */
+function toApiKeyRecord(config: ApiKeyConfig, source: string): ApiKeyRecord | undefined {
+    if (!config || typeof config.name !== 'string' || !config.name.trim()) {
+        throw new Error(`${source}: 每个 Key 都需要 name`);
+    }
+    if (config.disabled) return undefined;
+
+    const keyHash = config.keyHash?.trim() || (config.key?.trim() ? hashApiKey(config.key.trim()) : '');
+    if (!/^sha256:[0-9a-f]{64}$/.test(keyHash)) {
+        throw new Error(`${source}: Key ${config.name} 需要 key 或 keyHash（sha256:<hex>）`);
+    }
+    const routes = config.routes?.length ? config.routes : ['*' as const];
+    const unknown = routes.filter((r) => r !== '*' && !(routeGroups as readonly string[]).includes(r));
+    if (unknown.length) {
+        throw new Error(`${source}: Key ${config.name} 的 routes 包含未知分组 ${unknown.join(', ')}（可选 ${routeGroups.join(' | ')} | *）`);
+    }
+    const requestsPerMinute = config.requestsPerMinute ?? readEnvNumber('API_KEY_DEFAULT_RPM', 60);
+    return {
+        name: config.name.trim(),
+        keyHash,
+        routes,
+        requestsPerMinute,
+        burst: config.burst ?? requestsPerMinute,
+        dailyTokens: config.dailyTokens ?? readEnvNumber('API_KEY_DEFAULT_DAILY_TOKENS', 0),
+        admin: config.admin === true,
+    };
+}
+
+/**
+ * API Key 存储：配置文件（API_KEYS_FILE，修改后自动重新加载）+ 环境变量 API_KEYS
+ */
+export class ApiKeyStore {
+    private readonly filePath: string;
+    private fileMtimeMs = -1;
+    private lastCheckedAt = 0;
+    private keys: Map<string, ApiKeyRecord> = new Map();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.reload();
+    }
+
+    /**
+     * 是否配置了任何 Key（一个都没有时鉴权关闭，便于本地开发）
+     * @returns {boolean} 是否启用鉴权
+     */
+    get enabled(): boolean {
+        this.reloadIfChanged();
+        return this.keys.size > 0;
+    }
+
+    /**
+     * 按明文 Key 查找
+     * @param {string} key 明文 Key
+     * @returns {ApiKeyRecord | undefined} Key 配置
+     */
+    find(key: string): ApiKeyRecord | undefined {
+        this.reloadIfChanged();
+        return this.keys.get(hashApiKey(key));
+    }
+
+    /**
+     * 配置文件变化时重新加载（最多每 5 秒检查一次 mtime）；新配置有误时保留旧配置
+     * @returns {void}
+     */
+    private reloadIfChanged(): void {
+        const now = Date.now();
+        if (now - this.lastCheckedAt < 5_000) return;
+        this.lastCheckedAt = now;
+        const mtimeMs = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : -1;
+        if (mtimeMs === this.fileMtimeMs) return;
+        try {
+            this.reload();
+        } catch (err) {
+            console.error('API Key 配置重新加载失败，继续使用旧配置:', (err as Error).message);
+        }
+    }
+
+    private reload(): void {
+        const configs: Array<{ config: ApiKeyConfig; source: string }> = [];
+
+        if (fs.existsSync(this.filePath)) {
+            this.fileMtimeMs = fs.statSync(this.filePath).mtimeMs;
+            const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+            const list: unknown = Array.isArray(parsed) ? parsed : parsed?.keys;
+            if (!Array.isArray(list)) {
+                throw new Error(`${this.filePath}: 需要 { "keys": [...] } 或数组`);
+            }
+            list.forEach((config) => configs.push({ config, source: this.filePath }));
+        } else {
+            this.fileMtimeMs = -1;
+        }
+
+        // API_KEYS=key1,name2:key2 —— 适合容器环境注入，全部路由、默认限额
+        (readEnv('API_KEYS') ?? '').split(',').map((s) => s.trim()).filter(Boolean).forEach((entry, i) => {
+            const colon = entry.indexOf(':');
+            const [name, key] = colon > 0 ? [entry.slice(0, colon), entry.slice(colon + 1)] : [`env-${i + 1}`, entry];
+            configs.push({ config: { name, key }, source: 'API_KEYS' });
+        });
+
+        const keys: Map<string, ApiKeyRecord> = new Map();
+        for (const { config, source } of configs) {
+            const record = toApiKeyRecord(config, source);
+            if (record) keys.set(record.keyHash, record);
+        }
+        this.keys = keys;
+    }
+}
+
+/**
+ * 令牌桶：容量 capacity，每秒补充 refillPerSecond 个令牌
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+        this.tokens = capacity;
+        this.updatedAt = Date.now();
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+        this.updatedAt = now;
+    }
+
+    /**
+     * 尝试取走一个令牌
+     * @returns {{ ok: boolean; remaining: number; retryAfterSeconds: number }} 结果；失败时给出需要等待的秒数
+     */
+    take(): { ok: boolean; remaining: number; retryAfterSeconds: number } {
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return { ok: true, remaining: Math.floor(this.tokens), retryAfterSeconds: 0 };
+        }
+        const waitSeconds = this.refillPerSecond > 0 ? (1 - this.tokens) / this.refillPerSecond : Infinity;
+        return { ok: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(waitSeconds)) };
+    }
+}
+
+function secondsUntilNextDay(): number {
+    const now = new Date();
+    const next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    return Math.max(1, Math.ceil((next.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * 按 Key 维护请求令牌桶；当日 token 用量取自用量账本
+ * 通过检查的请求先预占一部分配额（API_KEY_QUOTA_RESERVE_TOKENS，默认 2000），请求结束、用量入账后释放，
+ * 避免同时到达的请求都看到"尚未超额"而一起放行
+ */
+export class ApiKeyLimiter {
+    private readonly buckets: Map<string, { bucket: TokenBucket; requestsPerMinute: number; burst: number }> = new Map();
+    private readonly reservedTokens: Map<string, number> = new Map();
+
+    /**
+     * 检查并消耗一次请求额度（先查每日 token 配额，再取令牌），通过时预占配额
+     * @param {ApiKeyRecord} record Key
+     * @returns {LimitResult} 检查结果；通过时请求结束后须调用 release 归还预占的配额
+     */
+    checkRequest(record: ApiKeyRecord): LimitResult {
+        const used = getUsageLedger().getTokensUsedToday(record.name) + (this.reservedTokens.get(record.name) ?? 0);
+        if (record.dailyTokens > 0 && used >= record.dailyTokens) {
+            return {
+                ok: false,
+                reason: 'quota',
+                message: `API Key ${record.name} 今日 token 配额（${record.dailyTokens}）已用完`,
+                retryAfterSeconds: secondsUntilNextDay(),
+            };
+        }
+
+        let remaining = Infinity;
+        if (record.requestsPerMinute > 0) {
+            // 配置热更新后限额变化时重建令牌桶
+            let entry = this.buckets.get(record.name);
+            if (!entry || entry.requestsPerMinute !== record.requestsPerMinute || entry.burst !== record.burst) {
+                entry = {
+                    bucket: new TokenBucket(Math.max(1, record.burst), record.requestsPerMinute / 60),
+                    requestsPerMinute: record.requestsPerMinute,
+                    burst: record.burst,
+                };
+                this.buckets.set(record.name, entry);
+            }
+            const result = entry.bucket.take();
+            if (!result.ok) {
+                return {
+                    ok: false,
+                    reason: 'rate',
+                    message: `请求过于频繁：API Key ${record.name} 限制为每分钟 ${record.requestsPerMinute} 次`,
+                    retryAfterSeconds: result.retryAfterSeconds,
+                };
+            }
+            remaining = result.remaining;
+        }
+
+        // 检查与预占在同一次同步调用中完成，中间不会插入其它请求
+        const reserved = record.dailyTokens > 0 ? Math.min(readEnvNumber('API_KEY_QUOTA_RESERVE_TOKENS', 2000), record.dailyTokens - used) : 0;
+        if (reserved <= 0) return { ok: true, remaining, release: () => undefined };
+        this.reservedTokens.set(record.name, (this.reservedTokens.get(record.name) ?? 0) + reserved);
+        let released = false;
+        return {
+            ok: true,
+            remaining,
+            release: () => {
+                if (released) return;
+                released = true;
+                const left = (this.reservedTokens.get(record.name) ?? 0) - reserved;
+                if (left > 0) this.reservedTokens.set(record.name, left);
+                else this.reservedTokens.delete(record.name);
+            },
+        };
+    }
+}
+
+let apiKeyStore: ApiKeyStore | undefined;
+let apiKeyLimiter: ApiKeyLimiter | undefined;
+
+/**
+ * 获取全局 API Key 存储（配置文件默认 config/api-keys.json）
+ * @returns {ApiKeyStore} Key 存储
+ */
+export function getApiKeyStore(): ApiKeyStore {
+    if (!apiKeyStore) {
+        apiKeyStore = new ApiKeyStore(path.resolve(readEnv('API_KEYS_FILE') ?? path.join('config', 'api-keys.json')));
+    }
+    return apiKeyStore;
+}
+
+/**
+ * 获取全局限流器（HTTP 与 WebSocket 网关共用同一份额度）
+ * @returns {ApiKeyLimiter} 限流器
+ */
+export function getApiKeyLimiter(): ApiKeyLimiter {
+    if (!apiKeyLimiter) apiKeyLimiter = new ApiKeyLimiter();
+    return apiKeyLimiter;
+}
+
+/**
+ * 从请求头 / 查询参数中提取客户端 Key
+ * 支持 Authorization: Bearer <key>（OpenAI SDK 默认写法）与 X-API-Key；浏览器 WebSocket 无法设置请求头，可用 ?api_key=
+ * @param {Record<string, string | string[] | undefined>} headers 请求头
+ * @param {string | undefined} [queryKey] 查询参数中的 Key
+ * @returns {string | undefined} 明文 Key
+ */
+export function extractApiKey(headers: Record<string, string | string[] | undefined>, queryKey?: string): string | undefined {
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string') {
+        const match = authorization.match(/^Bearer\s+(.+)$/i);
+        if (match) return match[1].trim();
+    }
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.trim()) return header.trim();
+    return queryKey?.trim() || undefined;
+}
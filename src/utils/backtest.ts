@@ -0,0 +1,434 @@
+import { z } from 'zod';
+
+import { computeIndicator, indicatorNames, type IndicatorBar, type Series } from './indicators';
+import { fetchKlineSeries, klineQueryShape, type KlineInterval, type KlineSeries } from './klines';
+import type { MarketId } from './symbols';
+
+// --- 策略定义 ---
+
+const priceFields = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+/**
+ * 操作数：数字，或序列引用——价格字段（close 等）、"<指标id>.<序列名>"（如 macd.dif），单序列指标可省略序列名（如 rsi）
+ */
+const operandSchema = z.union([z.number(), z.string().trim().min(1)]);
+
+export const backtestConditionSchema = z.object({
+    left: operandSchema,
+    op: z.enum(['>', '<', '>=', '<=', 'crosses_above', 'crosses_below']),
+    right: operandSchema,
+});
+
+/**
+ * 规则：单个条件，或条件组（all 全部满足 / any 任一满足）
+ */
+export const backtestRuleSchema = z.union([
+    backtestConditionSchema,
+    z.object({ all: z.array(backtestConditionSchema).min(1).max(10) }),
+    z.object({ any: z.array(backtestConditionSchema).min(1).max(10) }),
+]);
+
+export const backtestStrategySchema = z.object({
+    /** 规则中引用的指标；引用未声明的指标名（如 rsi）时按默认参数计算 */
+    indicators: z
+        .array(
+            z.object({
+                id: z.string().trim().regex(/^\w+$/, 'id 只能包含字母、数字与下划线').optional(),
+                name: z.enum(indicatorNames),
+                params: z.record(z.string(), z.unknown()).default({}),
+            })
+        )
+        .max(10)
+        .default([]),
+    entry: backtestRuleSchema,
+    exit: backtestRuleSchema,
+    /** 止损 / 止盈（相对买入价的百分比，按收盘价触发） */
+    stopLossPercent: z.number().positive().max(100).optional(),
+    takeProfitPercent: z.number().positive().optional(),
+    /** 仓位：percent 为买入时权益的百分比，fixed 为固定金额 */
+    sizing: z
+        .object({ type: z.enum(['percent', 'fixed']).default('percent'), value: z.number().positive().default(100) })
+        .prefault({}),
+    initialCapital: z.number().positive().default(100000),
+    /** 佣金费率（买卖双边） */
+    feeRate: z.number().min(0).max(0.05).default(0.0003),
+    /** 单笔最低佣金 */
+    minFee: z.number().min(0).default(0),
+    /** 印花税率（仅卖出），缺省 A 股 0.05%、港股 0.1% */
+    stampDutyRate: z.number().min(0).max(0.05).optional(),
+    /** 滑点（成交价相对开盘价的不利偏移比例） */
+    slippage: z.number().min(0).max(0.05).default(0.001),
+    /** 每手股数，缺省 A 股 / 港股 100 */
+    lotSize: z.number().int().positive().optional(),
+    /** T+1：买入当日不能卖出，缺省 A 股开启 */
+    tPlusOne: z.boolean().optional(),
+    /** 年化无风险利率（夏普比率使用） */
+    riskFreeRate: z.number().min(0).max(0.2).default(0),
+});
+
+export type BacktestStrategy = z.infer<typeof backtestStrategySchema>;
+export type BacktestCondition = z.infer<typeof backtestConditionSchema>;
+export type BacktestRule = z.infer<typeof backtestRuleSchema>;
+
+export interface BacktestTrade {
+    entryDate: string;
+    entryPrice: number;
+    exitDate: string;
+    exitPrice: number;
+    shares: number;
+    /** 买卖佣金与印花税合计 */
+    fees: number;
+    /** 净盈亏（已扣费用） */
+    pnl: number;
+    /** 净收益率（%，相对买入成本） */
+    returnPercent: number;
+    holdingBars: number;
+    exitReason: 'signal' | 'stop_loss' | 'take_profit' | 'end_of_data';
+}
+
+export interface BacktestEquityPoint {
+    date: string;
+    equity: number;
+    cash: number;
+    shares: number;
+    /** 相对历史最高权益的回撤（%，≤ 0） */
+    drawdown: number;
+}
+
+export interface BacktestMetrics {
+    initialCapital: number;
+    finalEquity: number;
+    /** 总收益率（%） */
+    totalReturn: number;
+    /** 年化复合收益率（%），区间不足 30 天时为 null（短区间年化失真） */
+    cagr: number | null;
+    /** 年化夏普比率，收益无波动时为 null */
+    sharpe: number | null;
+    /** 最大回撤（%，≤ 0）及其区间 */
+    maxDrawdown: number;
+    maxDrawdownStart?: string;
+    maxDrawdownEnd?: string;
+    trades: number;
+    /** 胜率（%），没有交易时为 null */
+    winRate: number | null;
+    /** 盈亏比：总盈利 / 总亏损，没有亏损交易时为 null */
+    profitFactor: number | null;
+    /** 持仓 K 线占比（%） */
+    exposure: number;
+    totalFees: number;
+    /** 同期买入持有收益率（%） */
+    buyAndHoldReturn: number;
+}
+
+export interface BacktestResult {
+    metrics: BacktestMetrics;
+    trades: BacktestTrade[];
+    equityCurve: BacktestEquityPoint[];
+    /** 实际使用的交易参数（含按市场推断的缺省值） */
+    settings: { lotSize: number; tPlusOne: boolean; stampDutyRate: number; feeRate: number; minFee: number; slippage: number };
+}
+
+// --- 规则求值 ---
+
+type Operand = Series | number;
+
+function hasOwn(target: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+/**
+ * 计算策略引用的全部指标，返回按引用名取序列的函数
+ */
+function createResolver(bars: IndicatorBar[], strategy: BacktestStrategy): (operand: string | number) => Operand {
+    const outputs = new Map<string, Record<string, Series>>();
+    for (const { id, name, params } of strategy.indicators) {
+        const key = id ?? name;
+        if (outputs.has(key)) {
+            throw Object.assign(new Error(`指标 id 重复: ${key}（同一指标使用不同参数时请用 id 区分）`), { status: 400 });
+        }
+        outputs.set(key, computeIndicator(bars, name, params).series);
+    }
+    const fields = Object.fromEntries(priceFields.map((field) => [field, bars.map((bar) => bar[field])])) as Record<string, Series>;
+
+    return (operand) => {
+        if (typeof operand === 'number') return operand;
+        // 只认自有属性：constructor、toString 等继承成员不是可引用的序列
+        if (hasOwn(fields, operand)) return fields[operand];
+        const [id, key] = operand.split('.', 2);
+        if (!outputs.has(id) && (indicatorNames as string[]).includes(id)) {
+            outputs.set(id, computeIndicator(bars, id).series);
+        }
+        const series = outputs.get(id);
+        if (!series) {
+            throw Object.assign(
+                new Error(`无法识别的引用: ${operand}（可用：${[...priceFields, ...outputs.keys()].join(', ')}，或指标名 ${indicatorNames.join(', ')}）`),
+                { status: 400 }
+            );
+        }
+        const keys = Object.keys(series);
+        const resolvedKey = key ?? (keys.length === 1 ? keys[0] : undefined);
+        if (!resolvedKey || !hasOwn(series, resolvedKey)) {
+            throw Object.assign(new Error(`请指定 ${id} 的序列：${keys.map((name) => `${id}.${name}`).join(', ')}`), { status: 400 });
+        }
+        return series[resolvedKey];
+    };
+}
+
+function valueAt(operand: Operand, index: number): number | null {
+    if (typeof operand === 'number') return operand;
+    return index >= 0 ? operand[index] ?? null : null;
+}
+
+function evaluateCondition(condition: { left: Operand; op: BacktestCondition['op']; right: Operand }, index: number): boolean {
+    const [left, right] = [valueAt(condition.left, index), valueAt(condition.right, index)];
+    if (left === null || right === null) return false;
+    switch (condition.op) {
+        case '>':
+            return left > right;
+        case '<':
+            return left < right;
+        case '>=':
+            return left >= right;
+        case '<=':
+            return left <= right;
+        default: {
+            const [previousLeft, previousRight] = [valueAt(condition.left, index - 1), valueAt(condition.right, index - 1)];
+            if (previousLeft === null || previousRight === null) return false;
+            return condition.op === 'crosses_above'
+                ? previousLeft <= previousRight && left > right
+                : previousLeft >= previousRight && left < right;
+        }
+    }
+}
+
+/**
+ * 把规则编译为按 K 线序号求值的函数（指标序列只解析一次）
+ */
+function compileRule(rule: BacktestRule, resolve: (operand: string | number) => Operand): (index: number) => boolean {
+    const compile = (condition: BacktestCondition) => {
+        const resolved = { left: resolve(condition.left), op: condition.op, right: resolve(condition.right) };
+        return (index: number) => evaluateCondition(resolved, index);
+    };
+    if ('all' in rule) {
+        const conditions = rule.all.map(compile);
+        return (index) => conditions.every((condition) => condition(index));
+    }
+    if ('any' in rule) {
+        const conditions = rule.any.map(compile);
+        return (index) => conditions.some((condition) => condition(index));
+    }
+    return compile(rule);
+}
+
+// --- 撮合与统计 ---
+
+/** 每个交易日的 K 线根数（按 A 股 4 小时交易时段估算，用于年化夏普比率） */
+const barsPerDay: Record<KlineInterval, number> = { '1d': 1, '1h': 4, '15m': 16, '5m': 48 };
+const tradingDaysPerYear = 252;
+
+function round(value: number, digits = 2): number {
+    return Number(value.toFixed(digits));
+}
+
+function tradingDay(date: string): string {
+    return date.slice(0, 10);
+}
+
+/**
+ * 运行回测（只做多）：信号按收盘价计算，下一根 K 线开盘价成交（含滑点），避免用到未来数据；
+ * 最后一根 K 线仍持仓时按收盘价平仓
+ * @param {IndicatorBar[]} bars K 线（按时间升序）
+ * @param {BacktestStrategy} strategy 策略
+ * @param {{ market: MarketId; interval: KlineInterval }} context 市场（决定 T+1、每手股数、印花税缺省值）与 K 线周期
+ * @returns {BacktestResult} 回测结果
+ */
+export function runBacktest(bars: IndicatorBar[], strategy: BacktestStrategy, context: { market: MarketId; interval: KlineInterval }): BacktestResult {
+    if (bars.length < 2) {
+        throw Object.assign(new Error(`数据不足，无法回测：当前 ${bars.length} 根 K 线`), { status: 400 });
+    }
+    const settings = {
+        lotSize: strategy.lotSize ?? (context.market === 'US' ? 1 : 100),
+        tPlusOne: strategy.tPlusOne ?? context.market === 'CN',
+        stampDutyRate: strategy.stampDutyRate ?? (context.market === 'CN' ? 0.0005 : context.market === 'HK' ? 0.001 : 0),
+        feeRate: strategy.feeRate,
+        minFee: strategy.minFee,
+        slippage: strategy.slippage,
+    };
+    const resolve = createResolver(bars, strategy);
+    const entry = compileRule(strategy.entry, resolve);
+    const exit = compileRule(strategy.exit, resolve);
+    const commission = (amount: number) => Math.max(amount * settings.feeRate, settings.minFee);
+
+    let cash = strategy.initialCapital;
+    let position: { shares: number; entryPrice: number; entryDate: string; entryIndex: number; fees: number } | null = null;
+    let pending: { side: 'buy' } | { side: 'sell'; reason: BacktestTrade['exitReason'] } | null = null;
+    const trades: BacktestTrade[] = [];
+    const equityCurve: BacktestEquityPoint[] = [];
+    let peak = strategy.initialCapital;
+    let barsInPosition = 0;
+
+    const sell = (index: number, basePrice: number, reason: BacktestTrade['exitReason']) => {
+        const open = position!;
+        const price = basePrice * (1 - settings.slippage);
+        const amount = open.shares * price;
+        const fee = commission(amount) + amount * settings.stampDutyRate;
+        cash += amount - fee;
+        const cost = open.shares * open.entryPrice + open.fees;
+        const pnl = amount - fee - cost;
+        trades.push({
+            entryDate: open.entryDate,
+            entryPrice: round(open.entryPrice, 4),
+            exitDate: bars[index].date,
+            exitPrice: round(price, 4),
+            shares: open.shares,
+            fees: round(open.fees + fee),
+            pnl: round(pnl),
+            returnPercent: round((pnl / cost) * 100),
+            holdingBars: index - open.entryIndex,
+            exitReason: reason,
+        });
+        position = null;
+    };
+
+    bars.forEach((bar, index) => {
+        // 1. 按上一根 K 线的信号在开盘价成交
+        if (pending?.side === 'buy' && !position) {
+            const price = bar.open * (1 + settings.slippage);
+            // 空仓时权益即现金
+            const budget = Math.min(cash, strategy.sizing.type === 'percent' ? (cash * strategy.sizing.value) / 100 : strategy.sizing.value);
+            let shares = Math.floor(budget / (price * (1 + settings.feeRate)) / settings.lotSize) * settings.lotSize;
+            while (shares > 0 && shares * price + commission(shares * price) > cash) shares -= settings.lotSize;
+            if (shares > 0) {
+                const fee = commission(shares * price);
+                cash -= shares * price + fee;
+                position = { shares, entryPrice: price, entryDate: bar.date, entryIndex: index, fees: fee };
+            }
+            pending = null;
+        } else if (pending?.side === 'sell' && position) {
+            // T+1：买入当日的卖出信号顺延到下一个交易日
+            if (!settings.tPlusOne || tradingDay(bar.date) !== tradingDay(position.entryDate)) {
+                sell(index, bar.open, pending.reason);
+                pending = null;
+            }
+        } else {
+            pending = null;
+        }
+
+        // 2. 按收盘价计算权益
+        const equity = cash + (position ? position.shares * bar.close : 0);
+        peak = Math.max(peak, equity);
+        if (position) barsInPosition += 1;
+        equityCurve.push({ date: bar.date, equity: round(equity), cash: round(cash), shares: position?.shares ?? 0, drawdown: round((equity / peak - 1) * 100) });
+
+        // 3. 收盘后生成下一根 K 线的信号
+        if (index === bars.length - 1 || pending) return;
+        if (!position) {
+            if (entry(index)) pending = { side: 'buy' };
+            return;
+        }
+        const change = (bar.close / position.entryPrice - 1) * 100;
+        if (strategy.stopLossPercent !== undefined && change <= -strategy.stopLossPercent) pending = { side: 'sell', reason: 'stop_loss' };
+        else if (strategy.takeProfitPercent !== undefined && change >= strategy.takeProfitPercent) pending = { side: 'sell', reason: 'take_profit' };
+        else if (exit(index)) pending = { side: 'sell', reason: 'signal' };
+    });
+
+    const last = bars.length - 1;
+    if (position) {
+        sell(last, bars[last].close, 'end_of_data');
+        const point = equityCurve[last];
+        point.equity = round(cash);
+        point.cash = round(cash);
+        point.shares = 0;
+        point.drawdown = round((cash / Math.max(peak, cash) - 1) * 100);
+    }
+
+    return { metrics: summarize(bars, equityCurve, trades, strategy, context.interval, barsInPosition), trades, equityCurve, settings };
+}
+
+function summarize(
+    bars: IndicatorBar[],
+    equityCurve: BacktestEquityPoint[],
+    trades: BacktestTrade[],
+    strategy: BacktestStrategy,
+    interval: KlineInterval,
+    barsInPosition: number
+): BacktestMetrics {
+    const initial = strategy.initialCapital;
+    const final = equityCurve[equityCurve.length - 1].equity;
+
+    const days = (Date.parse(bars[bars.length - 1].date) - Date.parse(bars[0].date)) / 86400000;
+    const cagr = Number.isFinite(days) && days >= 30 ? ((final / initial) ** (365.25 / days) - 1) * 100 : null;
+
+    const periodsPerYear = tradingDaysPerYear * barsPerDay[interval];
+    const returns = equityCurve.slice(1).map((point, i) => point.equity / equityCurve[i].equity - 1 - strategy.riskFreeRate / periodsPerYear);
+    const mean = returns.reduce((sum, value) => sum + value, 0) / (returns.length || 1);
+    const variance = returns.length > 1 ? returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1) : 0;
+    const sharpe = variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(periodsPerYear) : null;
+
+    let maxDrawdown = 0;
+    let maxDrawdownStart: string | undefined;
+    let maxDrawdownEnd: string | undefined;
+    let peak = equityCurve[0];
+    for (const point of equityCurve) {
+        if (point.equity > peak.equity) peak = point;
+        const drawdown = (point.equity / peak.equity - 1) * 100;
+        if (drawdown < maxDrawdown) {
+            maxDrawdown = drawdown;
+            maxDrawdownStart = peak.date;
+            maxDrawdownEnd = point.date;
+        }
+    }
+
+    const wins = trades.filter((trade) => trade.pnl > 0);
+    const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+    const grossLoss = trades.filter((trade) => trade.pnl < 0).reduce((sum, trade) => sum - trade.pnl, 0);
+
+    return {
+        initialCapital: initial,
+        finalEquity: round(final),
+        totalReturn: round((final / initial - 1) * 100),
+        cagr: cagr === null ? null : round(cagr),
+        sharpe: sharpe === null ? null : round(sharpe, 3),
+        maxDrawdown: round(maxDrawdown),
+        maxDrawdownStart,
+        maxDrawdownEnd,
+        trades: trades.length,
+        winRate: trades.length > 0 ? round((wins.length / trades.length) * 100) : null,
+        profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss, 3) : null,
+        exposure: round((barsInPosition / bars.length) * 100),
+        totalFees: round(trades.reduce((sum, trade) => sum + trade.fees, 0)),
+        buyAndHoldReturn: round((bars[bars.length - 1].close / bars[0].open - 1) * 100),
+    };
+}
+
+export const backtestRequestSchema = z.object({
+    symbol: z.string().trim().min(1, '缺少股票代码 symbol'),
+    ...klineQueryShape,
+    range: klineQueryShape.range.removeDefault().default('2y'),
+    strategy: backtestStrategySchema,
+});
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+/**
+ * 拉取历史 K 线并回测
+ * @param {BacktestRequest} request 股票代码、日期区间、K 线周期与策略
+ * @returns {Promise<BacktestResult & Pick<KlineSeries, ...>>} 回测结果
+ */
+export async function backtestSymbol(
+    request: BacktestRequest
+): Promise<BacktestResult & Pick<KlineSeries, 'symbol' | 'name' | 'start' | 'end' | 'interval' | 'adjust' | 'source'>> {
+    const { symbol, strategy, ...query } = request;
+    const data = await fetchKlineSeries(symbol, query);
+    const result = runBacktest(data.bars, strategy, { market: data.market, interval: data.interval });
+    return {
+        symbol: data.symbol,
+        name: data.name,
+        start: data.start,
+        end: data.end,
+        interval: data.interval,
+        adjust: data.adjust,
+        ...result,
+        source: data.source,
+    };
+}
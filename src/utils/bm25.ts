@@ -0,0 +1,139 @@
+/**
+ * 关键词检索（BM25）
+ * 中文没有空格分词，这里对连续的汉字取单字 + 相邻二字组合（"贵州茅台" -> 贵 州 茅 台 贵州 州茅 茅台），
+ * 英文 / 数字按词切分并保留形如 600519.SH、GPT-4o 的整体代码，专有名词与代码都能精确命中。
+ */
+
+const cjkPattern = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const wordPattern = /[a-z0-9]+(?:[._-][a-z0-9]+)*/g;
+
+/**
+ * 分词
+ * @param {string} text 文本
+ * @returns {string[]} 词项
+ */
+export function tokenize(text: string): string[] {
+    const lower = text.toLowerCase();
+    const tokens: string[] = [];
+    for (const match of lower.matchAll(wordPattern)) {
+        const word = match[0];
+        tokens.push(word);
+        // 代码整体之外也索引其组成部分，查询 "600519" 能命中 "600519.sh"
+        if (/[._-]/.test(word)) tokens.push(...word.split(/[._-]/).filter(Boolean));
+    }
+    for (const match of lower.matchAll(cjkPattern)) {
+        const run = match[0];
+        for (let i = 0; i < run.length; i++) {
+            tokens.push(run[i]);
+            if (i + 1 < run.length) tokens.push(run.slice(i, i + 2));
+        }
+    }
+    return tokens;
+}
+
+export interface Bm25Options {
+    k1?: number;
+    b?: number;
+}
+
+/**
+ * 内存中的 BM25 索引（可增量加入 / 移除文档）
+ * @template T 文档类型
+ */
+export class Bm25Index<T> {
+    private readonly documents: T[] = [];
+    private readonly termFrequencies: Array<Map<string, number>> = [];
+    private readonly lengths: number[] = [];
+    private readonly documentFrequencies: Map<string, number> = new Map();
+    private readonly k1: number;
+    private readonly b: number;
+    private totalLength = 0;
+
+    constructor(documents: T[], private readonly getText: (document: T) => string, options: Bm25Options = {}) {
+        this.k1 = options.k1 ?? 1.2;
+        this.b = options.b ?? 0.75;
+        this.add(documents);
+    }
+
+    /**
+     * 加入文档
+     * @param {T[]} documents 文档
+     * @returns {void}
+     */
+    add(documents: T[]): void {
+        for (const document of documents) {
+            const frequencies: Map<string, number> = new Map();
+            const tokens = tokenize(this.getText(document));
+            for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+            for (const token of frequencies.keys()) {
+                this.documentFrequencies.set(token, (this.documentFrequencies.get(token) ?? 0) + 1);
+            }
+            this.documents.push(document);
+            this.termFrequencies.push(frequencies);
+            this.lengths.push(tokens.length);
+            this.totalLength += tokens.length;
+        }
+    }
+
+    /**
+     * 移除满足条件的文档
+     * @param {(document: T) => boolean} predicate 条件
+     * @returns {number} 移除的文档数
+     */
+    remove(predicate: (document: T) => boolean): number {
+        let kept = 0;
+        for (let i = 0; i < this.documents.length; i++) {
+            if (!predicate(this.documents[i])) {
+                this.documents[kept] = this.documents[i];
+                this.termFrequencies[kept] = this.termFrequencies[i];
+                this.lengths[kept] = this.lengths[i];
+                kept++;
+                continue;
+            }
+            for (const token of this.termFrequencies[i].keys()) {
+                const df = (this.documentFrequencies.get(token) ?? 0) - 1;
+                if (df > 0) this.documentFrequencies.set(token, df);
+                else this.documentFrequencies.delete(token);
+            }
+            this.totalLength -= this.lengths[i];
+        }
+        const removed = this.documents.length - kept;
+        this.documents.length = kept;
+        this.termFrequencies.length = kept;
+        this.lengths.length = kept;
+        return removed;
+    }
+
+    get size(): number {
+        return this.documents.length;
+    }
+
+    /**
+     * 检索
+     * @param {string} query 查询文本
+     * @param {number} k 返回条数
+     * @param {(document: T) => boolean} [filter] 只在满足条件的文档中检索
+     * @returns {Array<{ document: T; score: number }>} 命中文档及 BM25 分数（只返回分数大于 0 的）
+     */
+    search(query: string, k: number, filter?: (document: T) => boolean): Array<{ document: T; score: number }> {
+        const count = this.documents.length;
+        if (count === 0) return [];
+        const terms = [...new Set(tokenize(query))];
+        const averageLength = this.totalLength / count || 1;
+        const results: Array<{ document: T; score: number }> = [];
+        for (let i = 0; i < count; i++) {
+            if (filter && !filter(this.documents[i])) continue;
+            const frequencies = this.termFrequencies[i];
+            let score = 0;
+            for (const term of terms) {
+                const tf = frequencies.get(term);
+                if (!tf) continue;
+                const df = this.documentFrequencies.get(term) ?? 0;
+                const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+                score += (idf * tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + (this.b * this.lengths[i]) / averageLength));
+            }
+            if (score > 0) results.push({ document: this.documents[i], score });
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, k);
+    }
+}
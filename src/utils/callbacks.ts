@@ -0,0 +1,135 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { LLMResult } from '@langchain/core/outputs';
+
+import { addRequestUsage } from './requestContext';
+
+export interface ToolEvent {
+    runId: string;
+    name: string;
+}
+
+/**
+ * 一次模型/Agent 运行的回调钩子（SSE、WebSocket 等长连接场景共用）
+ */
+export interface RunHooks {
+    /** 中止信号：客户端断开或主动取消时触发 */
+    signal?: AbortSignal;
+    /** 模型输出增量 */
+    onToken?: (delta: string) => void;
+    /** 工具开始调用 */
+    onToolStart?: (event: ToolEvent & { input: unknown }) => void;
+    /** 工具调用结束（成功或失败） */
+    onToolEnd?: (event: ToolEvent & { output?: unknown; error?: string }) => void;
+}
+
+/**
+ * 把 LangChain 回调事件转成 RunHooks 调用
+ * 提供 onToken 时声明 lc_prefer_streaming，让 invoke 内部改走流式接口，从而拿到 token 增量。
+ */
+export class RunHooksCallbackHandler extends BaseCallbackHandler {
+    name = 'run_hooks_callback_handler';
+    lc_prefer_streaming: boolean;
+    private readonly hooks: RunHooks;
+    private readonly toolNames: Map<string, string> = new Map();
+
+    constructor(hooks: RunHooks) {
+        super();
+        this.hooks = hooks;
+        this.lc_prefer_streaming = Boolean(hooks.onToken);
+    }
+
+    async handleLLMNewToken(token: string): Promise<void> {
+        if (token) this.hooks.onToken?.(token);
+    }
+
+    async handleToolStart(
+        tool: Serialized,
+        input: string,
+        runId: string,
+        _parentRunId?: string,
+        _tags?: string[],
+        _metadata?: Record<string, unknown>,
+        runName?: string
+    ): Promise<void> {
+        const name = runName ?? (tool as any)?.name ?? tool.id?.[tool.id.length - 1] ?? 'unknown';
+        this.toolNames.set(runId, name);
+        this.hooks.onToolStart?.({ runId, name, input: parseToolPayload(input) });
+    }
+
+    async handleToolEnd(output: any, runId: string): Promise<void> {
+        const name = this.toolNames.get(runId) ?? 'unknown';
+        this.toolNames.delete(runId);
+        const content = typeof output?.content === 'string' ? output.content : output;
+        this.hooks.onToolEnd?.({ runId, name, output: parseToolPayload(content) });
+    }
+
+    async handleToolError(err: any, runId: string): Promise<void> {
+        const name = this.toolNames.get(runId) ?? 'unknown';
+        this.toolNames.delete(runId);
+        this.hooks.onToolEnd?.({ runId, name, error: err instanceof Error ? err.message : String(err) });
+    }
+}
+
+/**
+ * 从模型返回中读取 token 用量：优先 message.usage_metadata（流式同样可用），其次 llmOutput.tokenUsage
+ * @param {LLMResult} output 模型返回
+ * @returns {{ prompt: number; completion: number } | undefined} token 用量
+ */
+export function readTokenUsage(output: LLMResult): { prompt: number; completion: number } | undefined {
+    let prompt = 0;
+    let completion = 0;
+    let found = false;
+    for (const generation of output.generations.flat()) {
+        const usage = (generation as any).message?.usage_metadata;
+        if (usage) {
+            prompt += usage.input_tokens ?? 0;
+            completion += usage.output_tokens ?? 0;
+            found = true;
+        }
+    }
+    if (found) return { prompt, completion };
+
+    const tokenUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage;
+    if (tokenUsage) {
+        return { prompt: tokenUsage.promptTokens ?? 0, completion: tokenUsage.completionTokens ?? 0 };
+    }
+    return undefined;
+}
+
+/**
+ * 把每次模型调用（含 Agent 的每一步）的 token 用量累加到当前请求上下文
+ * 由 createChatModel 统一挂到模型实例上；awaitHandlers 保证回调在调用链内同步执行，请求结束前已计入。
+ */
+export class TokenUsageCallbackHandler extends BaseCallbackHandler {
+    name = 'token_usage_callback_handler';
+    awaitHandlers = true;
+    private readonly model: string;
+
+    /**
+     * @param {string} model 规范化模型名 "provider:model"（用于按模型计价）
+     */
+    constructor(model: string) {
+        super();
+        this.model = model;
+    }
+
+    async handleLLMEnd(output: LLMResult): Promise<void> {
+        const usage = readTokenUsage(output);
+        addRequestUsage(this.model, 'chat', usage?.prompt ?? 0, usage?.completion ?? 0);
+    }
+}
+
+/**
+ * 工具入参/出参多为 JSON 字符串，能解析就解析，方便前端直接使用
+ * @param {unknown} payload 原始负载
+ * @returns {unknown} 解析后的负载
+ */
+function parseToolPayload(payload: unknown): unknown {
+    if (typeof payload !== 'string') return payload;
+    try {
+        return JSON.parse(payload);
+    } catch {
+        return payload;
+    }
+}
@@ -32,13 +32,15 @@ export function getDashScopeClient(): OpenAI {
 
 /**
  * 创建用于 LangChain 的千问聊天模型（通过 DashScope 兼容接口）
- * @param {{model?: string; temperature?: number; enableSearch?: boolean}} options 可选参数
+ * @param {{model?: string; temperature?: number; maxTokens?: number; enableSearch?: boolean}} options 可选参数
  * @returns {ChatOpenAI} 可直接用于 createAgent 的 ChatOpenAI 实例
  */
 // - 角色 ：它是 Agent 的 主模型（Brain） 。
 // - 作用 ：负责 理解 用户问题、 决定 是否调用工具、以及最后 组织语言 回答用户。
 // - 为什么它也需要 API Key？ 因为它本质上也是调 DashScope 的 LLM（qwen-plus）来做思考和推理。
-export function createDashScopeChatModel(options: { model?: string; temperature?: number; enableSearch?: boolean } = {}): ChatOpenAI {
+export function createDashScopeChatModel(
+    options: { model?: string; temperature?: number; maxTokens?: number; enableSearch?: boolean } = {}
+): ChatOpenAI {
     const model = options.model ?? 'qwen-plus';
     const temperature = options.temperature ?? 0;
     const enableSearch = options.enableSearch ?? false;
@@ -47,6 +49,7 @@ export function createDashScopeChatModel(options: { model?: string; temperature?
         apiKey: getDashScopeApiKey(),
         model,
         temperature,
+        maxTokens: options.maxTokens,
         modelKwargs: enableSearch ? { enable_search: true } : undefined,
         configuration: {
             baseURL: dashScopeBaseUrl,
@@ -64,54 +67,13 @@ export function getKoaRequestBody(ctx: Context): Record<string, any> {
 }
 
 /**
- * 从 body 中读取必填字符串字段（并做 trim）
- * @param {Record<string, any>} body 请求体
- * @param {string} key 字段名
- * @param {string} message 缺失时的错误信息
- * @returns {string} 解析后的字符串
- */
-export function getRequiredBodyString(body: Record<string, any>, key: string, message: string): string {
-    const value: unknown = body[key];
-    if (typeof value !== 'string' || !value.trim()) {
-        throw Object.assign(new Error(message), { status: 400 });
-    }
-    return value.trim();
-}
-
-/**
- * 从 body 中读取可选字符串字段
- * @param {Record<string, any>} body 请求体
- * @param {string} key 字段名
- * @returns {string | undefined} 解析后的字符串
- */
-export function getOptionalBodyString(body: Record<string, any>, key: string): string | undefined {
-    const value: unknown = body[key];
-    return typeof value === 'string' ? value : undefined;
-}
-
-/**
- * 从 body 中读取可选数字字段
- * @param {Record<string, any>} body 请求体
- * @param {string} key 字段名
- * @returns {number | undefined} 解析后的数字
- */
-export function getOptionalBodyNumber(body: Record<string, any>, key: string): number | undefined {
-    const value: unknown = body[key];
-    return typeof value === 'number' ? value : undefined;
-}
-
-/**
- * 从 body 中读取可选枚举字段
- * @template T
- * @param {Record<string, any>} body 请求体
- * @param {string} key 字段名
- * @param {readonly T[]} allowed 允许的枚举值
- * @returns {T | undefined} 解析后的枚举值
+ * 请求命中的路由模板（@koa/router 写入 ctx._matchedRoute），未命中任何路由时为实际路径
+ * @param {Context} ctx Koa上下文
+ * @returns {string} 路由
  */
-export function getOptionalBodyEnum<T extends string>(body: Record<string, any>, key: string, allowed: readonly T[]): T | undefined {
-    const value: unknown = body[key];
-    if (typeof value !== 'string') return undefined;
-    return (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+export function getMatchedRoute(ctx: Context): string {
+    const matched = (ctx as any)._matchedRoute as string | RegExp | undefined;
+    return matched ? String(matched) : ctx.path;
 }
 
 /**
@@ -136,7 +98,8 @@ export function setKoaJson(ctx: Context, status: number, body: unknown): void {
 export function setKoaError(ctx: Context, err: unknown, fallbackMessage: string): void {
     const message = err instanceof Error ? err.message : fallbackMessage;
     const status = (err as any)?.status ?? 500;
-    setKoaJson(ctx, status, { message });
+    const errors = (err as any)?.errors;
+    setKoaJson(ctx, status, Array.isArray(errors) ? { message, errors } : { message });
 }
 
 export async function dashScopePostJson<T = any>(path: string, body: unknown, headers?: Record<string, string>): Promise<T> {
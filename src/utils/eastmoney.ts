@@ -3,8 +3,13 @@ import {
     eastmoneyBaseUrl,
     eastmoneyBoardListPath,
     eastmoneyDefaultUt,
+    eastmoneyFflowDayPath,
+    eastmoneyFflowFieldMap,
+    eastmoneyFflowFields1,
+    eastmoneyFflowFields2,
     eastmoneyFflowPath,
     eastmoneyKlineBaseUrl,
+    eastmoneyKlineFieldMap,
     eastmoneyKlineFields1,
     eastmoneyKlineFields2,
     eastmoneyKlinePath,
@@ -13,33 +18,80 @@ import {
     eastmoneyQuoteFields,
     eastmoneyQuotePath,
 } from '../const/eastmoney';
-
-// 行情报价返回结构
-export interface EastmoneyQuoteResult {
-    symbol: string;
-    shortName?: string;
-    price?: number;
-    change?: number;
-    changePercent?: number;
-    prevClose?: number;
-    currency: 'CNY';
-    source: 'eastmoney';
-}
-
-export type EastmoneyMarket = 'SH' | 'SZ';
+import type { MarketQuote } from './marketData';
+import { normalizeSymbol, type ChinaExchange, type MarketId, type NormalizedSymbol } from './symbols';
 
 export interface EastmoneyKlineOptions {
+    /** K 线周期：101 日线，60 / 30 / 15 / 5 / 1 分钟线 */
     klt?: number;
+    /** 复权：0 不复权，1 前复权，2 后复权 */
     fqt?: 0 | 1 | 2;
+    /** 最多返回根数（从 end 往前数） */
     lmt?: number;
+    /** 起止日期 YYYYMMDD（含） */
+    beg?: string;
     end?: string;
 }
 
+/**
+ * 一根 K 线（字段见 eastmoneyKlineFieldMap）
+ */
+export interface EastmoneyKlineBar {
+    /** 日线为 YYYY-MM-DD，分钟线为 YYYY-MM-DD HH:mm */
+    date: string;
+    open: number;
+    close: number;
+    high: number;
+    low: number;
+    /** 成交量（股） */
+    volume: number;
+    /** 成交额（交易币种） */
+    amount?: number;
+    /** 振幅（%） */
+    amplitude?: number;
+    /** 涨跌幅（%） */
+    changePercent?: number;
+    change?: number;
+    /** 换手率（%） */
+    turnover?: number;
+}
+
 export interface EastmoneyKlineResult {
     symbol: string;
-    market: EastmoneyMarket;
+    market: MarketId;
+    exchange?: ChinaExchange;
+    name?: string;
+    /** 按时间升序 */
+    bars: EastmoneyKlineBar[];
+    source: 'eastmoney';
+}
+
+export interface EastmoneyFundFlowPoint {
+    /** 日线为 YYYY-MM-DD，分钟级为 YYYY-MM-DD HH:mm */
+    time: string;
+    /** 主力（超大单 + 大单）净流入（元），分钟级为开盘以来的累计值 */
+    main: number;
+    superLarge: number;
+    large: number;
+    medium: number;
+    small: number;
+    /** 各类净流入占成交额比例（%，仅日线） */
+    mainRatio?: number;
+    superLargeRatio?: number;
+    largeRatio?: number;
+    mediumRatio?: number;
+    smallRatio?: number;
+    /** 收盘价与涨跌幅（%，仅日线） */
+    close?: number;
+    changePercent?: number;
+}
+
+export interface EastmoneyFundFlowResult {
+    symbol: string;
     name?: string;
-    klines: string[];
+    period: 'daily' | 'intraday';
+    /** 按时间升序 */
+    points: EastmoneyFundFlowPoint[];
     source: 'eastmoney';
 }
 
@@ -57,60 +109,109 @@ export interface EastmoneyNoticeResult {
     source: 'eastmoney';
 }
 
-// 判断是否为 A 股代码
-export function isChinaSymbol(symbol: string): boolean {
-    return /\.(SH|SZ)$/i.test(symbol) || /^\d{6}$/.test(symbol);
+// 东财证券ID：市场编号.代码（沪 1、深 / 北 0、港股 116），暂不支持美股
+export function toEastmoneySecid(symbol: NormalizedSymbol): string {
+    if (symbol.market === 'HK') return `116.${symbol.code}`;
+    if (symbol.market === 'CN') return `${symbol.exchange === 'SH' ? 1 : 0}.${symbol.code}`;
+    throw Object.assign(new Error(`东方财富暂不支持该市场的代码：${symbol.symbol}`), { status: 400 });
+}
+
+// 只接受 A 股代码的接口（公告等）
+function requireChinaSymbol(symbol: string): NormalizedSymbol {
+    const normalized = normalizeSymbol(symbol);
+    if (normalized.market !== 'CN') {
+        throw Object.assign(new Error(`该接口暂仅支持 A 股代码：${symbol}`), { status: 400 });
+    }
+    return normalized;
 }
 
-// 解析并归一化 A 股代码
-export function resolveChinaSymbol(symbol: string): { code: string; market: EastmoneyMarket } {
-    const upper = symbol.toUpperCase();
-    if (upper.endsWith('.SH')) return { code: upper.replace('.SH', ''), market: 'SH' };
-    if (upper.endsWith('.SZ')) return { code: upper.replace('.SZ', ''), market: 'SZ' };
-    const code = upper;
-    const market = code.startsWith('6') || code.startsWith('9') ? 'SH' : 'SZ';
-    return { code, market };
+// 东财接口缺失的数值返回 "-"
+function toNumber(value: unknown): number | undefined {
+    if (value === null || value === undefined || value === '' || value === '-') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
 }
 
-// 获取行情报价数据
-export async function fetchEastmoneyQuote(symbol: string): Promise<EastmoneyQuoteResult> {
-    const { code, market } = resolveChinaSymbol(symbol);
-    const secid = `${market === 'SH' ? 1 : 0}.${code}`;
+// 获取行情报价数据（A 股 / 港股）
+export async function fetchEastmoneyQuote(symbol: string): Promise<MarketQuote> {
+    const normalized = normalizeSymbol(symbol);
+    const secid = toEastmoneySecid(normalized);
     const url = `${eastmoneyBaseUrl}${eastmoneyQuotePath}?secid=${encodeURIComponent(secid)}&fields=${eastmoneyQuoteFields}&ut=${eastmoneyDefaultUt}&invt=2&fltt=2`;
     const data = await getJson<any>(url);
     const d = data?.data;
-    if (!d) {
+    const price = toNumber(d?.f43);
+    if (!d || price === undefined) {
         throw new Error(`未获取到报价数据：${symbol}`);
     }
 
-    const price = Number(d.f43);
-    const prevClose = Number(d.f60);
-    const change = Number(d.f171);
-    const changePercent = Number(d.f170);
+    const prevClose = toNumber(d.f60);
+    const volume = toNumber(d.f47);
+    const time = toNumber(d.f86);
 
     return {
-        symbol: `${code}.${market}`,
-        shortName: d.f58,
+        symbol: normalized.symbol,
+        market: normalized.market,
+        name: d.f58 || undefined,
         price,
-        change: Number.isFinite(change) ? change : (Number.isFinite(price) && Number.isFinite(prevClose) ? price - prevClose : undefined),
-        changePercent: Number.isFinite(changePercent)
-            ? changePercent
-            : (Number.isFinite(price) && Number.isFinite(prevClose) && prevClose !== 0 ? ((price - prevClose) / prevClose) * 100 : undefined),
-        prevClose: Number.isFinite(prevClose) ? prevClose : undefined,
-        currency: 'CNY',
+        change: toNumber(d.f171) ?? (prevClose !== undefined ? price - prevClose : undefined),
+        changePercent: toNumber(d.f170) ?? (prevClose ? ((price - prevClose) / prevClose) * 100 : undefined),
+        prevClose,
+        open: toNumber(d.f46),
+        high: toNumber(d.f44),
+        low: toNumber(d.f45),
+        // A 股成交量单位为手（100 股），统一换算为股
+        volume: volume !== undefined && normalized.market === 'CN' ? volume * 100 : volume,
+        amount: toNumber(d.f48),
+        currency: normalized.currency,
+        timestamp: new Date(time ? time * 1000 : Date.now()).toISOString(),
         source: 'eastmoney',
     };
 }
 
+const klineColumns = eastmoneyKlineFields2.split(',');
+
+/**
+ * 解析一根 K 线：按 eastmoneyKlineFields2 的顺序取列，缺少日期或 OHLC 时返回 undefined
+ * @param {string} row 逗号拼接的 K 线
+ * @param {MarketId} market 市场（A 股成交量单位为手，换算为股）
+ * @returns {EastmoneyKlineBar | undefined} K 线
+ */
+export function parseEastmoneyKline(row: string, market: MarketId): EastmoneyKlineBar | undefined {
+    const values = row.split(',');
+    const get = (field: keyof typeof eastmoneyKlineFieldMap) => {
+        const index = klineColumns.indexOf(eastmoneyKlineFieldMap[field]);
+        return index < 0 ? undefined : values[index];
+    };
+    const date = get('date');
+    const [open, close, high, low] = [get('open'), get('close'), get('high'), get('low')].map(toNumber);
+    if (!date || open === undefined || close === undefined || high === undefined || low === undefined) return undefined;
+    const volume = toNumber(get('volume')) ?? 0;
+
+    return {
+        date,
+        open,
+        close,
+        high,
+        low,
+        volume: market === 'CN' ? volume * 100 : volume,
+        amount: toNumber(get('amount')),
+        amplitude: toNumber(get('amplitude')),
+        changePercent: toNumber(get('changePercent')),
+        change: toNumber(get('change')),
+        turnover: toNumber(get('turnover')),
+    };
+}
+
 export async function fetchEastmoneyKlines(symbol: string, options: EastmoneyKlineOptions = {}): Promise<EastmoneyKlineResult> {
-    const { code, market } = resolveChinaSymbol(symbol);
-    const secid = `${market === 'SH' ? 1 : 0}.${code}`;
+    const normalized = normalizeSymbol(symbol);
+    const secid = toEastmoneySecid(normalized);
     const klt = options.klt ?? 101;
     const fqt = options.fqt ?? 1;
     const lmt = options.lmt ?? 120;
     const end = options.end ?? '20500101';
+    const beg = options.beg ? `&beg=${encodeURIComponent(options.beg)}` : '';
 
-    const url = `${eastmoneyKlineBaseUrl}${eastmoneyKlinePath}?secid=${encodeURIComponent(secid)}&klt=${klt}&fqt=${fqt}&lmt=${lmt}&end=${encodeURIComponent(end)}&fields1=${encodeURIComponent(eastmoneyKlineFields1)}&fields2=${encodeURIComponent(eastmoneyKlineFields2)}&ut=${eastmoneyDefaultUt}`;
+    const url = `${eastmoneyKlineBaseUrl}${eastmoneyKlinePath}?secid=${encodeURIComponent(secid)}&klt=${klt}&fqt=${fqt}&lmt=${lmt}${beg}&end=${encodeURIComponent(end)}&fields1=${encodeURIComponent(eastmoneyKlineFields1)}&fields2=${encodeURIComponent(eastmoneyKlineFields2)}&ut=${eastmoneyDefaultUt}`;
     const data = await getJson<any>(url);
     const d = data?.data;
     if (!d?.klines) {
@@ -118,17 +219,83 @@ export async function fetchEastmoneyKlines(symbol: string, options: EastmoneyKli
     }
 
     return {
-        symbol: `${code}.${market}`,
-        market,
+        symbol: normalized.symbol,
+        market: normalized.market,
+        exchange: normalized.exchange,
+        name: d.name,
+        bars: (d.klines as string[])
+            .map((row) => parseEastmoneyKline(row, normalized.market))
+            .filter((bar): bar is EastmoneyKlineBar => Boolean(bar)),
+        source: 'eastmoney',
+    };
+}
+
+const fundFlowColumns = eastmoneyFflowFields2.split(',');
+
+function parseFundFlow(row: string): EastmoneyFundFlowPoint | undefined {
+    const values = row.split(',');
+    const get = (field: keyof typeof eastmoneyFflowFieldMap) => toNumber(values[fundFlowColumns.indexOf(eastmoneyFflowFieldMap[field])]);
+    const time = values[fundFlowColumns.indexOf(eastmoneyFflowFieldMap.time)];
+    const [main, superLarge, large, medium, small] = [get('main'), get('superLarge'), get('large'), get('medium'), get('small')];
+    if (!time || main === undefined || superLarge === undefined || large === undefined || medium === undefined || small === undefined) return undefined;
+    return {
+        time,
+        main,
+        superLarge,
+        large,
+        medium,
+        small,
+        mainRatio: get('mainRatio'),
+        superLargeRatio: get('superLargeRatio'),
+        largeRatio: get('largeRatio'),
+        mediumRatio: get('mediumRatio'),
+        smallRatio: get('smallRatio'),
+        close: get('close'),
+        changePercent: get('changePercent'),
+    };
+}
+
+/** 日线资金流向最多查询的交易日数 */
+export const maxFundFlowDays = 120;
+
+/**
+ * 获取资金流向（A 股）：按超大单 / 大单 / 中单 / 小单拆分的净流入
+ * @param {string} symbol 股票代码
+ * @param {{ period?: 'daily' | 'intraday'; days?: number }} [options] daily 为最近 days（1~120，默认 10）个交易日的日线，intraday 为当日分钟级累计值
+ * @returns {Promise<EastmoneyFundFlowResult>} 资金流向
+ */
+export async function fetchEastmoneyFundFlow(
+    symbol: string,
+    options: { period?: 'daily' | 'intraday'; days?: number } = {}
+): Promise<EastmoneyFundFlowResult> {
+    const normalized = requireChinaSymbol(symbol);
+    const secid = toEastmoneySecid(normalized);
+    const period = options.period ?? 'daily';
+    const days = options.days ?? 10;
+    if (!Number.isInteger(days) || days < 1 || days > maxFundFlowDays) {
+        throw Object.assign(new Error(`days 应为 1~${maxFundFlowDays} 的整数：${days}`), { status: 400 });
+    }
+    const query = `secid=${encodeURIComponent(secid)}&fields1=${encodeURIComponent(eastmoneyFflowFields1)}&fields2=${encodeURIComponent(eastmoneyFflowFields2)}&ut=${eastmoneyDefaultUt}`;
+    const url = period === 'daily'
+        ? `${eastmoneyKlineBaseUrl}${eastmoneyFflowDayPath}?lmt=${days}&klt=101&${query}`
+        : `${eastmoneyBaseUrl}${eastmoneyFflowPath}?lmt=0&klt=1&${query}`;
+    const data = await getJson<any>(url);
+    const d = data?.data;
+    if (!d?.klines) {
+        throw new Error(`未获取到资金流向数据：${symbol}`);
+    }
+
+    return {
+        symbol: normalized.symbol,
         name: d.name,
-        klines: d.klines,
+        period,
+        points: (d.klines as string[]).map(parseFundFlow).filter((point): point is EastmoneyFundFlowPoint => Boolean(point)),
         source: 'eastmoney',
     };
 }
 
 export async function fetchEastmoneyNotices(symbol: string, count: number = 5): Promise<EastmoneyNoticeResult> {
-    const { code, market } = resolveChinaSymbol(symbol);
-    const stockList = `${code}.${market}`;
+    const { symbol: stockList } = requireChinaSymbol(symbol);
     const primaryUrl = `${eastmoneyNoticeBaseUrl}${eastmoneyNoticePath}?page_size=${count}&page_index=1&ann_type=A&client=web&stock_list=${encodeURIComponent(stockList)}`;
     const primary = await getJson<any>(primaryUrl);
     let list = (primary?.data?.list ?? []) as any[];
@@ -140,7 +307,7 @@ export async function fetchEastmoneyNotices(symbol: string, count: number = 5):
     }
 
     return {
-        symbol: `${code}.${market}`,
+        symbol: stockList,
         list: list.map((item) => ({
             title: item?.title,
             publishTime: item?.notice_date || item?.publish_time,
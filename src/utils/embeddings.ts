@@ -0,0 +1,263 @@
+import { Embeddings, type EmbeddingsInterface } from '@langchain/core/embeddings';
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+import { TokenBucket } from './apiKeys';
+import { tokenize } from './bm25';
+import { dashScopeBaseUrl, getDashScopeApiKey } from './dashscope';
+import { addRequestUsage } from './requestContext';
+
+/**
+ * 向量模型定义
+ */
+export interface EmbeddingModelInfo {
+    /** 规范化名称，形如 "dashscope:text-embedding-v1" */
+    id: string;
+    provider: string;
+    model: string;
+    /** 向量维度（建表时需与之一致） */
+    dimensions: number;
+    create(): EmbeddingsInterface;
+}
+
+/** 默认集合（旧版 vectors 表）使用的向量模型 */
+export const defaultEmbeddingModelId = 'dashscope:text-embedding-v1';
+
+/**
+ * 新建集合默认使用的向量模型（RAG_EMBEDDING_MODEL，如离线环境设为 local:hash-v1）
+ * @returns {string} 向量模型ID
+ */
+export function getDefaultEmbeddingModelId(): string {
+    return process.env.RAG_EMBEDDING_MODEL?.trim() || defaultEmbeddingModelId;
+}
+
+const embeddingModels: Map<string, EmbeddingModelInfo> = new Map();
+
+/**
+ * 注册（或覆盖）一个向量模型
+ * @param {EmbeddingModelInfo} info 向量模型定义
+ * @returns {void}
+ */
+export function registerEmbeddingModel(info: EmbeddingModelInfo): void {
+    // 统一包一层用量统计，调用方无需关心
+    embeddingModels.set(info.id, { ...info, create: () => new UsageTrackingEmbeddings(info.id, info.create()) });
+}
+
+/**
+ * 记录向量调用用量的包装器：LangChain 的 Embeddings 没有回调，也拿不到接口返回的 usage，按文本估算 token
+ */
+class UsageTrackingEmbeddings extends Embeddings {
+    constructor(private readonly model: string, private readonly inner: EmbeddingsInterface) {
+        super({});
+    }
+
+    async embedDocuments(documents: string[]): Promise<number[][]> {
+        const vectors = await this.inner.embedDocuments(documents);
+        addRequestUsage(this.model, 'embedding', documents.reduce((sum, d) => sum + estimateTokens(d), 0), 0);
+        return vectors;
+    }
+
+    async embedQuery(document: string): Promise<number[]> {
+        const vector = await this.inner.embedQuery(document);
+        addRequestUsage(this.model, 'embedding', estimateTokens(document), 0);
+        return vector;
+    }
+}
+
+/**
+ * 初始化 Embedding 模型
+ *
+ * 作用：将文本转换为向量（数字列表），用于计算文本之间的相似度。
+ *
+ * 这里虽然使用的是 OpenAIEmbeddings 类，但通过配置：
+ * 1. apiKey: 使用阿里云 DashScope 的 API Key
+ * 2. baseURL: 指向 DashScope 的兼容接口
+ * 3. modelName: 指定使用通义千问的文本向量模型 'text-embedding-v1'
+ *
+ * 从而实现了用 OpenAI 的 SDK 调用阿里云的向量服务。
+ */
+registerEmbeddingModel({
+    id: 'dashscope:text-embedding-v1',
+    provider: 'dashscope',
+    model: 'text-embedding-v1',
+    dimensions: 1536,
+    create: () => new OpenAIEmbeddings({
+        apiKey: getDashScopeApiKey(),
+        modelName: 'text-embedding-v1', // DashScope 文本向量模型
+        configuration: {
+            baseURL: dashScopeBaseUrl,
+        },
+    }),
+});
+
+/**
+ * DashScope 新一代向量模型：v2 与 v1 同为 1536 维但向量空间不同，不能混用；
+ * v3 / v4 维度可选，这里按默认的 1024 维注册（请求时显式带上 dimensions）
+ */
+for (const { model, dimensions, explicitDimensions } of [
+    { model: 'text-embedding-v2', dimensions: 1536, explicitDimensions: false },
+    { model: 'text-embedding-v3', dimensions: 1024, explicitDimensions: true },
+    { model: 'text-embedding-v4', dimensions: 1024, explicitDimensions: true },
+]) {
+    registerEmbeddingModel({
+        id: `dashscope:${model}`,
+        provider: 'dashscope',
+        model,
+        dimensions,
+        create: () => new OpenAIEmbeddings({
+            apiKey: getDashScopeApiKey(),
+            modelName: model,
+            ...(explicitDimensions ? { dimensions } : {}),
+            configuration: {
+                baseURL: dashScopeBaseUrl,
+            },
+        }),
+    });
+}
+
+/**
+ * 本地确定性向量：词项（分词同 BM25）哈希到固定维度，按词频（count）或 log(1 + 词频)（log）加权后做 L2 归一化
+ * 不理解语义（只有字面重合的文本才相似），但无需网络、同一文本的向量永远相同，
+ * 适合离线开发、测试与评测
+ */
+export class HashingEmbeddings extends Embeddings {
+    constructor(
+        readonly dimensions = 256,
+        readonly weighting: 'count' | 'log' = 'count'
+    ) {
+        super({});
+    }
+
+    private embed(text: string): number[] {
+        const counts = new Array<number>(this.dimensions).fill(0);
+        for (const token of tokenize(text)) {
+            // FNV-1a
+            let hash = 0x811c9dc5;
+            for (let i = 0; i < token.length; i++) {
+                hash ^= token.charCodeAt(i);
+                hash = Math.imul(hash, 0x01000193);
+            }
+            counts[(hash >>> 0) % this.dimensions] += 1;
+        }
+        const vector = this.weighting === 'log' ? counts.map((count) => Math.log1p(count)) : counts;
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        // 没有任何词项的文本（如纯标点）给一个固定方向，避免零向量无法计算余弦距离
+        if (norm === 0) {
+            vector[0] = 1;
+            return vector;
+        }
+        return vector.map((v) => v / norm);
+    }
+
+    async embedDocuments(documents: string[]): Promise<number[][]> {
+        return documents.map((document) => this.embed(document));
+    }
+
+    async embedQuery(document: string): Promise<number[]> {
+        return this.embed(document);
+    }
+}
+
+// 加权方式不同的向量互不兼容，改变算法时注册新的模型ID，已有索引仍按原算法检索
+registerEmbeddingModel({
+    id: 'local:hash-v1',
+    provider: 'local',
+    model: 'hash-v1',
+    dimensions: 256,
+    create: () => new HashingEmbeddings(256, 'count'),
+});
+
+registerEmbeddingModel({
+    id: 'local:hash-v2',
+    provider: 'local',
+    model: 'hash-v2',
+    dimensions: 256,
+    create: () => new HashingEmbeddings(256, 'log'),
+});
+
+/**
+ * 列出已注册的向量模型
+ * @returns {EmbeddingModelInfo[]} 向量模型列表
+ */
+export function listEmbeddingModels(): EmbeddingModelInfo[] {
+    return [...embeddingModels.values()];
+}
+
+/**
+ * 解析向量模型名称：支持 "dashscope:text-embedding-v1" 与省略提供方的 "text-embedding-v1"
+ * @param {string | undefined} name 模型名称
+ * @returns {EmbeddingModelInfo} 向量模型定义
+ */
+export function getEmbeddingModel(name: string = defaultEmbeddingModelId): EmbeddingModelInfo {
+    const trimmed = name.trim();
+    const info = embeddingModels.get(trimmed) ?? [...embeddingModels.values()].find((m) => m.model === trimmed);
+    if (!info) {
+        throw Object.assign(
+            new Error(`未知的向量模型: ${name}（可选 ${[...embeddingModels.keys()].join(' | ')}）`),
+            { status: 400 }
+        );
+    }
+    return info;
+}
+
+/**
+ * 粗略估算 token 数（向量接口经 LangChain 调用时拿不到 usage）
+ * 中日韩字符按 1 token/字，其余按约 4 字符/token 计。
+ * @param {string} text 文本
+ * @returns {number} 估算的 token 数
+ */
+export function estimateTokens(text: string): number {
+    const cjk = (text.match(/[　-鿿가-힯豈-﫿]/g) ?? []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** 按向量模型限流：同一模型的所有批量向量化共用一个令牌桶 */
+const embeddingLimiters: Map<string, TokenBucket> = new Map();
+
+/**
+ * 等待向量模型的调用额度（RAG_EMBED_REQUESTS_PER_MINUTE，默认每分钟 300 次，允许 5 次突发）
+ * @param {string} modelId 向量模型ID
+ * @returns {Promise<void>}
+ */
+async function acquireEmbeddingSlot(modelId: string): Promise<void> {
+    let bucket = embeddingLimiters.get(modelId);
+    if (!bucket) {
+        bucket = new TokenBucket(5, readPositiveIntEnv('RAG_EMBED_REQUESTS_PER_MINUTE', 300) / 60);
+        embeddingLimiters.set(modelId, bucket);
+    }
+    for (;;) {
+        const result = bucket.take();
+        if (result.ok) return;
+        await new Promise((resolve) => setTimeout(resolve, result.retryAfterSeconds * 1000));
+    }
+}
+
+/**
+ * 分批向量化：每批最多 RAG_EMBED_BATCH_SIZE 条（默认 25，DashScope 单次调用上限），批与批之间按模型限流
+ * @param {string} modelId 向量模型ID（限流维度）
+ * @param {EmbeddingsInterface} embeddings 向量模型实例
+ * @param {string[]} texts 文本
+ * @param {(done: number) => void} [onProgress] 每完成一批回调一次，参数为已完成条数
+ * @returns {Promise<number[][]>} 向量（与 texts 一一对应）
+ */
+export async function embedDocumentsInBatches(
+    modelId: string,
+    embeddings: EmbeddingsInterface,
+    texts: string[],
+    onProgress?: (done: number) => void
+): Promise<number[][]> {
+    const batchSize = readPositiveIntEnv('RAG_EMBED_BATCH_SIZE', 25);
+    // 本地模型没有调用额度限制
+    const limited = embeddingModels.get(modelId)?.provider !== 'local';
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+        if (limited) await acquireEmbeddingSlot(modelId);
+        vectors.push(...(await embeddings.embedDocuments(texts.slice(start, start + batchSize))));
+        onProgress?.(vectors.length);
+    }
+    return vectors;
+}
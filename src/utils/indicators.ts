@@ -0,0 +1,469 @@
+import { z } from 'zod';
+
+/**
+ * 指标计算使用的 K 线（按时间升序）
+ */
+export interface IndicatorBar {
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * 指标序列：与 K 线一一对应，数据不足的前几根为 null
+ */
+export type Series = Array<number | null>;
+
+function emptySeries(length: number): Series {
+    return new Array<number | null>(length).fill(null);
+}
+
+/**
+ * 简单移动平均
+ * @param {number[]} values 数值
+ * @param {number} period 周期
+ * @returns {Series} SMA
+ */
+export function sma(values: number[], period: number): Series {
+    const result = emptySeries(values.length);
+    let sum = 0;
+    values.forEach((value, i) => {
+        sum += value;
+        if (i >= period) sum -= values[i - period];
+        if (i >= period - 1) result[i] = sum / period;
+    });
+    return result;
+}
+
+/**
+ * 指数移动平均（首值为前 period 个数的 SMA）
+ * @param {Series} values 数值（开头可以有 null，从第一个非空值开始计算）
+ * @param {number} period 周期
+ * @returns {Series} EMA
+ */
+export function ema(values: Series, period: number): Series {
+    const result = emptySeries(values.length);
+    const start = values.findIndex((value) => value !== null);
+    if (start < 0 || values.length - start < period) return result;
+    const alpha = 2 / (period + 1);
+    let previous = 0;
+    for (let i = start; i < start + period; i += 1) previous += values[i]!;
+    previous /= period;
+    result[start + period - 1] = previous;
+    for (let i = start + period; i < values.length; i += 1) {
+        previous = alpha * values[i]! + (1 - alpha) * previous;
+        result[i] = previous;
+    }
+    return result;
+}
+
+/**
+ * Wilder 平滑（RSI、ATR 使用）：首值为前 period 个数的平均
+ * @param {number[]} values 数值
+ * @param {number} period 周期
+ * @param {number} offset 从第几个数开始（RSI 的第一个涨跌幅出现在第 2 根 K 线）
+ * @returns {Series} 平滑结果
+ */
+function wilder(values: number[], period: number, offset = 0): Series {
+    const result = emptySeries(values.length);
+    if (values.length - offset < period) return result;
+    let average = 0;
+    for (let i = offset; i < offset + period; i += 1) average += values[i];
+    average /= period;
+    result[offset + period - 1] = average;
+    for (let i = offset + period; i < values.length; i += 1) {
+        average = (average * (period - 1) + values[i]) / period;
+        result[i] = average;
+    }
+    return result;
+}
+
+/**
+ * 相对强弱指标（Wilder 平滑）
+ * @param {number[]} closes 收盘价
+ * @param {number} period 周期
+ * @returns {Series} RSI（0~100）
+ */
+export function rsi(closes: number[], period: number): Series {
+    const gains = closes.map((close, i) => (i === 0 ? 0 : Math.max(close - closes[i - 1], 0)));
+    const losses = closes.map((close, i) => (i === 0 ? 0 : Math.max(closes[i - 1] - close, 0)));
+    const avgGain = wilder(gains, period, 1);
+    const avgLoss = wilder(losses, period, 1);
+    return avgGain.map((gain, i) => {
+        const loss = avgLoss[i];
+        if (gain === null || loss === null) return null;
+        return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+    });
+}
+
+/**
+ * MACD：DIF = EMA(fast) - EMA(slow)，DEA = EMA(DIF, signal)，柱 = 2 × (DIF - DEA)（国内行情软件惯例）
+ * @param {number[]} closes 收盘价
+ * @param {number} fast 快线周期
+ * @param {number} slow 慢线周期
+ * @param {number} signal 信号线周期
+ * @returns {{ dif: Series; dea: Series; histogram: Series }} MACD
+ */
+export function macd(closes: number[], fast: number, slow: number, signal: number): { dif: Series; dea: Series; histogram: Series } {
+    const fastLine = ema(closes, fast);
+    const slowLine = ema(closes, slow);
+    const dif = fastLine.map((value, i) => (value === null || slowLine[i] === null ? null : value - slowLine[i]!));
+    const dea = ema(dif, signal);
+    const histogram = dif.map((value, i) => (value === null || dea[i] === null ? null : 2 * (value - dea[i]!)));
+    return { dif, dea, histogram };
+}
+
+/**
+ * 布林带：中轨为 SMA，上下轨为中轨 ± multiplier × 标准差（总体标准差）
+ * @param {number[]} closes 收盘价
+ * @param {number} period 周期
+ * @param {number} multiplier 标准差倍数
+ * @returns {{ middle: Series; upper: Series; lower: Series; bandwidth: Series; percentB: Series }} 布林带
+ */
+export function bollinger(
+    closes: number[],
+    period: number,
+    multiplier: number
+): { middle: Series; upper: Series; lower: Series; bandwidth: Series; percentB: Series } {
+    const middle = sma(closes, period);
+    const upper = emptySeries(closes.length);
+    const lower = emptySeries(closes.length);
+    const bandwidth = emptySeries(closes.length);
+    const percentB = emptySeries(closes.length);
+    middle.forEach((mean, i) => {
+        if (mean === null) return;
+        const window = closes.slice(i - period + 1, i + 1);
+        const deviation = Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+        upper[i] = mean + multiplier * deviation;
+        lower[i] = mean - multiplier * deviation;
+        bandwidth[i] = mean === 0 ? null : (upper[i]! - lower[i]!) / mean;
+        percentB[i] = upper[i] === lower[i] ? 0.5 : (closes[i] - lower[i]!) / (upper[i]! - lower[i]!);
+    });
+    return { middle, upper, lower, bandwidth, percentB };
+}
+
+/**
+ * KDJ：RSV = (C - Ln) / (Hn - Ln) × 100，K = ((m1 - 1)K' + RSV) / m1，D = ((m2 - 1)D' + K) / m2，J = 3K - 2D，K、D 初值 50
+ * @param {IndicatorBar[]} bars K 线
+ * @param {number} n RSV 周期
+ * @param {number} m1 K 平滑周期
+ * @param {number} m2 D 平滑周期
+ * @returns {{ k: Series; d: Series; j: Series }} KDJ
+ */
+export function kdj(bars: IndicatorBar[], n: number, m1: number, m2: number): { k: Series; d: Series; j: Series } {
+    const k = emptySeries(bars.length);
+    const d = emptySeries(bars.length);
+    const j = emptySeries(bars.length);
+    let previousK = 50;
+    let previousD = 50;
+    for (let i = n - 1; i < bars.length; i += 1) {
+        const window = bars.slice(i - n + 1, i + 1);
+        const highest = Math.max(...window.map((bar) => bar.high));
+        const lowest = Math.min(...window.map((bar) => bar.low));
+        const rsv = highest === lowest ? 50 : ((bars[i].close - lowest) / (highest - lowest)) * 100;
+        previousK = ((m1 - 1) * previousK + rsv) / m1;
+        previousD = ((m2 - 1) * previousD + previousK) / m2;
+        k[i] = previousK;
+        d[i] = previousD;
+        j[i] = 3 * previousK - 2 * previousD;
+    }
+    return { k, d, j };
+}
+
+/**
+ * 平均真实波幅（Wilder 平滑）
+ * @param {IndicatorBar[]} bars K 线
+ * @param {number} period 周期
+ * @returns {Series} ATR
+ */
+export function atr(bars: IndicatorBar[], period: number): Series {
+    const trueRanges = bars.map((bar, i) => {
+        if (i === 0) return bar.high - bar.low;
+        const previousClose = bars[i - 1].close;
+        return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+    });
+    return wilder(trueRanges, period);
+}
+
+/**
+ * 能量潮：收涨累加成交量，收跌累减
+ * @param {IndicatorBar[]} bars K 线
+ * @returns {Series} OBV
+ */
+export function obv(bars: IndicatorBar[]): Series {
+    let total = 0;
+    return bars.map((bar, i) => {
+        if (i > 0 && bar.close > bars[i - 1].close) total += bar.volume;
+        else if (i > 0 && bar.close < bars[i - 1].close) total -= bar.volume;
+        return total;
+    });
+}
+
+/**
+ * 成交量加权均价：窗口内 Σ(典型价 × 量) / Σ量，典型价 = (H + L + C) / 3
+ * @param {IndicatorBar[]} bars K 线
+ * @param {number} [period] 滚动窗口，缺省为从第一根 K 线起累计（VWAP）
+ * @returns {Series} 成交量加权均价（窗口内无成交时为 null）
+ */
+export function vwap(bars: IndicatorBar[], period?: number): Series {
+    const result = emptySeries(bars.length);
+    let priceVolume = 0;
+    let volume = 0;
+    bars.forEach((bar, i) => {
+        priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+        volume += bar.volume;
+        if (period && i >= period) {
+            const old = bars[i - period];
+            priceVolume -= ((old.high + old.low + old.close) / 3) * old.volume;
+            volume -= old.volume;
+        }
+        if ((!period || i >= period - 1) && volume > 0) result[i] = priceVolume / volume;
+    });
+    return result;
+}
+
+/**
+ * 两条序列的交叉点：fast 上穿 slow 为金叉，下穿为死叉
+ * @param {Series} fast 快线
+ * @param {Series} slow 慢线
+ * @returns {Array<{ index: number; type: 'golden' | 'death' }>} 交叉点
+ */
+export function crossovers(fast: Series, slow: Series): Array<{ index: number; type: 'golden' | 'death' }> {
+    const result: Array<{ index: number; type: 'golden' | 'death' }> = [];
+    for (let i = 1; i < fast.length; i += 1) {
+        const [f0, s0, f1, s1] = [fast[i - 1], slow[i - 1], fast[i], slow[i]];
+        if (f0 === null || s0 === null || f1 === null || s1 === null) continue;
+        if (f0 <= s0 && f1 > s1) result.push({ index: i, type: 'golden' });
+        else if (f0 >= s0 && f1 < s1) result.push({ index: i, type: 'death' });
+    }
+    return result;
+}
+
+// --- 指标目录（接口与 Agent 工具共用） ---
+
+/**
+ * 指标计算结果：若干条与 K 线对齐的序列，外加最新一根 K 线的解读
+ */
+export interface IndicatorOutput {
+    series: Record<string, Series>;
+    /** 最新信号，如 Overbought / GoldenCross / AboveUpperBand */
+    signal?: string;
+    /** 交叉等事件（序号对应 K 线） */
+    events?: Array<{ index: number; date: string; type: string }>;
+}
+
+export interface IndicatorDefinition<S extends z.ZodRawShape = z.ZodRawShape> {
+    name: string;
+    /** 中文名称与用法（同时作为 Agent 工具说明） */
+    description: string;
+    /** 参数（均有默认值） */
+    params: z.ZodObject<S>;
+    /** 计算所需的最少 K 线数 */
+    minBars(params: z.output<z.ZodObject<S>>): number;
+    compute(bars: IndicatorBar[], params: z.output<z.ZodObject<S>>): IndicatorOutput;
+}
+
+function defineIndicator<S extends z.ZodRawShape>(definition: IndicatorDefinition<S>): IndicatorDefinition {
+    return definition as unknown as IndicatorDefinition;
+}
+
+const period = (fallback: number, description: string, max = 250) =>
+    z.number().int().min(1).max(max).default(fallback).describe(`${description}，默认 ${fallback}`);
+
+function last(series: Series): number | null {
+    return series.length > 0 ? series[series.length - 1] : null;
+}
+
+function toEvents(bars: IndicatorBar[], points: Array<{ index: number; type: string }>) {
+    return points.map(({ index, type }) => ({ index, date: bars[index].date, type }));
+}
+
+/**
+ * 最新一根 K 线上的交叉（金叉 / 死叉），没有时按两线位置给出多空
+ */
+function crossSignal(fast: Series, slow: Series, length: number): string | undefined {
+    const cross = crossovers(fast, slow).find((point) => point.index === length - 1);
+    if (cross) return cross.type === 'golden' ? 'GoldenCross' : 'DeathCross';
+    const [f, s] = [last(fast), last(slow)];
+    if (f === null || s === null) return undefined;
+    return f > s ? 'Bullish' : 'Bearish';
+}
+
+const definitions: IndicatorDefinition[] = [
+    defineIndicator({
+        name: 'rsi',
+        description: 'RSI 相对强弱指标（Wilder 平滑），高于 70 为超买、低于 30 为超卖',
+        params: z.object({ period: period(14, 'RSI 周期', 100) }),
+        minBars: ({ period }) => period + 1,
+        compute: (bars, { period }) => {
+            const values = rsi(bars.map((bar) => bar.close), period);
+            const value = last(values);
+            const signal = value === null ? undefined : value > 70 ? 'Overbought' : value < 30 ? 'Oversold' : 'Neutral';
+            return { series: { rsi: values }, signal };
+        },
+    }),
+    defineIndicator({
+        name: 'macd',
+        description: 'MACD 指标（DIF、DEA 与 2×(DIF-DEA) 柱），DIF 上穿 DEA 为金叉、下穿为死叉',
+        params: z.object({ fast: period(12, '快线 EMA 周期'), slow: period(26, '慢线 EMA 周期'), signalPeriod: period(9, 'DEA 周期') }),
+        minBars: ({ slow, signalPeriod }) => slow + signalPeriod - 1,
+        compute: (bars, { fast, slow, signalPeriod }) => {
+            if (fast >= slow) {
+                throw Object.assign(new Error('MACD 的 fast 必须小于 slow'), { status: 400 });
+            }
+            const { dif, dea, histogram } = macd(bars.map((bar) => bar.close), fast, slow, signalPeriod);
+            return {
+                series: { dif, dea, histogram },
+                signal: crossSignal(dif, dea, bars.length),
+                events: toEvents(bars, crossovers(dif, dea)),
+            };
+        },
+    }),
+    defineIndicator({
+        name: 'boll',
+        description: '布林带（中轨 SMA ± 倍数×标准差、带宽、%B），收盘价突破上轨 / 跌破下轨提示超买 / 超卖或趋势加速',
+        params: z.object({
+            period: period(20, '中轨周期'),
+            multiplier: z.number().min(0.5).max(5).default(2).describe('标准差倍数，默认 2'),
+        }),
+        minBars: ({ period }) => period,
+        compute: (bars, { period, multiplier }) => {
+            const bands = bollinger(bars.map((bar) => bar.close), period, multiplier);
+            const [close, upper, lower] = [bars[bars.length - 1]?.close, last(bands.upper), last(bands.lower)];
+            const signal =
+                upper === null || lower === null ? undefined : close > upper ? 'AboveUpperBand' : close < lower ? 'BelowLowerBand' : 'InsideBands';
+            return { series: bands, signal };
+        },
+    }),
+    defineIndicator({
+        name: 'kdj',
+        description: 'KDJ 随机指标，K 高于 80 或 J 高于 100 为超买，K 低于 20 或 J 低于 0 为超卖，K 上穿 D 为金叉',
+        params: z.object({ n: period(9, 'RSV 周期'), m1: period(3, 'K 值平滑周期', 50), m2: period(3, 'D 值平滑周期', 50) }),
+        minBars: ({ n }) => n,
+        compute: (bars, { n, m1, m2 }) => {
+            const { k, d, j } = kdj(bars, n, m1, m2);
+            const [kValue, jValue] = [last(k), last(j)];
+            let signal = crossSignal(k, d, bars.length);
+            if (kValue !== null && jValue !== null && !signal?.endsWith('Cross')) {
+                if (kValue > 80 || jValue > 100) signal = 'Overbought';
+                else if (kValue < 20 || jValue < 0) signal = 'Oversold';
+            }
+            return { series: { k, d, j }, signal, events: toEvents(bars, crossovers(k, d)) };
+        },
+    }),
+    defineIndicator({
+        name: 'ma_cross',
+        description: '均线交叉（SMA 或 EMA 快慢线），快线上穿慢线为金叉、下穿为死叉',
+        params: z.object({
+            fast: period(5, '快线周期'),
+            slow: period(20, '慢线周期'),
+            type: z.enum(['sma', 'ema']).default('sma').describe('均线类型，默认 sma'),
+        }),
+        minBars: ({ slow }) => slow + 1,
+        compute: (bars, { fast, slow, type }) => {
+            if (fast >= slow) {
+                throw Object.assign(new Error('均线交叉的 fast 必须小于 slow'), { status: 400 });
+            }
+            const closes = bars.map((bar) => bar.close);
+            const average = type === 'ema' ? ema : sma;
+            const [fastLine, slowLine] = [average(closes, fast), average(closes, slow)];
+            return {
+                series: { fast: fastLine, slow: slowLine },
+                signal: crossSignal(fastLine, slowLine, bars.length),
+                events: toEvents(bars, crossovers(fastLine, slowLine)),
+            };
+        },
+    }),
+    defineIndicator({
+        name: 'atr',
+        description: 'ATR 平均真实波幅（Wilder 平滑）及其占收盘价的百分比，衡量波动大小，常用于设置止损距离',
+        params: z.object({ period: period(14, 'ATR 周期', 100) }),
+        minBars: ({ period }) => period,
+        compute: (bars, { period }) => {
+            const values = atr(bars, period);
+            const percent = values.map((value, i) => (value === null || bars[i].close === 0 ? null : (value / bars[i].close) * 100));
+            return { series: { atr: values, atrPercent: percent } };
+        },
+    }),
+    defineIndicator({
+        name: 'obv',
+        description: 'OBV 能量潮（收涨累加成交量、收跌累减）及其均线，OBV 在均线之上说明量能配合上涨',
+        params: z.object({ period: period(20, 'OBV 均线周期') }),
+        minBars: ({ period }) => period,
+        compute: (bars, { period }) => {
+            const values = obv(bars);
+            const average = sma(values.map((value) => value ?? 0), period);
+            const [value, mean] = [last(values), last(average)];
+            return {
+                series: { obv: values, obvMa: average },
+                signal: value === null || mean === null ? undefined : value >= mean ? 'Accumulation' : 'Distribution',
+            };
+        },
+    }),
+    defineIndicator({
+        name: 'vwap',
+        description: '成交量加权均价：区间累计 VWAP 与滚动 VWMA，收盘价在其之上说明多数成交处于浮盈',
+        params: z.object({ period: period(20, 'VWMA 滚动窗口') }),
+        minBars: ({ period }) => period,
+        compute: (bars, { period }) => {
+            const cumulative = vwap(bars);
+            const rolling = vwap(bars, period);
+            const [close, value] = [bars[bars.length - 1]?.close, last(rolling)];
+            return {
+                series: { vwap: cumulative, vwma: rolling },
+                signal: value === null ? undefined : close >= value ? 'AboveVWMA' : 'BelowVWMA',
+            };
+        },
+    }),
+];
+
+export const indicatorNames = definitions.map((definition) => definition.name) as [string, ...string[]];
+
+/**
+ * 已支持的指标
+ * @returns {IndicatorDefinition[]} 指标定义
+ */
+export function listIndicators(): IndicatorDefinition[] {
+    return definitions;
+}
+
+/**
+ * 获取指标定义
+ * @param {string} name 指标名
+ * @returns {IndicatorDefinition} 指标定义（未知指标抛出 400）
+ */
+export function getIndicator(name: string): IndicatorDefinition {
+    const definition = definitions.find((item) => item.name === name);
+    if (!definition) {
+        throw Object.assign(new Error(`未知的指标: ${name}（可选：${indicatorNames.join(', ')}）`), { status: 400 });
+    }
+    return definition;
+}
+
+/**
+ * 计算指标（校验参数与 K 线数量）
+ * @param {IndicatorBar[]} bars K 线（按时间升序）
+ * @param {string} name 指标名
+ * @param {Record<string, unknown>} [params] 参数，缺省项使用默认值
+ * @returns {IndicatorOutput & { params: Record<string, unknown> }} 计算结果及实际使用的参数
+ */
+export function computeIndicator(
+    bars: IndicatorBar[],
+    name: string,
+    params: Record<string, unknown> = {}
+): IndicatorOutput & { params: Record<string, unknown> } {
+    const definition = getIndicator(name);
+    const parsed = definition.params.safeParse(params);
+    if (!parsed.success) {
+        const detail = parsed.error.issues.map((issue) => `${issue.path.join('.') || name}: ${issue.message}`).join('；');
+        throw Object.assign(new Error(`指标 ${name} 参数无效：${detail}`), { status: 400 });
+    }
+    const required = definition.minBars(parsed.data);
+    if (bars.length < required) {
+        throw Object.assign(new Error(`数据不足，无法计算 ${name}：需要至少 ${required} 根 K 线，当前 ${bars.length} 根`), { status: 400 });
+    }
+    return { ...definition.compute(bars, parsed.data), params: parsed.data };
+}
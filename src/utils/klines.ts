@@ -0,0 +1,264 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import { fetchEastmoneyKlines, type EastmoneyKlineBar } from './eastmoney';
+import { normalizeSymbol, type MarketId } from './symbols';
+
+export const klineRanges = ['1mo', '3mo', '6mo', '1y', '2y', '5y'] as const;
+export const klineIntervals = ['1d', '1h', '15m', '5m'] as const;
+/** 复权方式：前复权 / 后复权 / 不复权 */
+export const klineAdjustments = ['qfq', 'hfq', 'none'] as const;
+
+export type KlineRange = (typeof klineRanges)[number];
+export type KlineInterval = (typeof klineIntervals)[number];
+export type KlineAdjustment = (typeof klineAdjustments)[number];
+
+const dateSchema = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, '日期格式应为 YYYY-MM-DD');
+
+/**
+ * K 线查询参数（接口请求体共用）：start 缺省时按 range 从 end（缺省为今天）往前推
+ */
+export const klineQueryShape = {
+    range: z.enum(klineRanges).default('3mo'),
+    start: dateSchema.optional(),
+    end: dateSchema.optional(),
+    interval: z.enum(klineIntervals).default('1d'),
+    adjust: z.enum(klineAdjustments).default('qfq'),
+};
+
+export interface KlineQuery {
+    range?: KlineRange;
+    /** 起止日期 YYYY-MM-DD（含），end 缺省为最新 */
+    start?: string;
+    end?: string;
+    interval?: KlineInterval;
+    adjust?: KlineAdjustment;
+}
+
+export interface KlineSeries {
+    symbol: string;
+    market: MarketId;
+    name?: string;
+    interval: KlineInterval;
+    adjust: KlineAdjustment;
+    start: string;
+    end?: string;
+    /** 按时间升序 */
+    bars: EastmoneyKlineBar[];
+    /** 本次是否请求了东方财富（false 表示全部来自本地缓存） */
+    fetched: boolean;
+    source: 'eastmoney';
+}
+
+const intervalKlt: Record<KlineInterval, number> = { '1d': 101, '1h': 60, '15m': 15, '5m': 5 };
+const adjustFqt: Record<KlineAdjustment, 0 | 1 | 2> = { none: 0, qfq: 1, hfq: 2 };
+const rangeMonths: Record<KlineRange, number> = { '1mo': 1, '3mo': 3, '6mo': 6, '1y': 12, '2y': 24, '5y': 60 };
+
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function tradingDay(date: string): string {
+    return date.slice(0, 10);
+}
+
+/**
+ * 区间起始日：从 end（缺省为今天）往前推 range 个月
+ * @param {KlineRange} range 区间
+ * @param {string} [end] 截止日期 YYYY-MM-DD
+ * @returns {string} 起始日期 YYYY-MM-DD
+ */
+export function rangeStart(range: KlineRange, end?: string): string {
+    const date = end ? new Date(`${end}T00:00:00`) : new Date();
+    date.setMonth(date.getMonth() - rangeMonths[range]);
+    return formatDate(date);
+}
+
+// --- 本地缓存 ---
+
+interface KlineCacheEntry {
+    symbol: string;
+    market: MarketId;
+    name?: string;
+    interval: KlineInterval;
+    adjust: KlineAdjustment;
+    /** 已查询过的最早日期（早于第一根 K 线时说明之前没有数据，如上市日之前） */
+    from: string;
+    /** 最近一次向东方财富拉取最新数据的时间 */
+    updatedAt: string;
+    bars: EastmoneyKlineBar[];
+}
+
+/**
+ * K 线缓存：每个代码 / 周期 / 复权方式一个 JSON 文件
+ */
+export class KlineCache {
+    constructor(private readonly dir: string) {}
+
+    private file(key: string): string {
+        return path.join(this.dir, `${key}.json`);
+    }
+
+    read(key: string): KlineCacheEntry | undefined {
+        const file = this.file(key);
+        if (!fs.existsSync(file)) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf-8')) as KlineCacheEntry;
+        } catch {
+            // 文件损坏时当作没有缓存，下次写入覆盖
+            return undefined;
+        }
+    }
+
+    write(key: string, entry: KlineCacheEntry): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const file = this.file(key);
+        // 临时文件名带进程号与随机后缀，多个进程共用缓存目录时不会互相覆盖
+        const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(entry), 'utf-8');
+        fs.renameSync(tmp, file);
+    }
+}
+
+let klineCache: KlineCache | undefined;
+
+export function getKlineCache(): KlineCache {
+    if (!klineCache) {
+        klineCache = new KlineCache(process.env.KLINE_CACHE_DIR ?? path.join(process.cwd(), 'data/klines'));
+    }
+    return klineCache;
+}
+
+/** 同一缓存文件的更新串行进行，避免并发请求重复拉取、互相覆盖 */
+const pendingUpdates: Map<string, Promise<unknown>> = new Map();
+
+function refreshIntervalMs(): number {
+    const value = Number(process.env.KLINE_CACHE_TTL_MS ?? 60000);
+    return Number.isFinite(value) && value >= 0 ? value : 60000;
+}
+
+/**
+ * 按日期拉取 K 线（含首尾）
+ */
+async function fetchBars(symbol: string, interval: KlineInterval, adjust: KlineAdjustment, beg: string, end?: string) {
+    return fetchEastmoneyKlines(symbol, {
+        klt: intervalKlt[interval],
+        fqt: adjustFqt[adjust],
+        lmt: 1000000,
+        beg: beg.replace(/-/g, ''),
+        end: end?.replace(/-/g, ''),
+    });
+}
+
+/**
+ * 让缓存覆盖 [start, 最新]：缺早期数据时补拉到缓存的第一根 K 线，缺最新数据时从最后两根 K 线起增量拉取；
+ * 两种情况下重叠的 K 线收盘价不一致（除权后复权价整体变化）时都丢弃缓存重新拉取
+ */
+async function updateCache(
+    key: string,
+    symbol: string,
+    interval: KlineInterval,
+    adjust: KlineAdjustment,
+    start: string,
+    end: string | undefined
+): Promise<{ entry: KlineCacheEntry; fetched: boolean }> {
+    const cache = getKlineCache();
+    let entry = cache.read(key);
+    let fetched = false;
+
+    const fetchAll = async (from: string): Promise<KlineCacheEntry> => {
+        fetched = true;
+        const data = await fetchBars(symbol, interval, adjust, from);
+        return { symbol: data.symbol, market: data.market, name: data.name, interval, adjust, from, updatedAt: new Date().toISOString(), bars: data.bars };
+    };
+
+    if (!entry) {
+        entry = await fetchAll(start);
+    } else {
+        const bars = entry.bars;
+        const lastDay = bars.length > 0 ? tradingDay(bars[bars.length - 1].date) : entry.from;
+        const stale = Date.now() - Date.parse(entry.updatedAt) > refreshIntervalMs();
+        if ((!end || end >= lastDay) && stale) {
+            // 最后一根可能是未收盘的 K 线，倒数第二根用于核对复权价是否变化
+            const anchor = bars.length >= 2 ? bars[bars.length - 2] : undefined;
+            fetched = true;
+            const recent = await fetchBars(symbol, interval, adjust, anchor ? tradingDay(anchor.date) : lastDay);
+            const overlap = anchor && recent.bars.find((bar) => bar.date === anchor.date);
+            if (anchor && (!overlap || Math.abs(overlap.close - anchor.close) > 1e-6)) {
+                entry = await fetchAll(entry.from < start ? entry.from : start);
+            } else {
+                const first = recent.bars[0]?.date;
+                entry = {
+                    ...entry,
+                    name: recent.name ?? entry.name,
+                    updatedAt: new Date().toISOString(),
+                    bars: first ? [...bars.filter((bar) => bar.date < first), ...recent.bars] : bars,
+                };
+            }
+        }
+        if (start < entry.from) {
+            fetched = true;
+            // 补拉到缓存的第一根 K 线为止，用它核对复权基准：不一致时新旧两段不能拼接，整体重新拉取
+            const earliest = entry.bars[0];
+            const older = await fetchBars(symbol, interval, adjust, start, earliest ? tradingDay(earliest.date) : entry.from);
+            const overlap = earliest && older.bars.find((bar) => bar.date === earliest.date);
+            if (earliest && (!overlap || Math.abs(overlap.close - earliest.close) > 1e-6)) {
+                entry = await fetchAll(start);
+            } else {
+                entry = {
+                    ...entry,
+                    from: start,
+                    bars: [...older.bars.filter((bar) => !earliest || bar.date < earliest.date), ...entry.bars],
+                };
+            }
+        }
+    }
+
+    if (fetched) cache.write(key, entry);
+    return { entry, fetched };
+}
+
+/**
+ * 获取 K 线（东方财富，A 股 / 港股），优先读本地缓存，只拉取缓存中缺少的区间
+ * @param {string} symbol 股票代码
+ * @param {KlineQuery} [query] 日期区间（start / end，或 range）、K 线周期与复权方式
+ * @returns {Promise<KlineSeries>} K 线
+ */
+export async function fetchKlineSeries(symbol: string, query: KlineQuery = {}): Promise<KlineSeries> {
+    const normalized = normalizeSymbol(symbol);
+    const interval = query.interval ?? '1d';
+    const adjust = query.adjust ?? 'qfq';
+    const end = query.end;
+    const start = query.start ?? rangeStart(query.range ?? '3mo', end);
+    if (end && start > end) {
+        throw Object.assign(new Error(`起始日期 ${start} 晚于截止日期 ${end}`), { status: 400 });
+    }
+
+    const key = `${normalized.symbol}_${interval}_${adjust}`;
+    // 等同一文件上正在进行的更新完成后再读缓存
+    const update = (pendingUpdates.get(key) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => updateCache(key, normalized.symbol, interval, adjust, start, end));
+    const settled = update.catch(() => undefined);
+    pendingUpdates.set(key, settled);
+    const { entry, fetched } = await update.finally(() => {
+        if (pendingUpdates.get(key) === settled) pendingUpdates.delete(key);
+    });
+
+    return {
+        symbol: entry.symbol,
+        market: entry.market,
+        name: entry.name,
+        interval,
+        adjust,
+        start,
+        end,
+        bars: entry.bars.filter((bar) => tradingDay(bar.date) >= start && (!end || tradingDay(bar.date) <= end)),
+        fetched,
+        source: 'eastmoney',
+    };
+}
@@ -0,0 +1,241 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatMistralAI } from '@langchain/mistralai';
+
+import { createDashScopeChatModel } from './dashscope';
+import { TokenUsageCallbackHandler } from './callbacks';
+
+/**
+ * 模型选择器：路由请求体中的 provider / model 字段
+ * - model 可以是完整的 "provider:model" 写法，此时忽略 provider
+ * - 例：dashscope:qwen-plus、mistral:mistral-small-latest、ollama:qwen2.5:7b、
+ *   openai-compatible:http://localhost:8080/v1/llama-3-8b（最后一段为模型名）
+ */
+export interface ModelSelector {
+    provider?: string;
+    model?: string;
+}
+
+/**
+ * 解析后的模型规格
+ */
+export interface ResolvedModelSpec {
+    provider: string;
+    model: string;
+    /** 仅 openai-compatible 类提供方使用 */
+    baseURL?: string;
+    /** 规范化的 "provider:model" 字符串，便于日志与返回 */
+    spec: string;
+}
+
+export interface ChatModelOptions {
+    temperature?: number;
+    maxTokens?: number;
+    /** 仅 DashScope 支持：开启模型内置联网搜索 */
+    enableSearch?: boolean;
+}
+
+export interface LlmProvider {
+    name: string;
+    description: string;
+    /** 未指定模型时使用的默认模型 */
+    defaultModel(): string;
+    /** 常用模型（用于 /v1/models 列表展示，不限制可用模型） */
+    knownModels?: string[];
+    /** 把 spec 中 provider 之后的部分拆成 model / baseURL */
+    parse(rest: string): { model: string; baseURL?: string };
+    create(spec: ResolvedModelSpec, options: ChatModelOptions): BaseChatModel;
+}
+
+/**
+ * 读取环境变量（去除两侧引号与空格）
+ * @param {string} name 变量名
+ * @returns {string | undefined} 变量值
+ */
+function readEnv(name: string): string | undefined {
+    const value = (process.env[name] ?? '').trim().replace(/^['"]|['"]$/g, '');
+    return value || undefined;
+}
+
+/**
+ * openai-compatible 允许访问的主机，防止请求方借 baseURL 让服务端访问任意地址
+ * @returns {string[]} 主机名列表
+ */
+function getAllowedCompatibleHosts(): string[] {
+    const raw = readEnv('OPENAI_COMPATIBLE_ALLOWED_HOSTS') ?? 'localhost,127.0.0.1,host.docker.internal';
+    return raw.split(',').map((h) => h.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * 创建 OpenAI 兼容协议的聊天模型（本地 Ollama、llama.cpp server、vLLM 等）
+ * @param {ResolvedModelSpec} spec 模型规格
+ * @param {ChatModelOptions} options 模型参数
+ * @returns {ChatOpenAI} 模型实例
+ */
+function createOpenAICompatibleChatModel(spec: ResolvedModelSpec, options: ChatModelOptions): ChatOpenAI {
+    return new ChatOpenAI({
+        // 本地服务通常不校验 key，但 SDK 要求非空
+        apiKey: readEnv('OPENAI_COMPATIBLE_API_KEY') ?? 'not-needed',
+        model: spec.model,
+        temperature: options.temperature ?? 0,
+        maxTokens: options.maxTokens,
+        configuration: {
+            baseURL: spec.baseURL,
+        },
+    });
+}
+
+/**
+ * 固定 baseURL 的本地提供方（ollama / llamacpp），rest 整体即模型名（允许包含冒号，如 qwen2.5:7b）
+ */
+function createLocalProvider(name: string, description: string, baseUrlEnv: string, defaultBaseUrl: string, defaultModelEnv: string, fallbackModel: string): LlmProvider {
+    return {
+        name,
+        description,
+        defaultModel: () => readEnv(defaultModelEnv) ?? fallbackModel,
+        parse: (rest) => ({ model: rest, baseURL: readEnv(baseUrlEnv) ?? defaultBaseUrl }),
+        create: createOpenAICompatibleChatModel,
+    };
+}
+
+const providers: Map<string, LlmProvider> = new Map();
+
+/**
+ * 注册（或覆盖）一个模型提供方
+ * @param {LlmProvider} provider 提供方
+ * @returns {void}
+ */
+export function registerLlmProvider(provider: LlmProvider): void {
+    providers.set(provider.name, provider);
+}
+
+registerLlmProvider({
+    name: 'dashscope',
+    description: '阿里云 DashScope（通义千问，OpenAI compatible-mode）',
+    defaultModel: () => readEnv('DASHSCOPE_MODEL') ?? 'qwen-plus',
+    knownModels: ['qwen-plus', 'qwen-turbo', 'qwen-max', 'qwen-vl-plus', 'qwen-vl-max'],
+    parse: (rest) => ({ model: rest }),
+    create: (spec, options) => createDashScopeChatModel({
+        model: spec.model,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        enableSearch: options.enableSearch,
+    }),
+});
+
+registerLlmProvider({
+    name: 'mistral',
+    description: 'Mistral AI',
+    defaultModel: () => readEnv('MISTRAL_MODEL') ?? 'mistral-small-latest',
+    knownModels: ['mistral-small-latest', 'mistral-medium-latest', 'mistral-large-latest'],
+    parse: (rest) => ({ model: rest }),
+    create: (spec, options) => {
+        const apiKey = readEnv('MISTRAL_API_KEY');
+        if (!apiKey) {
+            throw Object.assign(new Error('缺少 MISTRAL_API_KEY 环境变量'), { status: 500 });
+        }
+        return new ChatMistralAI({
+            apiKey,
+            model: spec.model,
+            temperature: options.temperature ?? 0,
+            maxTokens: options.maxTokens,
+        });
+    },
+});
+
+registerLlmProvider({
+    name: 'openai-compatible',
+    description: '任意 OpenAI 兼容服务，写法 openai-compatible:<baseURL>/<model>',
+    defaultModel: () => readEnv('OPENAI_COMPATIBLE_MODEL') ?? '',
+    parse: (rest) => {
+        const slash = rest.lastIndexOf('/');
+        if (slash <= 0 || slash === rest.length - 1) {
+            throw Object.assign(new Error(`openai-compatible 模型格式应为 openai-compatible:<baseURL>/<model>，收到: ${rest}`), { status: 400 });
+        }
+        const baseURL = rest.slice(0, slash);
+        let host: string;
+        try {
+            host = new URL(baseURL).hostname.toLowerCase();
+        } catch {
+            throw Object.assign(new Error(`openai-compatible baseURL 不合法: ${baseURL}`), { status: 400 });
+        }
+        if (!getAllowedCompatibleHosts().includes(host)) {
+            throw Object.assign(new Error(`openai-compatible 主机 ${host} 不在 OPENAI_COMPATIBLE_ALLOWED_HOSTS 中`), { status: 400 });
+        }
+        return { model: rest.slice(slash + 1), baseURL };
+    },
+    create: createOpenAICompatibleChatModel,
+});
+
+registerLlmProvider(createLocalProvider('ollama', '本地 Ollama（OpenAI 兼容接口）', 'OLLAMA_BASE_URL', 'http://localhost:11434/v1', 'OLLAMA_MODEL', 'qwen2.5:7b'));
+registerLlmProvider(createLocalProvider('llamacpp', '本地 llama.cpp server（OpenAI 兼容接口）', 'LLAMACPP_BASE_URL', 'http://localhost:8080/v1', 'LLAMACPP_MODEL', 'default'));
+
+/**
+ * 列出已注册的提供方
+ * @returns {Array<{ name: string; description: string; defaultModel: string; knownModels: string[] }>} 提供方列表
+ */
+export function listLlmProviders(): Array<{ name: string; description: string; defaultModel: string; knownModels: string[] }> {
+    return [...providers.values()].map((p) => ({
+        name: p.name,
+        description: p.description,
+        defaultModel: p.defaultModel(),
+        knownModels: p.knownModels ?? [],
+    }));
+}
+
+function getProviderOrThrow(name: string): LlmProvider {
+    const provider = providers.get(name);
+    if (!provider) {
+        throw Object.assign(new Error(`未知的模型提供方: ${name}（可选 ${[...providers.keys()].join(' | ')}）`), { status: 400 });
+    }
+    return provider;
+}
+
+/**
+ * 解析模型选择器
+ * 优先级：model 中的 "provider:" 前缀 > selector.provider > defaults.provider；模型名缺省时使用 defaults.model 或提供方默认模型
+ * @param {ModelSelector} selector 请求传入的 provider / model
+ * @param {ModelSelector} defaults 路由默认值
+ * @returns {ResolvedModelSpec} 解析结果
+ */
+export function resolveModelSpec(selector: ModelSelector, defaults: ModelSelector = {}): ResolvedModelSpec {
+    let providerName = selector.provider?.trim() || undefined;
+    let rest = selector.model?.trim() || undefined;
+
+    // 只有冒号前是已注册的提供方时才视为前缀，避免误拆 "qwen2.5:7b" 这类带冒号的模型名
+    const colon = rest?.indexOf(':') ?? -1;
+    if (rest && colon > 0 && providers.has(rest.slice(0, colon))) {
+        providerName = rest.slice(0, colon);
+        rest = rest.slice(colon + 1);
+    }
+
+    // 只指定了 provider 时不沿用路由默认模型（默认模型属于路由默认提供方）
+    const useDefaultModel = !providerName || providerName === defaults.provider;
+    providerName = providerName ?? defaults.provider ?? 'dashscope';
+    const provider = getProviderOrThrow(providerName);
+
+    const raw = rest ?? (useDefaultModel ? defaults.model : undefined) ?? provider.defaultModel();
+    if (!raw) {
+        throw Object.assign(new Error(`未指定 ${providerName} 的模型名`), { status: 400 });
+    }
+    const { model, baseURL } = provider.parse(raw);
+    return { provider: providerName, model, baseURL, spec: `${providerName}:${raw}` };
+}
+
+/**
+ * 按规格创建聊天模型
+ * @param {ResolvedModelSpec | ModelSelector | string} spec 已解析的规格、选择器或 "provider:model" 字符串
+ * @param {ChatModelOptions} options 模型参数
+ * @returns {BaseChatModel} 模型实例
+ */
+export function createChatModel(spec: ResolvedModelSpec | ModelSelector | string, options: ChatModelOptions = {}): BaseChatModel {
+    const resolved = typeof spec === 'string'
+        ? resolveModelSpec({ model: spec })
+        : 'spec' in spec
+            ? spec
+            : resolveModelSpec(spec);
+    const model = getProviderOrThrow(resolved.provider).create(resolved, options);
+    // 统计 token 用量（用量账本与 API Key 每日配额据此计算）
+    model.callbacks = [new TokenUsageCallbackHandler(resolved.spec)];
+    return model;
+}
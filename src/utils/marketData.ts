@@ -0,0 +1,178 @@
+import { getJson, getText } from './axios';
+import { fetchEastmoneyQuote } from './eastmoney';
+import { marketCurrencies, normalizeSymbol, type MarketId, type NormalizedSymbol, type QuoteCurrency } from './symbols';
+
+/**
+ * 实时报价（各数据源统一结构，缺失的字段省略）
+ */
+export interface MarketQuote {
+    /** 规范代码：600519.SH、00700.HK、AAPL */
+    symbol: string;
+    market: MarketId;
+    name?: string;
+    price: number;
+    change?: number;
+    /** 涨跌幅（%） */
+    changePercent?: number;
+    prevClose?: number;
+    open?: number;
+    high?: number;
+    low?: number;
+    /** 成交量（股） */
+    volume?: number;
+    /** 成交额（交易币种） */
+    amount?: number;
+    currency: QuoteCurrency | string;
+    /** 报价时间（数据源未给出时为获取时间） */
+    timestamp: string;
+    source: string;
+}
+
+/**
+ * 行情数据源
+ */
+export interface MarketDataProvider {
+    name: string;
+    description: string;
+    /** 支持的市场 */
+    markets: MarketId[];
+    fetchQuote(symbol: NormalizedSymbol): Promise<MarketQuote>;
+}
+
+const providers: Map<string, MarketDataProvider> = new Map();
+
+/**
+ * 注册（或覆盖）一个行情数据源；同一市场按注册顺序依次尝试，前一个失败时换下一个
+ * @param {MarketDataProvider} provider 数据源
+ * @returns {void}
+ */
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+    providers.set(provider.name, provider);
+}
+
+/**
+ * 已注册的行情数据源
+ * @returns {Array<{ name: string; description: string; markets: MarketId[] }>} 名称、说明与支持的市场
+ */
+export function listMarketDataProviders(): Array<{ name: string; description: string; markets: MarketId[] }> {
+    return [...providers.values()].map(({ name, description, markets }) => ({ name, description, markets }));
+}
+
+function toNumber(value: unknown): number | undefined {
+    const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function withChange(quote: MarketQuote): MarketQuote {
+    if (quote.prevClose === undefined) return quote;
+    const change = quote.change ?? quote.price - quote.prevClose;
+    const changePercent = quote.changePercent ?? (quote.prevClose !== 0 ? (change / quote.prevClose) * 100 : undefined);
+    return { ...quote, change, changePercent };
+}
+
+/**
+ * Yahoo Finance 代码写法：600519.SS、0700.HK、BRK-B
+ * @param {NormalizedSymbol} symbol 归一化代码
+ * @returns {string} Yahoo 代码
+ */
+function toYahooSymbol(symbol: NormalizedSymbol): string {
+    if (symbol.market === 'CN') return `${symbol.code}.${symbol.exchange === 'SH' ? 'SS' : symbol.exchange}`;
+    if (symbol.market === 'HK') return `${symbol.code.replace(/^0(?=\d{4})/, '')}.HK`;
+    return symbol.code.replace('.', '-');
+}
+
+registerMarketDataProvider({
+    name: 'eastmoney',
+    description: '东方财富（A 股、港股）',
+    markets: ['CN', 'HK'],
+    fetchQuote: (symbol) => fetchEastmoneyQuote(symbol.symbol),
+});
+
+registerMarketDataProvider({
+    name: 'yahoo',
+    description: 'Yahoo Finance chart 接口（美股、港股）',
+    markets: ['US', 'HK'],
+    async fetchQuote(symbol) {
+        const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(toYahooSymbol(symbol))}?range=1d&interval=1d`;
+        const data = await getJson<any>(url);
+        const meta = data?.chart?.result?.[0]?.meta;
+        const price = toNumber(meta?.regularMarketPrice);
+        if (!meta || price === undefined) {
+            throw new Error(`未获取到报价数据：${symbol.symbol}${data?.chart?.error?.description ? `（${data.chart.error.description}）` : ''}`);
+        }
+        return withChange({
+            symbol: symbol.symbol,
+            market: symbol.market,
+            name: meta.longName || meta.shortName || undefined,
+            price,
+            prevClose: toNumber(meta.previousClose) ?? toNumber(meta.chartPreviousClose),
+            high: toNumber(meta.regularMarketDayHigh),
+            low: toNumber(meta.regularMarketDayLow),
+            volume: toNumber(meta.regularMarketVolume),
+            currency: typeof meta.currency === 'string' ? meta.currency.toUpperCase() : symbol.currency,
+            timestamp: new Date(toNumber(meta.regularMarketTime) ? meta.regularMarketTime * 1000 : Date.now()).toISOString(),
+            source: 'yahoo',
+        });
+    },
+});
+
+registerMarketDataProvider({
+    name: 'stooq',
+    description: 'Stooq 日内 CSV（美股，无昨收与涨跌幅）',
+    markets: ['US'],
+    async fetchQuote(symbol) {
+        const stooqSymbol = `${symbol.code.replace('.', '-').toLowerCase()}.us`;
+        const csv = await getText(`https://stooq.com/q/l/?s=${encodeURIComponent(stooqSymbol)}&f=sd2t2ohlcvn&h&e=csv`);
+        // Symbol,Date,Time,Open,High,Low,Close,Volume,Name；无数据时各列为 N/D
+        const [header, row] = csv.trim().split(/\r?\n/);
+        const columns = header?.split(',') ?? [];
+        const values = row?.split(',') ?? [];
+        const get = (name: string) => values[columns.indexOf(name)];
+        const price = toNumber(get('Close'));
+        if (price === undefined) {
+            throw new Error(`未获取到报价数据：${symbol.symbol}`);
+        }
+        const time = Date.parse(`${get('Date')}T${get('Time')}Z`);
+        return {
+            symbol: symbol.symbol,
+            market: symbol.market,
+            name: get('Name') || undefined,
+            price,
+            open: toNumber(get('Open')),
+            high: toNumber(get('High')),
+            low: toNumber(get('Low')),
+            volume: toNumber(get('Volume')),
+            currency: marketCurrencies[symbol.market],
+            timestamp: new Date(Number.isFinite(time) ? time : Date.now()).toISOString(),
+            source: 'stooq',
+        };
+    },
+});
+
+/**
+ * 获取实时报价：按市场选择数据源，失败时依次尝试该市场的其它数据源
+ * @param {string} symbol 股票代码（任意常见写法，见 normalizeSymbol）
+ * @param {{ provider?: string }} [options] provider 指定数据源（不再回退）
+ * @returns {Promise<MarketQuote>} 报价
+ */
+export async function fetchMarketQuote(symbol: string, options: { provider?: string } = {}): Promise<MarketQuote> {
+    const normalized = normalizeSymbol(symbol);
+    const candidates = options.provider
+        ? [providers.get(options.provider)].filter((provider): provider is MarketDataProvider => Boolean(provider))
+        : [...providers.values()].filter((provider) => provider.markets.includes(normalized.market));
+    if (candidates.length === 0 || !candidates.every((provider) => provider.markets.includes(normalized.market))) {
+        throw Object.assign(new Error(`没有支持 ${normalized.symbol}（${normalized.market}）的行情数据源${options.provider ? `：${options.provider}` : ''}`), {
+            status: 400,
+        });
+    }
+
+    const errors: string[] = [];
+    for (const provider of candidates) {
+        try {
+            return await provider.fetchQuote(normalized);
+        } catch (err) {
+            errors.push(`${provider.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    throw Object.assign(new Error(`获取 ${normalized.symbol} 报价失败（${errors.join('；')}）`), { status: 502 });
+}
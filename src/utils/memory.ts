@@ -1,17 +1,60 @@
-import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StringOutputParser } from '@langchain/core/output_parsers';
-import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import {
+    AIMessage,
+    HumanMessage,
+    SystemMessage,
+    mapChatMessagesToStoredMessages,
+    mapStoredMessagesToChatMessages,
+    type BaseMessage,
+    type StoredMessage,
+} from '@langchain/core/messages';
 // InMemoryChatMessageHistory 是 LangChain 框架中用于 在内存中临时存储对话历史 的最基础组件
 import { InMemoryChatMessageHistory } from '@langchain/core/chat_history';
+import { createChatModel } from './llm';
 
+export type MemoryType = 'buffer' | 'window' | 'summary' | 'summary_buffer' | 'entity';
 
+export const memoryTypes: readonly MemoryType[] = ['buffer', 'window', 'summary', 'summary_buffer', 'entity'];
+
+/**
+ * 记忆提供给模型的上下文：额外的系统提示 + 需要拼进 prompt 的历史消息
+ */
+export interface MemoryContext {
+    systemText: string;
+    messages: BaseMessage[];
+}
+
+/**
+ * 可序列化的记忆状态（用于写入会话存储）
+ */
+export interface MemoryState {
+    messages?: StoredMessage[];
+    summary?: string;
+    entities?: Record<string, string>;
+}
+
+/**
+ * 五种记忆策略的统一接口
+ */
+export interface ChatMemory {
+    readonly type: MemoryType;
+    /** 构造本轮 prompt 所需的上下文 */
+    loadContext(): Promise<MemoryContext>;
+    /** 保存一轮问答（摘要/实体类记忆会在这里调用 LLM） */
+    saveTurn(input: string, answer: string): Promise<void>;
+    clear(): Promise<void>;
+    exportState(): Promise<MemoryState>;
+    importState(state: MemoryState): Promise<void>;
+}
 
 /**
  * 1. ConversationBufferMemory（最直观）
  * 把所有历史消息原样保存，每次都拼进 prompt。
  */
-export class ConversationBufferMemory {
+export class ConversationBufferMemory implements ChatMemory {
+    readonly type: MemoryType = 'buffer';
     private readonly chatHistory: InMemoryChatMessageHistory;
 
     constructor() {
@@ -22,6 +65,10 @@ export class ConversationBufferMemory {
         return this.chatHistory.getMessages();
     }
 
+    async loadMessages(messages: BaseMessage[]): Promise<void> {
+        await this.chatHistory.addMessages(messages);
+    }
+
     async addUserMessage(content: string): Promise<void> {
         await this.chatHistory.addMessage(new HumanMessage(content));
     }
@@ -33,13 +80,32 @@ export class ConversationBufferMemory {
     async clear(): Promise<void> {
         await this.chatHistory.clear();
     }
+
+    async loadContext(): Promise<MemoryContext> {
+        return { systemText: '', messages: await this.getMessages() };
+    }
+
+    async saveTurn(input: string, answer: string): Promise<void> {
+        await this.addUserMessage(input);
+        await this.addAiMessage(answer);
+    }
+
+    async exportState(): Promise<MemoryState> {
+        return { messages: mapChatMessagesToStoredMessages(await this.chatHistory.getMessages()) };
+    }
+
+    async importState(state: MemoryState): Promise<void> {
+        await this.chatHistory.clear();
+        await this.loadMessages(mapStoredMessagesToChatMessages(state.messages ?? []));
+    }
 }
 
 /**
  * 2. ConversationBufferWindowMemory (窗口记忆)
  * 只保留最近 k 条消息（例如 k=2 表示保留最近2轮对话，即4条消息）。
  */
-export class ConversationBufferWindowMemory {
+export class ConversationBufferWindowMemory implements ChatMemory {
+    readonly type: MemoryType = 'window';
     private readonly chatHistory: InMemoryChatMessageHistory;
     private readonly k: number;
 
@@ -55,6 +121,10 @@ export class ConversationBufferWindowMemory {
         return messages.length > limit ? messages.slice(-limit) : messages;
     }
 
+    async loadMessages(messages: BaseMessage[]): Promise<void> {
+        await this.chatHistory.addMessages(messages);
+    }
+
     async addUserMessage(content: string): Promise<void> {
         await this.chatHistory.addMessage(new HumanMessage(content));
     }
@@ -66,17 +136,37 @@ export class ConversationBufferWindowMemory {
     async clear(): Promise<void> {
         await this.chatHistory.clear();
     }
+
+    async loadContext(): Promise<MemoryContext> {
+        return { systemText: '', messages: await this.getMessages() };
+    }
+
+    async saveTurn(input: string, answer: string): Promise<void> {
+        await this.addUserMessage(input);
+        await this.addAiMessage(answer);
+    }
+
+    async exportState(): Promise<MemoryState> {
+        // 窗口外的消息不会再被使用，只持久化窗口内的部分
+        return { messages: mapChatMessagesToStoredMessages(await this.getMessages()) };
+    }
+
+    async importState(state: MemoryState): Promise<void> {
+        await this.chatHistory.clear();
+        await this.loadMessages(mapStoredMessagesToChatMessages(state.messages ?? []));
+    }
 }
 
 /**
  * 3. ConversationSummaryMemory (总结记忆)
  * 随着对话进行，不断更新“摘要”。每次只把“摘要”发给 LLM，而不是原始对话。
  */
-export class ConversationSummaryMemory {
+export class ConversationSummaryMemory implements ChatMemory {
+    readonly type: MemoryType = 'summary';
     private summary: string = '';
-    private readonly llm: ChatOpenAI;
+    private readonly llm: BaseChatModel;
 
-    constructor(llm: ChatOpenAI) {
+    constructor(llm: BaseChatModel) {
         this.llm = llm;
     }
 
@@ -104,6 +194,26 @@ export class ConversationSummaryMemory {
             ai: lastAiMessage,
         });
     }
+
+    async clear(): Promise<void> {
+        this.summary = '';
+    }
+
+    async loadContext(): Promise<MemoryContext> {
+        return { systemText: await this.getSystemMessageContent(), messages: [] };
+    }
+
+    async saveTurn(input: string, answer: string): Promise<void> {
+        await this.addAiMessage(input, answer);
+    }
+
+    async exportState(): Promise<MemoryState> {
+        return { summary: this.summary };
+    }
+
+    async importState(state: MemoryState): Promise<void> {
+        this.summary = state.summary ?? '';
+    }
 }
 
 /**
@@ -111,13 +221,14 @@ export class ConversationSummaryMemory {
  * 保留最近 k 条原始消息，之前的消息压缩成 summary。
  * （这是一个高级实现，这里提供一个简化版思路：总是维护 summary + 最近 k 条）
  */
-export class ConversationSummaryBufferMemory {
+export class ConversationSummaryBufferMemory implements ChatMemory {
+    readonly type: MemoryType = 'summary_buffer';
     private summary: string = '';
-    private readonly chatHistory: InMemoryChatMessageHistory;
+    private chatHistory: InMemoryChatMessageHistory;
     private readonly k: number;
-    private readonly llm: ChatOpenAI;
+    private readonly llm: BaseChatModel;
 
-    constructor(llm: ChatOpenAI, k: number = 2) {
+    constructor(llm: BaseChatModel, k: number = 2) {
         this.llm = llm;
         this.chatHistory = new InMemoryChatMessageHistory();
         this.k = k;
@@ -139,6 +250,8 @@ export class ConversationSummaryBufferMemory {
         // 实际工程中通常是定期全量总结或增量总结
         if (messages.length > (this.k + 2) * 2) {
             await this.updateSummary(messages.slice(0, messages.length - this.k * 2));
+            // 已并入摘要的消息不再保留，避免下次重复总结
+            this.chatHistory = new InMemoryChatMessageHistory(messages.slice(-this.k * 2));
         }
     }
 
@@ -160,17 +273,44 @@ export class ConversationSummaryBufferMemory {
             new_lines: textToSummarize
         });
     }
+
+    async clear(): Promise<void> {
+        this.summary = '';
+        await this.chatHistory.clear();
+    }
+
+    async loadContext(): Promise<MemoryContext> {
+        const { summary, recentMessages } = await this.getContext();
+        return { systemText: summary ? `摘要上下文: ${summary}` : '', messages: recentMessages };
+    }
+
+    async saveTurn(input: string, answer: string): Promise<void> {
+        await this.saveContext(input, answer);
+    }
+
+    async exportState(): Promise<MemoryState> {
+        return {
+            summary: this.summary,
+            messages: mapChatMessagesToStoredMessages(await this.chatHistory.getMessages()),
+        };
+    }
+
+    async importState(state: MemoryState): Promise<void> {
+        this.summary = state.summary ?? '';
+        this.chatHistory = new InMemoryChatMessageHistory(mapStoredMessagesToChatMessages(state.messages ?? []));
+    }
 }
 
 /**
  * 5. EntityMemory (实体记忆)
  * 提取对话中的实体（人名、地点等）并保存。
  */
-export class EntityMemory {
+export class EntityMemory implements ChatMemory {
+    readonly type: MemoryType = 'entity';
     private entities: Record<string, string> = {}; // key: 实体名, value: 描述
-    private readonly llm: ChatOpenAI;
+    private readonly llm: BaseChatModel;
 
-    constructor(llm: ChatOpenAI) {
+    constructor(llm: BaseChatModel) {
         this.llm = llm;
     }
 
@@ -184,10 +324,10 @@ export class EntityMemory {
         const prompt = ChatPromptTemplate.fromTemplate(`
         请从下面这句话中提取关键实体（人名、地名、产品名），并简要描述。
         如果提到已知实体，请更新描述。
-        
+
         已知实体: {entities}
         当前输入: {input}
-        
+
         请只输出 JSON 格式，例如 {{"小明": "用户的朋友", "北京": "首都"}}。如果没有新实体，输出 {{}}。
         `);
 
@@ -204,50 +344,72 @@ export class EntityMemory {
             console.error('实体提取失败', e);
         }
     }
+
+    async clear(): Promise<void> {
+        this.entities = {};
+    }
+
+    async loadContext(): Promise<MemoryContext> {
+        return { systemText: await this.getEntityContext(), messages: [] };
+    }
+
+    async saveTurn(input: string): Promise<void> {
+        // 实体记忆通常只在 User 输入时提取，或者同时处理 User/AI
+        await this.saveContext(input);
+    }
+
+    async exportState(): Promise<MemoryState> {
+        return { entities: { ...this.entities } };
+    }
+
+    async importState(state: MemoryState): Promise<void> {
+        this.entities = { ...(state.entities ?? {}) };
+    }
 }
 
 /**
  * 创建千问 Chat 模型（DashScope compatible-mode）
  * @param {{ model?: string; temperature?: number } | undefined} options 可选参数
- * @returns {ChatOpenAI} 模型实例
+ * @returns {BaseChatModel} 模型实例
  */
-export function createQwenChatModel(options?: { model?: string; temperature?: number }): ChatOpenAI {
-    return new ChatOpenAI({
-        apiKey: process.env.DASHSCOPE_API_KEY,
-        model: options?.model ?? 'qwen-plus',
-        temperature: options?.temperature ?? 0,
-        configuration: {
-            baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
-        },
-    });
+export function createQwenChatModel(options?: { model?: string; temperature?: number }): BaseChatModel {
+    return createChatModel(
+        { provider: 'dashscope', model: options?.model ?? 'qwen-plus' },
+        { temperature: options?.temperature ?? 0 }
+    );
+}
+
+/**
+ * 按策略创建记忆实例
+ * @param {MemoryType} type 记忆策略
+ * @param {{ k?: number; llm?: BaseChatModel }} options k 为窗口轮数；llm 为摘要/实体提取使用的模型
+ * @returns {ChatMemory} 记忆实例
+ */
+export function createChatMemory(type: MemoryType, options: { k?: number; llm?: BaseChatModel } = {}): ChatMemory {
+    const llm = () => options.llm ?? createQwenChatModel();
+    switch (type) {
+        case 'buffer':
+            return new ConversationBufferMemory();
+        case 'window':
+            return new ConversationBufferWindowMemory(options.k);
+        case 'summary':
+            return new ConversationSummaryMemory(llm());
+        case 'summary_buffer':
+            return new ConversationSummaryBufferMemory(llm(), options.k);
+        case 'entity':
+            return new EntityMemory(llm());
+    }
 }
 
 /**
  * 通用对话辅助函数（支持不同 Memory 类型）
  */
-export async function chatWithMemory(
-    memory: any, // 这是一个演示用的通用类型，实际应定义接口
-    input: string,
-    type: 'buffer' | 'window' | 'summary' | 'summary_buffer' | 'entity'
-): Promise<string> {
+export async function chatWithMemory(memory: ChatMemory, input: string): Promise<string> {
     const model = createQwenChatModel({ model: 'qwen-plus', temperature: 0 });
-    let messages: BaseMessage[] = [];
-    let systemText = '';
 
     // 1. 构造 Prompt 上下文
-    if (type === 'buffer' || type === 'window') {
-        const history = await memory.getMessages();
-        messages = [...history];
-    } else if (type === 'summary') {
-        systemText = await memory.getSystemMessageContent();
-    } else if (type === 'summary_buffer') {
-        const { summary, recentMessages } = await memory.getContext();
-        systemText = summary ? `摘要上下文: ${summary}` : '';
-        messages = [...recentMessages];
-    } else if (type === 'entity') {
-        systemText = await memory.getEntityContext();
-    }
-
+    const { systemText, messages: history } = await memory.loadContext();
+    const messages: BaseMessage[] = [...history];
     if (systemText) {
         messages.unshift(new SystemMessage(systemText));
     }
@@ -258,17 +420,7 @@ export async function chatWithMemory(
     const answer = typeof result.content === 'string' ? result.content : String(result.content);
 
     // 3. 更新记忆
-    if (type === 'buffer' || type === 'window') {
-        await memory.addUserMessage(input);
-        await memory.addAiMessage(answer);
-    } else if (type === 'summary') {
-        await memory.addAiMessage(input, answer);
-    } else if (type === 'summary_buffer') {
-        await memory.saveContext(input, answer);
-    } else if (type === 'entity') {
-        // 实体记忆通常只在 User 输入时提取，或者同时处理 User/AI
-        await memory.saveContext(input);
-    }
+    await memory.saveTurn(input, answer);
 
     return answer;
 }
@@ -281,24 +433,24 @@ export async function demoAllMemories() {
 
     console.log('--- 1. Buffer Memory ---');
     const m1 = new ConversationBufferMemory();
-    await chatWithMemory(m1, '我叫小明', 'buffer');
-    console.log('Ask:', await chatWithMemory(m1, '我叫什么？', 'buffer'));
+    await chatWithMemory(m1, '我叫小明');
+    console.log('Ask:', await chatWithMemory(m1, '我叫什么？'));
 
     console.log('\n--- 2. Window Memory (k=1) ---');
     const m2 = new ConversationBufferWindowMemory(1);
-    await chatWithMemory(m2, '我是小红', 'window');
-    await chatWithMemory(m2, '我喜欢吃苹果', 'window');
+    await chatWithMemory(m2, '我是小红');
+    await chatWithMemory(m2, '我喜欢吃苹果');
     // 下一句因为 k=1，"我是小红" 应该被遗忘了（或者在更严格的实现里被截断）
-    console.log('Ask:', await chatWithMemory(m2, '我叫什么？', 'window'));
+    console.log('Ask:', await chatWithMemory(m2, '我叫什么？'));
 
     console.log('\n--- 3. Summary Memory ---');
     const m3 = new ConversationSummaryMemory(model);
-    await chatWithMemory(m3, '我计划去旅行，第一站去巴黎。', 'summary');
-    await chatWithMemory(m3, '然后去伦敦。', 'summary');
-    console.log('Ask:', await chatWithMemory(m3, '我的旅行计划是什么？', 'summary'));
+    await chatWithMemory(m3, '我计划去旅行，第一站去巴黎。');
+    await chatWithMemory(m3, '然后去伦敦。');
+    console.log('Ask:', await chatWithMemory(m3, '我的旅行计划是什么？'));
 
     console.log('\n--- 4. Entity Memory ---');
     const m5 = new EntityMemory(model);
-    await chatWithMemory(m5, '我的老板叫张三，他喜欢喝咖啡。', 'entity');
-    console.log('Ask:', await chatWithMemory(m5, '张三是谁？他喜欢什么？', 'entity'));
-}
\ No newline at end of file
+    await chatWithMemory(m5, '我的老板叫张三，他喜欢喝咖啡。');
+    console.log('Ask:', await chatWithMemory(m5, '张三是谁？他喜欢什么？'));
+}
@@ -0,0 +1,139 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+
+import type { RagChunkLocation } from './ragLoaders';
+import type { RetrievalHit } from './ragRetrieval';
+import type { RagChunk } from './ragStore';
+
+/**
+ * 问答引用的一个来源（编号与回答中的 [n] 对应）
+ */
+export interface RagCitationSource {
+    /** 引用编号，从 1 开始 */
+    index: number;
+    chunkId: string;
+    collection: string;
+    docId: string;
+    /** 文件名 / URL / 调用方给出的来源 */
+    fileName: string;
+    title?: string;
+    pageNumber?: number;
+    lines?: { from: number; to: number };
+    headingPath?: string[];
+    rows?: { from: number; to: number };
+    items?: { from: number; to: number };
+    /** 压缩包内路径 */
+    entry?: string;
+    /** 余弦相似度（仅关键词命中的片段为 null） */
+    score: number | null;
+    text: string;
+    /** 回答中是否引用了该来源 */
+    cited: boolean;
+}
+
+/**
+ * 来源位置的简短描述，如 "report.pdf 第 3 页"、"faq.md 第 10-24 行 · 安装 > 常见问题"
+ * @param {RagChunk} chunk 片段
+ * @returns {string} 描述
+ */
+function describeLocation(chunk: RagChunk): string {
+    const loc = chunk.loc as RagChunkLocation;
+    const parts = [loc.entry ? `${chunk.source}/${loc.entry}` : chunk.source];
+    if (loc.pageNumber) parts.push(`第 ${loc.pageNumber} 页`);
+    else if (loc.lines) parts.push(`第 ${loc.lines.from}-${loc.lines.to} 行`);
+    if (loc.rows) parts.push(`第 ${loc.rows.from}-${loc.rows.to} 行数据`);
+    if (loc.items) parts.push(`第 ${loc.items.from}-${loc.items.to} 条记录`);
+    const description = parts.join(' ');
+    return loc.headingPath?.length ? `${description} · ${loc.headingPath.join(' > ')}` : description;
+}
+
+/**
+ * 拼接带编号的背景信息，供提示词使用
+ * @param {RetrievalHit[]} hits 检索结果（顺序即编号）
+ * @returns {string} 形如 "[1] 来源：...\n片段正文" 的文本
+ */
+export function formatCitationContext(hits: RetrievalHit[]): string {
+    return hits.map(({ chunk }, i) => `[${i + 1}] 来源：${describeLocation(chunk)}\n${chunk.text}`).join('\n\n');
+}
+
+/**
+ * 提取回答中的引用编号（支持 [1]、[1][2]、[1, 2]、[1-3]），超出来源数量的编号忽略
+ * @param {string} answer 模型回答
+ * @param {number} count 来源数量
+ * @returns {number[]} 升序去重后的编号
+ */
+export function extractCitationMarkers(answer: string, count: number): number[] {
+    const cited: Set<number> = new Set();
+    for (const match of answer.matchAll(/\[(\d+(?:\s*[-,，、]\s*\d+)*)\]/g)) {
+        for (const part of match[1].split(/\s*[,，、]\s*/)) {
+            const [from, to = from] = part.split(/\s*-\s*/).map(Number);
+            for (let n = from; n <= Math.min(to, count); n++) {
+                if (n >= 1) cited.add(n);
+            }
+        }
+    }
+    return [...cited].sort((a, b) => a - b);
+}
+
+/**
+ * 把检索结果整理为结构化来源
+ * @param {RetrievalHit[]} hits 检索结果（顺序即编号）
+ * @param {number[]} cited 回答中引用到的编号
+ * @returns {RagCitationSource[]} 来源列表
+ */
+export function buildCitationSources(hits: RetrievalHit[], cited: number[]): RagCitationSource[] {
+    const citedSet = new Set(cited);
+    return hits.map(({ chunk, scores }, i) => {
+        const loc = chunk.loc as RagChunkLocation;
+        const title = chunk.metadata.title;
+        return {
+            index: i + 1,
+            chunkId: chunk.chunkId,
+            collection: chunk.collection,
+            docId: chunk.docId,
+            fileName: chunk.source,
+            ...(typeof title === 'string' ? { title } : {}),
+            ...(loc.pageNumber ? { pageNumber: loc.pageNumber } : {}),
+            ...(loc.lines ? { lines: loc.lines } : {}),
+            ...(loc.headingPath?.length ? { headingPath: loc.headingPath } : {}),
+            ...(loc.rows ? { rows: loc.rows } : {}),
+            ...(loc.items ? { items: loc.items } : {}),
+            ...(loc.entry ? { entry: loc.entry } : {}),
+            score: scores.vector ?? null,
+            text: chunk.text,
+            cited: citedSet.has(i + 1),
+        };
+    });
+}
+
+/**
+ * 问答提示词：背景信息逐条编号，要求回答用 [n] 标注出处
+ */
+const answerPrompt = ChatPromptTemplate.fromTemplate(`
+        你是一个智能助手。请基于以下提供的背景信息回答用户的问题。
+        如果背景信息中没有答案，请直接说“我不知道”，不要编造。
+        背景信息已按 [1]、[2] 编号，请在用到某条信息的句子末尾标注其编号，例如“营收同比增长 15%[1]。”，多个来源写作 [1][2]。
+
+        背景信息：
+        {context}
+
+        用户问题：{question}
+        `);
+
+/**
+ * 基于检索结果生成带引用标注的回答（问答接口与离线评测共用）
+ * @param {string} question 问题
+ * @param {RetrievalHit[]} hits 检索结果（顺序即编号）
+ * @param {BaseChatModel} model 对话模型
+ * @returns {Promise<{ answer: string; sources: RagCitationSource[] }>} 回答及结构化来源
+ */
+export async function generateCitedAnswer(
+    question: string,
+    hits: RetrievalHit[],
+    model: BaseChatModel
+): Promise<{ answer: string; sources: RagCitationSource[] }> {
+    const chain = answerPrompt.pipe(model).pipe(new StringOutputParser());
+    const answer = await chain.invoke({ context: formatCitationContext(hits), question });
+    return { answer, sources: buildCitationSources(hits, extractCitationMarkers(answer, hits.length)) };
+}
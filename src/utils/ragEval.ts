@@ -0,0 +1,526 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { Document } from '@langchain/core/documents';
+import { SimpleChatModel, type BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseMessage } from '@langchain/core/messages';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { z } from 'zod';
+
+import { tokenize } from './bm25';
+import { getDefaultEmbeddingModelId, getEmbeddingModel } from './embeddings';
+import { createChatModel, resolveModelSpec } from './llm';
+import { generateCitedAnswer } from './ragCitations';
+import { retrieve, type RetrievalHit } from './ragRetrieval';
+import { defaultChunkOverlap, defaultChunkSize, getKnowledgeBase, hashContent, KnowledgeBase } from './ragStore';
+import { numeric } from './validation';
+
+// --- 数据集与参数 ---
+
+export const ragEvalDatasetSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    /** 在已有集合上评测；与 documents 二选一 */
+    collection: z.string().trim().min(1).optional(),
+    /** 内联文档：评测时写入临时知识库，评测结束后删除 */
+    documents: z
+        .array(
+            z.object({
+                docId: z.string().trim().min(1),
+                text: z.string().min(1),
+                source: z.string().trim().min(1).optional(),
+                metadata: z.record(z.string(), z.unknown()).optional(),
+            })
+        )
+        .optional(),
+    questions: z
+        .array(
+            z.object({
+                id: z.string().trim().min(1),
+                question: z.string().trim().min(1),
+                /** 期望命中的文档（docId 或 source 均可） */
+                expectedDocs: z.array(z.string().trim().min(1)).min(1),
+                referenceAnswer: z.string().optional(),
+            })
+        )
+        .min(1)
+        .max(500),
+});
+
+export type RagEvalDataset = z.infer<typeof ragEvalDatasetSchema>;
+
+export const ragEvalConfigSchema = z.object({
+    /** 离线模式：本地哈希向量 + 抽取式回答 + 规则评分，不调用任何模型接口 */
+    offline: z.boolean().default(false),
+    /** 以下两项只对内联文档生效（已有集合沿用集合配置） */
+    chunkSize: numeric(z.number().int().min(100).max(8000)).default(defaultChunkSize),
+    chunkOverlap: numeric(z.number().int().min(0).max(2000)).default(defaultChunkOverlap),
+    topK: numeric(z.number().int().min(1).max(20)).default(3),
+    mode: z.enum(['vector', 'keyword', 'hybrid']).default('hybrid'),
+    vectorK: numeric(z.number().int().min(1).max(100)).default(20),
+    keywordK: numeric(z.number().int().min(1).max(100)).default(20),
+    rrfK: numeric(z.number().int().min(1).max(1000)).default(60),
+    rerank: z.string().trim().min(1).default('none'),
+    rerankCandidates: numeric(z.number().int().min(1).max(50)).default(10),
+    /** 内联文档使用的向量模型：离线模式默认 local:hash-v1 且只能用本地模型，否则默认同新建集合 */
+    embeddingModel: z.string().trim().min(1).optional(),
+    minScore: numeric(z.number().min(0).max(1)).optional(),
+    /** 回答模型与评分模型（离线模式下忽略） */
+    model: z.string().trim().min(1).default('dashscope:qwen-plus'),
+    judgeModel: z.string().trim().min(1).default('dashscope:qwen-plus'),
+});
+
+export type RagEvalConfig = z.infer<typeof ragEvalConfigSchema>;
+
+// --- 结果 ---
+
+export interface RagEvalQuestionResult {
+    id: string;
+    question: string;
+    expectedDocs: string[];
+    /** 检索到的文档（按片段名次去重） */
+    retrievedDocs: string[];
+    /** 第一个期望文档的名次（从 1 开始，未命中为 null） */
+    firstHitRank: number | null;
+    /** recall@k：命中的期望文档数 / 期望文档数 */
+    recall: number;
+    reciprocalRank: number;
+    answer: string;
+    /** 忠实度：回答是否都能在检索片段中找到依据（0~1，评分失败为 null） */
+    faithfulness: number | null;
+    /** 相关度：回答是否切题（有参考答案时与之对照） */
+    relevance: number | null;
+    judgeReason?: string;
+}
+
+export interface RagEvalSummary {
+    questions: number;
+    recallAtK: number;
+    mrr: number;
+    faithfulness: number | null;
+    relevance: number | null;
+}
+
+type MetricName = 'recall' | 'reciprocalRank' | 'faithfulness' | 'relevance';
+
+export interface RagEvalComparison {
+    baselineRunId: string;
+    /** 各项均值的变化（本次 - 基线） */
+    summaryDelta: Record<keyof Omit<RagEvalSummary, 'questions'>, number | null>;
+    /** 指标有变化的问题 */
+    changedQuestions: Array<{ id: string; changes: Partial<Record<MetricName, { before: number | null; after: number | null }>> }>;
+    /** 召回或排名下降、或评分下降 0.1 以上的问题 */
+    regressions: string[];
+    improvements: string[];
+    /** 只在其中一次评测中出现的问题 */
+    addedQuestions: string[];
+    removedQuestions: string[];
+}
+
+export interface RagEvalRun {
+    id: string;
+    createdAt: string;
+    dataset: string;
+    /** 数据集内容哈希：数据集改动后与旧结果对比时可据此提示 */
+    datasetHash: string;
+    config: RagEvalConfig;
+    summary: RagEvalSummary;
+    results: RagEvalQuestionResult[];
+    comparison?: RagEvalComparison;
+}
+
+// --- 离线组件 ---
+
+/**
+ * 抽取式回答模型：取编号 [1] 的背景信息的第一句并标注 [1]，没有背景信息时回答“我不知道”
+ */
+class ExtractiveChatModel extends SimpleChatModel {
+    _llmType(): string {
+        return 'rag-eval-extractive';
+    }
+
+    async _call(messages: BaseMessage[]): Promise<string> {
+        const last = messages[messages.length - 1];
+        const prompt = typeof last?.content === 'string' ? last.content : '';
+        const match = /\[1\] 来源：[^\n]*\n([\s\S]*?)(?=\n\n\[\d+\] 来源：|\n\s*用户问题：|$)/.exec(prompt);
+        const sentence = match?.[1].trim().split(/(?<=[。！？.!?])\s*|\n+/)[0]?.trim();
+        return sentence ? `${sentence}[1]` : '我不知道';
+    }
+}
+
+/**
+ * 回答评分
+ */
+export interface RagJudge {
+    judge(input: {
+        question: string;
+        answer: string;
+        contexts: string[];
+        referenceAnswer?: string;
+    }): Promise<{ faithfulness: number | null; relevance: number | null; reason?: string }>;
+}
+
+/**
+ * 词项集合（去掉引用标注）
+ * @param {string} text 文本
+ * @returns {Set<string>} 词项
+ */
+function termSet(text: string): Set<string> {
+    return new Set(tokenize(text.replace(/\[\d+\]/g, ' ')));
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+    let count = 0;
+    for (const term of a) if (b.has(term)) count += 1;
+    return count;
+}
+
+/**
+ * 规则评分（离线）：忠实度 = 回答词项出现在检索片段中的比例；
+ * 相关度 = 与参考答案的词项 F1，没有参考答案时为问题词项在回答中的覆盖率
+ */
+export const heuristicJudge: RagJudge = {
+    async judge({ question, answer, contexts, referenceAnswer }) {
+        const answerTerms = termSet(answer);
+        if (answerTerms.size === 0) return { faithfulness: 0, relevance: 0 };
+        const faithfulness = overlap(answerTerms, termSet(contexts.join('\n'))) / answerTerms.size;
+        let relevance: number;
+        if (referenceAnswer) {
+            const referenceTerms = termSet(referenceAnswer);
+            const common = overlap(answerTerms, referenceTerms);
+            relevance = common === 0 ? 0 : (2 * common) / (answerTerms.size + referenceTerms.size);
+        } else {
+            const questionTerms = termSet(question);
+            relevance = questionTerms.size === 0 ? 0 : overlap(questionTerms, answerTerms) / questionTerms.size;
+        }
+        return { faithfulness, relevance };
+    },
+};
+
+const judgePrompt = ChatPromptTemplate.fromTemplate(`
+        你是 RAG 问答质量评审。请根据检索到的背景信息评估回答：
+        - faithfulness：回答中的每个事实是否都能在背景信息中找到依据（0 到 10，10 表示完全有据，编造内容越多分越低）
+        - relevance：回答是否直接回应了问题{referenceHint}（0 到 10）
+
+        问题：{question}
+        {reference}
+        背景信息：
+        {contexts}
+
+        回答：{answer}
+
+        请只输出 JSON，例如 {{"faithfulness": 8, "relevance": 9, "reason": "一句话理由"}}。
+        `);
+
+/**
+ * 用对话模型评分，结果无法解析时该题分数记为 null
+ * @param {BaseChatModel} model 评分模型
+ * @returns {RagJudge} 评分器
+ */
+export function createLlmJudge(model: BaseChatModel): RagJudge {
+    return {
+        async judge({ question, answer, contexts, referenceAnswer }) {
+            const chain = judgePrompt.pipe(model).pipe(new StringOutputParser());
+            const result = await chain.invoke({
+                question,
+                answer,
+                contexts: contexts.map((text, i) => `[${i + 1}] ${text}`).join('\n\n') || '（无）',
+                reference: referenceAnswer ? `参考答案：${referenceAnswer}\n` : '',
+                referenceHint: referenceAnswer ? '，并与参考答案一致' : '',
+            });
+            try {
+                const parsed = JSON.parse(result.replace(/```json|```/g, '').trim());
+                const score = (value: unknown) =>
+                    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 10) / 10 : null;
+                return {
+                    faithfulness: score(parsed?.faithfulness),
+                    relevance: score(parsed?.relevance),
+                    reason: typeof parsed?.reason === 'string' ? parsed.reason : undefined,
+                };
+            } catch {
+                return { faithfulness: null, relevance: null, reason: `评分结果无法解析：${result.slice(0, 200)}` };
+            }
+        },
+    };
+}
+
+// --- 评测 ---
+
+/**
+ * 片段是否属于期望文档
+ * @param {RetrievalHit} hit 检索结果
+ * @param {string} expected 期望文档（docId 或 source）
+ * @returns {boolean} 是否命中
+ */
+function matchesExpected(hit: RetrievalHit, expected: string): boolean {
+    return hit.chunk.docId === expected || hit.chunk.source === expected;
+}
+
+function mean(values: Array<number | null>): number | null {
+    const valid = values.filter((value): value is number => value !== null);
+    return valid.length === 0 ? null : valid.reduce((sum, value) => sum + value, 0) / valid.length;
+}
+
+/**
+ * 汇总各题指标
+ * @param {RagEvalQuestionResult[]} results 各题结果
+ * @returns {RagEvalSummary} 汇总
+ */
+export function summarizeRagEval(results: RagEvalQuestionResult[]): RagEvalSummary {
+    return {
+        questions: results.length,
+        recallAtK: mean(results.map((r) => r.recall)) ?? 0,
+        mrr: mean(results.map((r) => r.reciprocalRank)) ?? 0,
+        faithfulness: mean(results.map((r) => r.faithfulness)),
+        relevance: mean(results.map((r) => r.relevance)),
+    };
+}
+
+/**
+ * 与基线评测对比
+ * @param {RagEvalRun} run 本次评测
+ * @param {RagEvalRun} baseline 基线
+ * @returns {RagEvalComparison} 对比结果
+ */
+export function compareRagEvalRuns(run: Omit<RagEvalRun, 'comparison'>, baseline: RagEvalRun): RagEvalComparison {
+    const delta = (after: number | null, before: number | null) => (after === null || before === null ? null : after - before);
+    const before = new Map(baseline.results.map((result) => [result.id, result]));
+    const after = new Map(run.results.map((result) => [result.id, result]));
+    const metrics: MetricName[] = ['recall', 'reciprocalRank', 'faithfulness', 'relevance'];
+
+    const comparison: RagEvalComparison = {
+        baselineRunId: baseline.id,
+        summaryDelta: {
+            recallAtK: delta(run.summary.recallAtK, baseline.summary.recallAtK),
+            mrr: delta(run.summary.mrr, baseline.summary.mrr),
+            faithfulness: delta(run.summary.faithfulness, baseline.summary.faithfulness),
+            relevance: delta(run.summary.relevance, baseline.summary.relevance),
+        },
+        changedQuestions: [],
+        regressions: [],
+        improvements: [],
+        addedQuestions: run.results.filter((result) => !before.has(result.id)).map((result) => result.id),
+        removedQuestions: baseline.results.filter((result) => !after.has(result.id)).map((result) => result.id),
+    };
+
+    for (const result of run.results) {
+        const previous = before.get(result.id);
+        if (!previous) continue;
+        const changes: RagEvalComparison['changedQuestions'][number]['changes'] = {};
+        let worse = false;
+        let better = false;
+        for (const metric of metrics) {
+            const change = delta(result[metric], previous[metric]);
+            if (change === null || Math.abs(change) < 1e-9) continue;
+            changes[metric] = { before: previous[metric], after: result[metric] };
+            // 检索指标任何下降都算退化；模型评分有波动，下降 0.1 以上才算
+            const threshold = metric === 'recall' || metric === 'reciprocalRank' ? 0 : 0.1 - 1e-9;
+            if (change < -threshold) worse = true;
+            if (change > threshold) better = true;
+        }
+        if (Object.keys(changes).length > 0) comparison.changedQuestions.push({ id: result.id, changes });
+        if (worse) comparison.regressions.push(result.id);
+        else if (better) comparison.improvements.push(result.id);
+    }
+    return comparison;
+}
+
+/**
+ * 评测结果存储（data/rag-eval/<runId>.json）
+ */
+export class RagEvalStore {
+    constructor(private readonly dir: string) {}
+
+    save(run: RagEvalRun): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(path.join(this.dir, `${run.id}.json`), JSON.stringify(run, null, 2), 'utf-8');
+    }
+
+    get(id: string): RagEvalRun | undefined {
+        // 评测ID只含字母、数字、下划线与连字符，防止路径穿越
+        if (!/^[\w-]+$/.test(id)) return undefined;
+        const file = path.join(this.dir, `${id}.json`);
+        if (!fs.existsSync(file)) return undefined;
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as RagEvalRun;
+    }
+
+    /**
+     * 列出评测（按时间倒序）
+     * @param {string} [dataset] 只列出该数据集的评测
+     * @returns {RagEvalRun[]} 评测列表
+     */
+    list(dataset?: string): RagEvalRun[] {
+        if (!fs.existsSync(this.dir)) return [];
+        return fs
+            .readdirSync(this.dir)
+            .filter((name) => name.endsWith('.json'))
+            .sort()
+            .reverse()
+            .map((name) => this.get(name.slice(0, -'.json'.length)))
+            .filter((run): run is RagEvalRun => Boolean(run) && (!dataset || run!.dataset === dataset));
+    }
+}
+
+let ragEvalStore: RagEvalStore | undefined;
+
+export function getRagEvalStore(): RagEvalStore {
+    if (!ragEvalStore) {
+        ragEvalStore = new RagEvalStore(process.env.RAG_EVAL_DIR ?? path.join(process.cwd(), 'data/rag-eval'));
+    }
+    return ragEvalStore;
+}
+
+/**
+ * 生成按时间排序的评测ID，如 eval_20250101T120000_a1b2
+ * @returns {string} 评测ID
+ */
+function createRunId(): string {
+    const time = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+    return `eval_${time}_${randomBytes(2).toString('hex')}`;
+}
+
+/**
+ * 准备评测用的知识库：内联文档写入临时目录，否则使用已有集合
+ * @param {RagEvalDataset} dataset 数据集
+ * @param {RagEvalConfig} config 评测参数
+ * @returns {Promise<{ knowledgeBase: KnowledgeBase; cleanup(): void }>} 知识库及清理函数
+ */
+async function prepareKnowledgeBase(
+    dataset: RagEvalDataset,
+    config: RagEvalConfig
+): Promise<{ knowledgeBase: KnowledgeBase; cleanup(): void }> {
+    if (!dataset.documents?.length) {
+        if (!dataset.collection) {
+            throw Object.assign(new Error('数据集需要提供 documents 或 collection'), { status: 400 });
+        }
+        if (config.offline) {
+            throw Object.assign(new Error('离线评测需要在数据集中内联 documents（已有集合的向量由真实模型生成）'), { status: 400 });
+        }
+        return { knowledgeBase: getKnowledgeBase(dataset.collection), cleanup: () => undefined };
+    }
+    if (config.chunkOverlap >= config.chunkSize) {
+        throw Object.assign(new Error('chunkOverlap 必须小于 chunkSize'), { status: 400 });
+    }
+
+    const embeddingModel = getEmbeddingModel(config.embeddingModel ?? (config.offline ? 'local:hash-v1' : getDefaultEmbeddingModelId()));
+    if (config.offline && embeddingModel.provider !== 'local') {
+        throw Object.assign(new Error(`离线评测只能使用本地向量模型，${embeddingModel.id} 需要调用接口`), { status: 400 });
+    }
+
+    const dbPath = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-eval-'));
+    const knowledgeBase = new KnowledgeBase(dbPath, {
+        name: `eval-${dataset.name}`,
+        description: '评测临时知识库',
+        table: 'eval',
+        embeddingModel: embeddingModel.id,
+        dimensions: embeddingModel.dimensions,
+        chunkSize: config.chunkSize,
+        chunkOverlap: config.chunkOverlap,
+        metadataFields: [],
+        createdAt: new Date().toISOString(),
+    });
+    const cleanup = () => fs.rmSync(dbPath, { recursive: true, force: true });
+    try {
+        for (const document of dataset.documents) {
+            const chunks = await knowledgeBase.split([new Document({ pageContent: document.text })]);
+            await knowledgeBase.upsertDocument(
+                { docId: document.docId, source: document.source ?? document.docId, sourceType: 'text', metadata: document.metadata },
+                chunks
+            );
+        }
+    } catch (err) {
+        cleanup();
+        throw err;
+    }
+    return { knowledgeBase, cleanup };
+}
+
+/**
+ * 运行一次评测：走与问答接口相同的检索与生成流程，计算 recall@k、MRR 与模型评分，并与基线对比
+ * @param {RagEvalDataset} dataset 数据集
+ * @param {RagEvalConfig} config 评测参数
+ * @param {{ compareTo?: string; onProgress?: (done: number, total: number) => void }} options
+ *        compareTo 为基线评测ID，"latest" 表示同一数据集的上一次评测
+ * @returns {Promise<RagEvalRun>} 评测结果（已保存）
+ */
+export async function runRagEval(
+    dataset: RagEvalDataset,
+    config: RagEvalConfig,
+    options: { compareTo?: string; onProgress?: (done: number, total: number) => void } = {}
+): Promise<RagEvalRun> {
+    if (config.offline && config.rerank !== 'none') {
+        throw Object.assign(new Error('离线评测不支持模型重排，请将 rerank 设为 none'), { status: 400 });
+    }
+    const store = getRagEvalStore();
+    const baseline =
+        options.compareTo === 'latest' ? store.list(dataset.name)[0] : options.compareTo ? store.get(options.compareTo) : undefined;
+    if (options.compareTo && options.compareTo !== 'latest' && !baseline) {
+        throw Object.assign(new Error(`基线评测不存在: ${options.compareTo}`), { status: 404 });
+    }
+
+    const answerModel = config.offline ? new ExtractiveChatModel({}) : createChatModel(config.model, { temperature: 0 });
+    const judge = config.offline ? heuristicJudge : createLlmJudge(createChatModel(config.judgeModel, { temperature: 0 }));
+    const { knowledgeBase, cleanup } = await prepareKnowledgeBase(dataset, config);
+
+    const results: RagEvalQuestionResult[] = [];
+    try {
+        for (const item of dataset.questions) {
+            const hits = await retrieve([knowledgeBase], item.question, {
+                mode: config.mode,
+                k: config.topK,
+                vectorK: config.vectorK,
+                keywordK: config.keywordK,
+                rrfK: config.rrfK,
+                rerank: config.rerank,
+                rerankCandidates: config.rerankCandidates,
+                rerankModel: resolveModelSpec({ model: config.model }),
+                minScore: config.minScore,
+            });
+
+            const retrievedDocs = [...new Set(hits.map((hit) => hit.chunk.docId))];
+            const found = item.expectedDocs.filter((expected) => hits.some((hit) => matchesExpected(hit, expected)));
+            const rankIndex = retrievedDocs.findIndex((docId) =>
+                hits.some((hit) => hit.chunk.docId === docId && item.expectedDocs.some((expected) => matchesExpected(hit, expected)))
+            );
+
+            const answer = hits.length > 0 ? (await generateCitedAnswer(item.question, hits, answerModel)).answer : '知识库中没有相关信息。';
+            const scores = await judge.judge({
+                question: item.question,
+                answer,
+                contexts: hits.map((hit) => hit.chunk.text),
+                referenceAnswer: item.referenceAnswer,
+            });
+
+            results.push({
+                id: item.id,
+                question: item.question,
+                expectedDocs: item.expectedDocs,
+                retrievedDocs,
+                firstHitRank: rankIndex >= 0 ? rankIndex + 1 : null,
+                recall: found.length / item.expectedDocs.length,
+                reciprocalRank: rankIndex >= 0 ? 1 / (rankIndex + 1) : 0,
+                answer,
+                faithfulness: scores.faithfulness,
+                relevance: scores.relevance,
+                ...(scores.reason ? { judgeReason: scores.reason } : {}),
+            });
+            options.onProgress?.(results.length, dataset.questions.length);
+        }
+    } finally {
+        cleanup();
+    }
+
+    const run: RagEvalRun = {
+        id: createRunId(),
+        createdAt: new Date().toISOString(),
+        dataset: dataset.name,
+        datasetHash: hashContent(JSON.stringify(dataset)).slice(0, 16),
+        config,
+        summary: summarizeRagEval(results),
+        results,
+    };
+    if (baseline) run.comparison = compareRagEvalRuns(run, baseline);
+    store.save(run);
+    return run;
+}
@@ -0,0 +1,198 @@
+import { randomUUID } from 'node:crypto';
+
+import { createRequestContext, runWithRequestContext } from './requestContext';
+import { getUsageLedger } from './usage';
+import type { RagReembedResult, RagUpsertProgress, RagUpsertResult } from './ragStore';
+
+/**
+ * 入库任务阶段：排队 → 加载 → 切分 → 向量化 → 完成 / 失败
+ */
+export type RagJobStage = 'queued' | 'loading' | 'splitting' | 'embedding' | 'done' | 'failed';
+
+export type RagJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * 任务类型：文件入库 / 用新的向量模型重建集合索引
+ */
+export type RagJobKind = 'ingest' | 'reembed';
+
+type RagJobResult = (RagUpsertResult | RagReembedResult) & Record<string, unknown>;
+
+/**
+ * 入库任务
+ */
+export interface RagJob {
+    id: string;
+    kind: RagJobKind;
+    status: RagJobStatus;
+    stage: RagJobStage;
+    collection: string;
+    /** 上传的文件名（入库任务） */
+    fileName?: string;
+    /** 提交时指定的文档ID（缺省时由文件名推导，完成后见 result.docId） */
+    docId?: string;
+    progress: RagUpsertProgress;
+    result?: RagJobResult;
+    error?: { message: string; status: number };
+    /** 提交任务的 API Key（鉴权开启时只有同一 Key 或管理员可以查看） */
+    apiKeyName?: string;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+/**
+ * 任务执行时可用的操作
+ */
+export interface RagJobReporter {
+    setStage(stage: Exclude<RagJobStage, 'queued' | 'done' | 'failed'>): void;
+    setProgress(progress: RagUpsertProgress): void;
+}
+
+export interface RagJobSubmission {
+    /** 缺省为 ingest */
+    kind?: RagJobKind;
+    collection: string;
+    fileName?: string;
+    docId?: string;
+    apiKeyName?: string;
+    /** 用量记账使用的路由名 */
+    route: string;
+    run(reporter: RagJobReporter): Promise<RagJobResult>;
+    /** 无论成败都会执行（清理临时文件等） */
+    cleanup?(): Promise<void>;
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * 入库任务队列（进程内，重建索引任务也在此排队）
+ * - 最多同时执行 RAG_JOB_CONCURRENCY 个任务（默认 1），其余排队
+ * - 已结束的任务保留 RAG_JOB_TTL_MS（默认 1 小时），最多保留 500 个
+ * - 每个任务在独立的请求上下文中执行，向量调用用量在任务结束时记入用量账本
+ */
+export class RagJobQueue {
+    private readonly jobs: Map<string, RagJob> = new Map();
+    private readonly pending: Array<{ job: RagJob; submission: RagJobSubmission }> = [];
+    private running = 0;
+
+    constructor(
+        private readonly concurrency: number,
+        private readonly ttlMs: number,
+        private readonly maxFinishedJobs = 500
+    ) {}
+
+    /**
+     * 提交任务
+     * @param {RagJobSubmission} submission 任务
+     * @returns {RagJob} 任务（排队中）
+     */
+    submit(submission: RagJobSubmission): RagJob {
+        this.prune();
+        const job: RagJob = {
+            id: `job_${randomUUID()}`,
+            kind: submission.kind ?? 'ingest',
+            status: 'queued',
+            stage: 'queued',
+            collection: submission.collection,
+            fileName: submission.fileName,
+            docId: submission.docId,
+            progress: { totalChunks: 0, embeddedChunks: 0, reusedChunks: 0 },
+            apiKeyName: submission.apiKeyName,
+            createdAt: new Date().toISOString(),
+        };
+        this.jobs.set(job.id, job);
+        this.pending.push({ job, submission });
+        this.drain();
+        return job;
+    }
+
+    get(id: string): RagJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    /**
+     * 列出任务（按提交时间倒序）
+     * @returns {RagJob[]} 任务列表
+     */
+    list(): RagJob[] {
+        this.prune();
+        return [...this.jobs.values()].reverse();
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.pending.length > 0) {
+            const { job, submission } = this.pending.shift()!;
+            this.running += 1;
+            void this.execute(job, submission).finally(() => {
+                this.running -= 1;
+                this.drain();
+            });
+        }
+    }
+
+    private async execute(job: RagJob, submission: RagJobSubmission): Promise<void> {
+        const context = createRequestContext(submission.route, submission.apiKeyName);
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        try {
+            job.result = await runWithRequestContext(context, () =>
+                submission.run({
+                    setStage: (stage) => {
+                        job.stage = stage;
+                    },
+                    setProgress: (progress) => {
+                        job.progress = progress;
+                    },
+                })
+            );
+            job.status = 'succeeded';
+            job.stage = 'done';
+        } catch (err) {
+            job.status = 'failed';
+            job.stage = 'failed';
+            job.error = {
+                message: err instanceof Error ? err.message : String(err),
+                status: Number((err as any)?.status) || 500,
+            };
+            console.error(`[rag] ${job.kind === 'reembed' ? '重建索引' : '入库'}任务 ${job.id}（${job.fileName ?? job.collection}）失败:`, err);
+        } finally {
+            job.finishedAt = new Date().toISOString();
+            if (context.usage.size > 0) getUsageLedger().record(context);
+            await submission.cleanup?.().catch((err) => console.warn(`[rag] 入库任务 ${job.id} 清理失败:`, err));
+        }
+    }
+
+    /**
+     * 清理过期的已结束任务
+     * @returns {void}
+     */
+    private prune(): void {
+        const finished = [...this.jobs.values()].filter((job) => job.finishedAt);
+        const expiredBefore = Date.now() - this.ttlMs;
+        finished.forEach((job, i) => {
+            if (Date.parse(job.finishedAt!) < expiredBefore || i < finished.length - this.maxFinishedJobs) {
+                this.jobs.delete(job.id);
+            }
+        });
+    }
+}
+
+let ragJobQueue: RagJobQueue | undefined;
+
+/**
+ * 获取全局入库任务队列
+ * @returns {RagJobQueue} 任务队列
+ */
+export function getRagJobQueue(): RagJobQueue {
+    if (!ragJobQueue) {
+        ragJobQueue = new RagJobQueue(
+            readPositiveIntEnv('RAG_JOB_CONCURRENCY', 1),
+            readPositiveIntEnv('RAG_JOB_TTL_MS', 60 * 60 * 1000)
+        );
+    }
+    return ragJobQueue;
+}
@@ -0,0 +1,675 @@
+import dns from 'node:dns/promises';
+import nodeHttp from 'node:http';
+import nodeHttps from 'node:https';
+import net from 'node:net';
+import path from 'node:path';
+import { Document } from '@langchain/core/documents';
+import { PDFParse } from 'pdf-parse';
+import type { TextSplitter } from '@langchain/textsplitters';
+
+import { http } from './axios';
+import { isZip, readZipEntries } from './zip';
+
+/**
+ * 支持的文件类型
+ */
+export const ragFileTypes = ['pdf', 'docx', 'html', 'markdown', 'text', 'csv', 'tsv', 'json', 'jsonl', 'zip'] as const;
+
+export type RagFileType = (typeof ragFileTypes)[number];
+
+/**
+ * 待加载的文件
+ */
+export interface RagFileInput {
+    buffer: Buffer;
+    fileName: string;
+    /** 客户端声明的类型，仅作为纯文本类格式之间的提示，不作为判断依据 */
+    mimeType?: string;
+}
+
+/**
+ * 加载结果
+ */
+export interface RagLoadResult {
+    fileType: RagFileType;
+    documents: Document[];
+    /** HTML 页面标题等 */
+    title?: string;
+}
+
+/**
+ * 片段位置信息（保存在片段的 loc 中）
+ * - pageNumber：PDF 页码
+ * - lines：在原文中的行号（splitter 计算，Markdown 小节会换算回整篇文件的行号）
+ * - headingPath：Markdown / DOCX / HTML 的标题层级
+ * - rows / items：CSV 行号、JSON 数组下标
+ * - entry：ZIP 内的文件路径
+ */
+export interface RagChunkLocation {
+    pageNumber?: number;
+    lines?: { from: number; to: number };
+    headingPath?: string[];
+    rows?: { from: number; to: number };
+    items?: { from: number; to: number };
+    entry?: string;
+    /** Markdown 小节在原文中的起始行偏移，切片后换算进 lines 并移除 */
+    lineOffset?: number;
+}
+
+/** ZIP 内嵌套压缩包的最大层数 */
+const maxZipDepth = 2;
+
+const extensionTypes: Record<string, RagFileType> = {
+    '.pdf': 'pdf',
+    '.docx': 'docx',
+    '.html': 'html',
+    '.htm': 'html',
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.txt': 'text',
+    '.csv': 'csv',
+    '.tsv': 'tsv',
+    '.json': 'json',
+    '.jsonl': 'jsonl',
+    '.ndjson': 'jsonl',
+    '.zip': 'zip',
+};
+
+const mimeTypes: Record<string, RagFileType> = {
+    'text/html': 'html',
+    'text/markdown': 'markdown',
+    'text/x-markdown': 'markdown',
+    'text/csv': 'csv',
+    'text/tab-separated-values': 'tsv',
+    'application/json': 'json',
+    'application/x-ndjson': 'jsonl',
+    'application/jsonl': 'jsonl',
+};
+
+/**
+ * 创建 400 错误
+ * @param {string} message 错误信息
+ * @returns {Error & { status: number }} 错误对象
+ */
+function badRequest(message: string): Error & { status: number } {
+    return Object.assign(new Error(message), { status: 400 });
+}
+
+// --- 类型识别 ---
+
+/**
+ * 按 UTF-8 解码文本，二进制内容返回 undefined
+ * @param {Buffer} buffer 文件内容
+ * @returns {string | undefined} 文本
+ */
+function decodeText(buffer: Buffer): string | undefined {
+    const sample = buffer.subarray(0, 8192);
+    if (sample.includes(0)) return undefined;
+    const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+    const invalid = (text.slice(0, 8192).match(/\uFFFD/g) ?? []).length;
+    return invalid > 8 ? undefined : text;
+}
+
+/**
+ * 能否整体解析为 JSON
+ * @param {string} text 文本
+ * @returns {boolean} 是否为 JSON
+ */
+function isJson(text: string): boolean {
+    const trimmed = text.trim();
+    if (!/^[[{]/.test(trimmed)) return false;
+    try {
+        JSON.parse(trimmed);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 是否每个非空行都是 JSON 对象 / 数组
+ * @param {string} text 文本
+ * @returns {boolean} 是否为 JSONL
+ */
+function isJsonLines(text: string): boolean {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    if (lines.length === 0) return false;
+    return lines.slice(0, 50).every((line) => isJson(line));
+}
+
+/**
+ * 按前几行的分隔符数量判断是否为表格
+ * @param {string} text 文本
+ * @param {string} delimiter 分隔符
+ * @returns {boolean} 是否为表格
+ */
+function looksDelimited(text: string, delimiter: string): boolean {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 20);
+    // 逗号在普通文本中很常见，要求更多行且表头像列名
+    if (lines.length < (delimiter === ',' ? 3 : 2)) return false;
+    const rows = lines.map((line) => parseDelimited(line, delimiter)[0] ?? []);
+    const header = rows[0];
+    if (header.length < 2 || header.some((cell) => !cell.trim() || cell.length > 64)) return false;
+    return rows.every((row) => row.length === header.length);
+}
+
+/**
+ * 根据文件内容识别类型：二进制格式只看文件头，文本格式再参考扩展名 / mimetype
+ * @param {RagFileInput} input 文件
+ * @returns {{ fileType: RagFileType; text?: string }} 类型与解码后的文本
+ */
+export function detectFileType(input: RagFileInput): { fileType: RagFileType; text?: string } {
+    const { buffer } = input;
+    if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') return { fileType: 'pdf' };
+    if (isZip(buffer)) {
+        const isDocx = readZipEntries(buffer).some((entry) => entry.path === 'word/document.xml');
+        return { fileType: isDocx ? 'docx' : 'zip' };
+    }
+
+    const text = decodeText(buffer);
+    if (text === undefined) {
+        throw badRequest(`不支持的文件类型: ${input.fileName}（无法识别的二进制内容）`);
+    }
+
+    const head = text.trimStart().slice(0, 1024).toLowerCase();
+    if (/^<!doctype html|^<html[\s>]|<body[\s>]|<head[\s>]/.test(head)) return { fileType: 'html', text };
+    if (isJson(text)) return { fileType: 'json', text };
+
+    const hinted = extensionTypes[path.extname(input.fileName).toLowerCase()]
+        ?? mimeTypes[(input.mimeType ?? '').split(';')[0].trim().toLowerCase()];
+    if (hinted === 'jsonl' && isJsonLines(text)) return { fileType: 'jsonl', text };
+    if (hinted === 'markdown' || hinted === 'html') return { fileType: hinted, text };
+    if (hinted === 'csv' || hinted === 'tsv') return { fileType: hinted, text };
+
+    if (isJsonLines(text)) return { fileType: 'jsonl', text };
+    if (looksDelimited(text, '\t')) return { fileType: 'tsv', text };
+    if (looksDelimited(text, ',')) return { fileType: 'csv', text };
+    if (/^#{1,6}\s+\S/m.test(text)) return { fileType: 'markdown', text };
+    return { fileType: 'text', text };
+}
+
+// --- Markdown ---
+
+/**
+ * 按标题层级切分 Markdown，每个小节一个文档，标题路径记入 loc.headingPath
+ * （代码块中的 # 不视为标题）
+ * @param {string} markdown Markdown 文本
+ * @param {Record<string, unknown>} metadata 公共元数据
+ * @returns {Document[]} 小节文档
+ */
+export function splitMarkdownByHeadings(markdown: string, metadata: Record<string, unknown> = {}): Document[] {
+    const lines = markdown.split(/\r?\n/);
+    const documents: Document[] = [];
+    const headingStack: Array<{ level: number; title: string }> = [];
+    let sectionStart = 0;
+    let sectionPath: string[] = [];
+    let inFence = false;
+
+    const flush = (end: number) => {
+        const content = lines.slice(sectionStart, end).join('\n');
+        if (content.trim()) {
+            const loc: RagChunkLocation = { ...(metadata.loc as RagChunkLocation), lineOffset: sectionStart };
+            if (sectionPath.length > 0) loc.headingPath = sectionPath;
+            documents.push(new Document({ pageContent: content, metadata: { ...metadata, loc } }));
+        }
+    };
+
+    lines.forEach((line, index) => {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        if (inFence) return;
+        const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+        if (!match) return;
+        flush(index);
+        const level = match[1].length;
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) headingStack.pop();
+        headingStack.push({ level, title: match[2] });
+        sectionStart = index;
+        sectionPath = headingStack.map((heading) => heading.title);
+    });
+    flush(lines.length);
+    return documents;
+}
+
+// --- HTML ---
+
+const htmlEntities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    mdash: '—',
+    ndash: '–',
+    hellip: '…',
+    copy: '©',
+    reg: '®',
+    middot: '·',
+    ldquo: '“',
+    rdquo: '”',
+    lsquo: '‘',
+    rsquo: '’',
+};
+
+/**
+ * 解码 HTML 实体
+ * @param {string} text 文本
+ * @returns {string} 解码后的文本
+ */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : whole;
+        }
+        return htmlEntities[code.toLowerCase()] ?? whole;
+    });
+}
+
+/**
+ * 清洗网页：去掉脚本、样式、导航等噪声，标题转换为 Markdown 标题以便按层级切分
+ * @param {string} html HTML 文本
+ * @returns {{ title?: string; markdown: string }} 标题与正文
+ */
+export function htmlToMarkdown(html: string): { title?: string; markdown: string } {
+    const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+    // 有 <main> / <article> 时只取正文区域
+    const main = /<(main|article)[\s>][\s\S]*<\/\1>/i.exec(html)?.[0] ?? html;
+    const markdown = main
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|svg|template|iframe|head|nav|footer|header|aside|form)[\s>][\s\S]*?<\/\1>/gi, '')
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_m, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text.replace(/<[^>]+>/g, '').trim()}\n\n`)
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<\/t[dh]>/gi, ' | ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|tr|table|ul|ol|li|blockquote|pre|dl|dt|dd)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .split('\n')
+        .map((line) => decodeEntities(line).replace(/[ \t\u00A0]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return { title: title ? decodeEntities(title.replace(/\s+/g, ' ').trim()) || undefined : undefined, markdown };
+}
+
+// --- DOCX ---
+
+/**
+ * 提取 DOCX 正文，标题样式（Heading1 / 标题 1 等）转换为 Markdown 标题
+ * @param {Buffer} buffer DOCX 文件内容
+ * @returns {string} Markdown 文本
+ */
+export function docxToMarkdown(buffer: Buffer): string {
+    const entry = readZipEntries(buffer).find((item) => item.path === 'word/document.xml');
+    if (!entry) throw badRequest('DOCX 文件缺少 word/document.xml');
+    const xml = entry.read().toString('utf-8');
+    const paragraphs: string[] = [];
+    for (const match of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+        const paragraph = match[0];
+        const runs = paragraph.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br[^>]*\/>/g);
+        const text = decodeEntities(
+            [...runs].map((run) => (run[1] !== undefined ? run[1] : run[0].startsWith('<w:tab') ? '\t' : '\n')).join('')
+        );
+        if (!text.trim()) continue;
+        const style = /<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? '';
+        const level = /^(?:Heading|heading|标题)\s*(\d)$/.exec(style)?.[1] ?? (style === 'Title' ? '1' : undefined);
+        paragraphs.push(level ? `${'#'.repeat(Math.min(Number(level), 6))} ${text.trim()}` : text);
+    }
+    return paragraphs.join('\n\n');
+}
+
+// --- CSV / TSV ---
+
+/**
+ * 解析 CSV / TSV（支持双引号转义与字段内换行）
+ * @param {string} text 文本
+ * @param {string} delimiter 分隔符
+ * @returns {string[][]} 行列表
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * 表格每行转为一条记录文档（"列名: 值" 形式），切片时按集合的 chunkSize 合并为行组
+ * @param {string} text 文本
+ * @param {string} delimiter 分隔符
+ * @param {Record<string, unknown>} metadata 公共元数据
+ * @returns {Document[]} 记录文档
+ */
+function loadDelimited(text: string, delimiter: string, metadata: Record<string, unknown>): Document[] {
+    const [header, ...rows] = parseDelimited(text, delimiter);
+    if (!header) return [];
+    const columns = header.map((name, index) => name.trim() || `列${index + 1}`);
+    return rows.map((cells, index) => {
+        const content = columns
+            .map((column, col) => `${column}: ${(cells[col] ?? '').trim()}`)
+            .filter((line) => !line.endsWith(': '))
+            .join('; ');
+        const loc: RagChunkLocation = { ...(metadata.loc as RagChunkLocation), rows: { from: index + 1, to: index + 1 } };
+        return new Document({ pageContent: content, metadata: { ...metadata, loc, record: true } });
+    });
+}
+
+// --- JSON ---
+
+/**
+ * JSON 数组每个元素、JSONL 每行一条记录；JSON 对象整体作为文本
+ * @param {string} text 文本
+ * @param {'json' | 'jsonl'} fileType 类型
+ * @param {Record<string, unknown>} metadata 公共元数据
+ * @returns {Document[]} 文档
+ */
+function loadJson(text: string, fileType: 'json' | 'jsonl', metadata: Record<string, unknown>): Document[] {
+    let items: unknown[];
+    if (fileType === 'jsonl') {
+        items = text.split(/\r?\n/).filter((line) => line.trim()).map((line, index) => {
+            try {
+                return JSON.parse(line);
+            } catch {
+                throw badRequest(`JSONL 第 ${index + 1} 行不是合法的 JSON`);
+            }
+        });
+    } else {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed)) {
+            return [new Document({ pageContent: JSON.stringify(parsed, null, 2), metadata })];
+        }
+        items = parsed;
+    }
+    return items.map((item, index) => {
+        const loc: RagChunkLocation = { ...(metadata.loc as RagChunkLocation), items: { from: index, to: index } };
+        const content = typeof item === 'string' ? item : JSON.stringify(item);
+        return new Document({ pageContent: content, metadata: { ...metadata, loc, record: true } });
+    });
+}
+
+// --- PDF ---
+
+/**
+ * 按页加载 PDF，页码记入 loc.pageNumber
+ * （@langchain/community 的 PDFLoader 只支持 pdf-parse v1，这里直接使用 v2 的 API）
+ * @param {Buffer} buffer PDF 文件内容
+ * @param {Record<string, unknown>} metadata 公共元数据
+ * @returns {Promise<Document[]>} 每页一个文档
+ */
+async function loadPdf(buffer: Buffer, metadata: Record<string, unknown>): Promise<Document[]> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+        const { pages } = await parser.getText();
+        return pages
+            .filter((page) => page.text.trim())
+            .map((page) => new Document({
+                pageContent: page.text,
+                metadata: { ...metadata, loc: { ...(metadata.loc as RagChunkLocation), pageNumber: page.num } },
+            }));
+    } catch (err) {
+        throw Object.assign(new Error(`PDF 解析失败: ${(err as Error).message}`), { status: 400 });
+    } finally {
+        await parser.destroy();
+    }
+}
+
+// --- 入口 ---
+
+/**
+ * 加载文件为文档（类型由内容识别），ZIP 中的文件逐个加载，loc.entry 记录其路径
+ * @param {RagFileInput} input 文件
+ * @param {number} [depth] ZIP 嵌套层数（内部使用）
+ * @returns {Promise<RagLoadResult>} 加载结果
+ */
+export async function loadRagFile(input: RagFileInput, depth = 0): Promise<RagLoadResult> {
+    const { fileType, text = '' } = detectFileType(input);
+    const metadata: Record<string, unknown> = depth > 0 ? { loc: { entry: input.fileName } } : {};
+
+    switch (fileType) {
+        case 'pdf':
+            return { fileType, documents: await loadPdf(input.buffer, metadata) };
+        case 'docx':
+            return { fileType, documents: splitMarkdownByHeadings(docxToMarkdown(input.buffer), metadata) };
+        case 'html': {
+            const { title, markdown } = htmlToMarkdown(text);
+            return { fileType, title, documents: splitMarkdownByHeadings(markdown, metadata) };
+        }
+        case 'markdown':
+            return { fileType, documents: splitMarkdownByHeadings(text, metadata) };
+        case 'csv':
+        case 'tsv':
+            return { fileType, documents: loadDelimited(text, fileType === 'csv' ? ',' : '\t', metadata) };
+        case 'json':
+        case 'jsonl':
+            return { fileType, documents: loadJson(text, fileType, metadata) };
+        case 'zip': {
+            if (depth >= maxZipDepth) throw badRequest(`ZIP 嵌套层数超过 ${maxZipDepth}`);
+            const documents: Document[] = [];
+            for (const entry of readZipEntries(input.buffer)) {
+                const name = path.posix.basename(entry.path);
+                if (entry.path.startsWith('__MACOSX/') || name.startsWith('.') || entry.size === 0) continue;
+                const entryPath = depth > 0 ? `${input.fileName}/${entry.path}` : entry.path;
+                try {
+                    const loaded = await loadRagFile({ buffer: entry.read(), fileName: entryPath }, depth + 1);
+                    documents.push(...loaded.documents);
+                } catch (err) {
+                    // 压缩包中夹杂的图片等不支持的文件直接跳过
+                    if ((err as any)?.status !== 400) throw err;
+                    console.warn(`[rag] 跳过 ZIP 中的文件 ${entryPath}: ${(err as Error).message}`);
+                }
+            }
+            return { fileType, documents };
+        }
+        default:
+            return { fileType, documents: text.trim() ? [new Document({ pageContent: text, metadata })] : [] };
+    }
+}
+
+// --- 切片 ---
+
+/**
+ * 切片：普通文档交给 splitter；CSV / JSON 记录按 chunkSize 合并为行组，不会被从中间截断
+ * Markdown 小节的行号在切片后换算为整篇文件中的行号
+ * @param {Document[]} documents 加载得到的文档
+ * @param {TextSplitter} splitter 集合的切片器
+ * @param {number} chunkSize 片段长度上限
+ * @returns {Promise<Document[]>} 片段
+ */
+export async function splitRagDocuments(documents: Document[], splitter: TextSplitter, chunkSize: number): Promise<Document[]> {
+    const chunks: Document[] = [];
+    let group: Document[] = [];
+    let groupLength = 0;
+
+    const flushGroup = () => {
+        if (group.length === 0) return;
+        const first = group[0].metadata.loc as RagChunkLocation;
+        const last = group[group.length - 1].metadata.loc as RagChunkLocation;
+        const loc: RagChunkLocation = { ...first };
+        if (first.rows && last.rows) loc.rows = { from: first.rows.from, to: last.rows.to };
+        if (first.items && last.items) loc.items = { from: first.items.from, to: last.items.to };
+        const { record: _record, ...metadata } = group[0].metadata;
+        chunks.push(new Document({ pageContent: group.map((doc) => doc.pageContent).join('\n'), metadata: { ...metadata, loc } }));
+        group = [];
+        groupLength = 0;
+    };
+
+    for (const document of documents) {
+        if (document.metadata.record) {
+            const sameEntry = group.length === 0 || group[0].metadata.loc?.entry === document.metadata.loc?.entry;
+            if (!sameEntry || (group.length > 0 && groupLength + document.pageContent.length + 1 > chunkSize)) flushGroup();
+            group.push(document);
+            groupLength += document.pageContent.length + 1;
+            continue;
+        }
+        flushGroup();
+        for (const chunk of await splitter.splitDocuments([document])) {
+            const loc = chunk.metadata.loc as RagChunkLocation | undefined;
+            if (loc?.lineOffset !== undefined) {
+                const { lineOffset, ...rest } = loc;
+                if (rest.lines) rest.lines = { from: rest.lines.from + lineOffset, to: rest.lines.to + lineOffset };
+                chunk.metadata.loc = rest;
+            }
+            chunks.push(chunk);
+        }
+    }
+    flushGroup();
+    return chunks;
+}
+
+// --- 网页抓取 ---
+
+/**
+ * 不允许抓取的地址段：内网、回环、链路本地、运营商 NAT、基准测试（198.18.0.0/15）、文档示例、组播与保留地址。
+ * BlockList 会把 IPv4 映射的 IPv6 地址（::ffff:127.0.0.1 或 URL 规范化后的 ::ffff:7f00:1）按 IPv4 规则判断
+ */
+const blockedAddresses = (() => {
+    const list = new net.BlockList();
+    const ipv4: Array<[string, number]> = [
+        ['0.0.0.0', 8],
+        ['10.0.0.0', 8],
+        ['100.64.0.0', 10],
+        ['127.0.0.0', 8],
+        ['169.254.0.0', 16],
+        ['172.16.0.0', 12],
+        ['192.0.0.0', 24],
+        ['192.0.2.0', 24],
+        ['192.168.0.0', 16],
+        ['198.18.0.0', 15],
+        ['198.51.100.0', 24],
+        ['203.0.113.0', 24],
+        ['224.0.0.0', 4],
+        ['240.0.0.0', 4],
+    ];
+    const ipv6: Array<[string, number]> = [
+        // 未指定地址、回环与已废弃的 IPv4 兼容地址（::a.b.c.d）
+        ['::', 96],
+        ['100::', 64],
+        ['2001:db8::', 32],
+        ['fc00::', 7],
+        ['fe80::', 10],
+        ['fec0::', 10],
+        ['ff00::', 8],
+    ];
+    for (const [network, prefix] of ipv4) list.addSubnet(network, prefix, 'ipv4');
+    for (const [network, prefix] of ipv6) list.addSubnet(network, prefix, 'ipv6');
+    return list;
+})();
+
+/**
+ * 是否为不允许抓取的地址（内网 / 回环 / 链路本地 / 组播 / 保留地址，含 IPv4 映射的 IPv6 写法）
+ * @param {string} address IP 地址
+ * @returns {boolean} 是否禁止访问
+ */
+export function isPrivateAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) return true;
+    return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * 校验抓取地址：只允许 http(s)，且不能指向内网（RAG_URL_ALLOWED_HOSTS 中的主机除外）
+ * @param {string} url 地址
+ * @returns {Promise<{ url: URL; address?: { address: string; family: number } }>} 解析后的地址，以及校验过的 IP（白名单主机不返回）
+ */
+async function assertFetchableUrl(url: string): Promise<{ url: URL; address?: { address: string; family: number } }> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw badRequest(`URL 不合法: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw badRequest(`只支持 http / https 地址: ${url}`);
+    }
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    const allowed = (process.env.RAG_URL_ALLOWED_HOSTS ?? '').split(',').map((h) => h.trim().toLowerCase()).filter(Boolean);
+    if (allowed.includes(host)) return { url: parsed };
+    const addresses = net.isIP(host)
+        ? [{ address: host, family: net.isIP(host) }]
+        : await dns.lookup(host, { all: true }).catch(() => []);
+    if (addresses.length === 0) throw badRequest(`无法解析主机: ${host}`);
+    if (addresses.some((item) => isPrivateAddress(item.address))) {
+        throw Object.assign(new Error(`不允许抓取内网地址: ${host}`), { status: 403 });
+    }
+    return { url: parsed, address: addresses[0] };
+}
+
+/**
+ * 把连接固定到校验过的 IP：axios 发请求时会再解析一次域名，DNS 重绑定可以在两次解析之间换成内网地址
+ * @param {{ address: string; family: number }} pinned 校验过的地址
+ * @returns {{ httpAgent: nodeHttp.Agent; httpsAgent: nodeHttps.Agent }} 只连接该地址的 Agent
+ */
+function createPinnedAgents(pinned: { address: string; family: number }): { httpAgent: nodeHttp.Agent; httpsAgent: nodeHttps.Agent } {
+    const lookup = ((_hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+        if (options?.all) callback(null, [pinned]);
+        else callback(null, pinned.address, pinned.family);
+    }) as unknown as net.LookupFunction;
+    return { httpAgent: new nodeHttp.Agent({ lookup }), httpsAgent: new nodeHttps.Agent({ lookup }) };
+}
+
+/**
+ * 抓取网页（或网上的文件）并加载为文档；重定向逐跳校验地址
+ * @param {string} url 地址
+ * @returns {Promise<RagLoadResult & { url: string }>} 加载结果与最终地址
+ */
+export async function loadRagUrl(url: string): Promise<RagLoadResult & { url: string }> {
+    let target = await assertFetchableUrl(url);
+    for (let hop = 0; hop <= 5; hop++) {
+        const current = target.url.toString();
+        const response = await http.get<ArrayBuffer>(current, {
+            ...(target.address ? createPinnedAgents(target.address) : {}),
+            responseType: 'arraybuffer',
+            timeout: 15_000,
+            maxRedirects: 0,
+            maxContentLength: 20 * 1024 * 1024,
+            headers: { accept: 'text/html,application/xhtml+xml,text/plain,application/pdf,*/*' },
+            validateStatus: (status) => status < 400 || status === 404,
+        });
+        if (response.status >= 300 && response.status < 400 && response.headers.location) {
+            target = await assertFetchableUrl(new URL(String(response.headers.location), current).toString());
+            continue;
+        }
+        if (response.status !== 200) {
+            throw badRequest(`抓取失败: ${current} -> HTTP ${response.status}`);
+        }
+        const pathname = new URL(current).pathname;
+        const result = await loadRagFile({
+            buffer: Buffer.from(response.data),
+            fileName: path.posix.basename(pathname) || 'index.html',
+            mimeType: String(response.headers['content-type'] ?? ''),
+        });
+        return { ...result, url: current };
+    }
+    throw badRequest(`重定向次数过多: ${url}`);
+}
@@ -0,0 +1,202 @@
+import { Bool, Field, Float64, Utf8 } from 'apache-arrow';
+
+/**
+ * 可过滤的元数据字段类型（date 以毫秒时间戳存储，过滤时可直接写 "2024-01-01"）
+ */
+export type RagMetadataFieldType = 'string' | 'number' | 'date' | 'boolean';
+
+export const ragMetadataFieldTypes: readonly RagMetadataFieldType[] = ['string', 'number', 'date', 'boolean'];
+
+/**
+ * 集合声明的元数据字段：每个字段对应表中的一列（meta_<name>），入库时从文档 metadata 中取值
+ */
+export interface RagMetadataField {
+    name: string;
+    type: RagMetadataFieldType;
+}
+
+/**
+ * 元数据过滤条件：字段 -> 值（相等）/ 数组（in）/ 运算符对象，多个字段之间为 AND
+ * 例：{ "department": "hr", "region": ["cn", "us"], "year": { "gte": 2020 }, "publishedAt": { "gte": "2024-01-01", "lt": "2025-01-01" } }
+ */
+export type RagMetadataFilter = Record<string, unknown>;
+
+const filterOperators = ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte'] as const;
+type FilterOperator = (typeof filterOperators)[number];
+
+const sqlOperators: Record<Exclude<FilterOperator, 'in'>, string> = {
+    eq: '=',
+    ne: '!=',
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+};
+
+/** 所有集合都可以过滤的内置字段（对应表中的固定列） */
+const builtinFields: Record<string, { column: string; type: RagMetadataFieldType }> = {
+    docId: { column: 'doc_id', type: 'string' },
+    source: { column: 'source', type: 'string' },
+    sourceType: { column: 'source_type', type: 'string' },
+    ingestedAt: { column: 'ingested_at', type: 'date' },
+};
+
+function badRequest(message: string): Error & { status: number } {
+    return Object.assign(new Error(message), { status: 400 });
+}
+
+/**
+ * 元数据字段对应的列名
+ * @param {string} name 字段名
+ * @returns {string} 列名
+ */
+export function metadataColumnName(name: string): string {
+    return `meta_${name}`;
+}
+
+/**
+ * 元数据字段对应的 Arrow 列定义（可为空）
+ * @param {RagMetadataField} field 字段
+ * @returns {Field} 列定义
+ */
+export function metadataArrowField(field: RagMetadataField): Field {
+    const type = field.type === 'string' ? new Utf8() : field.type === 'boolean' ? new Bool() : new Float64();
+    return new Field(metadataColumnName(field.name), type, true);
+}
+
+/**
+ * 给已有表补列时使用的 SQL（类型化的空值）
+ * @param {RagMetadataField} field 字段
+ * @returns {string} SQL 表达式
+ */
+export function metadataNullSql(field: RagMetadataField): string {
+    return field.type === 'string' ? 'CAST(NULL AS STRING)' : field.type === 'boolean' ? 'CAST(NULL AS BOOLEAN)' : 'CAST(NULL AS DOUBLE)';
+}
+
+/**
+ * 按字段类型转换值，无法转换时返回 undefined
+ * @param {RagMetadataFieldType} type 字段类型
+ * @param {unknown} value 原始值
+ * @returns {string | number | boolean | undefined} 转换后的值
+ */
+function coerceValue(type: RagMetadataFieldType, value: unknown): string | number | boolean | undefined {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+        case 'number': {
+            const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+            return Number.isFinite(number) ? number : undefined;
+        }
+        case 'date': {
+            const time = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+            return Number.isFinite(time) ? time : undefined;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            return value === 'true' ? true : value === 'false' ? false : undefined;
+    }
+}
+
+const typeNames: Record<RagMetadataFieldType, string> = {
+    string: '字符串',
+    number: '数字',
+    date: '日期（ISO 字符串或毫秒时间戳）',
+    boolean: '布尔值',
+};
+
+/**
+ * 从文档 metadata 中取出声明字段的列值（未提供的字段为 null）
+ * @param {RagMetadataField[]} fields 集合声明的字段
+ * @param {Record<string, unknown>} metadata 文档 metadata
+ * @returns {Record<string, string | number | boolean | null>} 列名 -> 值
+ */
+export function toMetadataColumns(
+    fields: RagMetadataField[],
+    metadata: Record<string, unknown>
+): Record<string, string | number | boolean | null> {
+    const columns: Record<string, string | number | boolean | null> = {};
+    for (const field of fields) {
+        const raw = metadata[field.name];
+        if (raw === undefined || raw === null) {
+            columns[metadataColumnName(field.name)] = null;
+            continue;
+        }
+        const value = coerceValue(field.type, raw);
+        if (value === undefined) {
+            throw badRequest(`metadata.${field.name} 应为${typeNames[field.type]}`);
+        }
+        columns[metadataColumnName(field.name)] = value;
+    }
+    return columns;
+}
+
+/**
+ * 值转 SQL 字面量
+ * @param {RagMetadataFieldType} type 字段类型
+ * @param {unknown} value 值
+ * @param {string} path 报错时使用的字段路径
+ * @returns {string} 字面量
+ */
+function toSqlLiteral(type: RagMetadataFieldType, value: unknown, path: string): string {
+    const coerced = coerceValue(type, value);
+    if (coerced === undefined) {
+        throw badRequest(`filter.${path} 应为${typeNames[type]}`);
+    }
+    if (typeof coerced === 'string') return `'${coerced.replace(/'/g, "''")}'`;
+    return String(coerced);
+}
+
+/**
+ * 把过滤条件编译为 LanceDB 过滤表达式（下推到检索阶段执行）
+ * @param {RagMetadataFilter} filter 过滤条件
+ * @param {RagMetadataField[]} fields 集合声明的字段
+ * @param {string} collection 集合名（用于报错）
+ * @returns {string | undefined} SQL 过滤表达式（无条件时返回 undefined）
+ */
+export function compileMetadataFilter(
+    filter: RagMetadataFilter,
+    fields: RagMetadataField[],
+    collection: string
+): string | undefined {
+    const clauses: string[] = [];
+    for (const [name, condition] of Object.entries(filter)) {
+        const declared = fields.find((field) => field.name === name);
+        const target = declared
+            ? { column: metadataColumnName(name), type: declared.type }
+            : builtinFields[name];
+        if (!target) {
+            const available = [...Object.keys(builtinFields), ...fields.map((field) => field.name)].join(', ');
+            throw badRequest(`集合 ${collection} 没有可过滤的元数据字段 ${name}（可用：${available}）`);
+        }
+
+        // 简写：标量为相等，数组为 in
+        const operators: Record<string, unknown> =
+            condition !== null && typeof condition === 'object' && !Array.isArray(condition)
+                ? (condition as Record<string, unknown>)
+                : Array.isArray(condition)
+                  ? { in: condition }
+                  : { eq: condition };
+        if (Object.keys(operators).length === 0) {
+            throw badRequest(`filter.${name} 不能为空对象`);
+        }
+        for (const [operator, value] of Object.entries(operators)) {
+            if (!(filterOperators as readonly string[]).includes(operator)) {
+                throw badRequest(`filter.${name} 不支持的运算符 ${operator}（可用：${filterOperators.join(', ')}）`);
+            }
+            if (operator === 'in') {
+                if (!Array.isArray(value) || value.length === 0) {
+                    throw badRequest(`filter.${name}.in 应为非空数组`);
+                }
+                const list = value.map((item, i) => toSqlLiteral(target.type, item, `${name}.in[${i}]`));
+                clauses.push(`${target.column} IN (${list.join(', ')})`);
+                continue;
+            }
+            if ((operator === 'gt' || operator === 'gte' || operator === 'lt' || operator === 'lte') && target.type === 'boolean') {
+                throw badRequest(`filter.${name} 为布尔字段，不支持范围比较`);
+            }
+            const literal = toSqlLiteral(target.type, value, `${name}.${operator}`);
+            clauses.push(`${target.column} ${sqlOperators[operator as Exclude<FilterOperator, 'in'>]} ${literal}`);
+        }
+    }
+    return clauses.length > 0 ? clauses.join(' AND ') : undefined;
+}
@@ -0,0 +1,276 @@
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+
+import { createChatModel, type ResolvedModelSpec } from './llm';
+import type { MemoryContext } from './memory';
+import { compileMetadataFilter, type RagMetadataFilter } from './ragMetadata';
+import type { KnowledgeBase, RagChunk } from './ragStore';
+
+/**
+ * 检索方式：纯向量、纯关键词（BM25）或两者融合
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface RetrievalOptions {
+    mode: RetrievalMode;
+    /** 最终返回条数 */
+    k: number;
+    /** 每个集合的向量召回条数 */
+    vectorK: number;
+    /** 每个集合的关键词召回条数 */
+    keywordK: number;
+    /** RRF 常数：越大排名靠后的结果权重衰减越慢 */
+    rrfK: number;
+    /** 重排器名称，"none" 表示不重排 */
+    rerank: string;
+    /** 参与重排的候选数（取融合后的前 N 条） */
+    rerankCandidates: number;
+    /** 重排使用的模型（仅 LLM 类重排器使用） */
+    rerankModel: ResolvedModelSpec;
+    /** 元数据过滤条件（各集合分别编译为过滤表达式，在召回阶段执行） */
+    filter?: RagMetadataFilter;
+    /** 最低余弦相似度：低于该值的片段不参与重排与返回 */
+    minScore?: number;
+}
+
+/**
+ * 各阶段得分（未进入某一路召回时对应字段缺省）
+ */
+export interface RetrievalScores {
+    /** 余弦相似度 */
+    vector?: number;
+    /** 向量召回中的名次（从 1 开始，各集合分别排名） */
+    vectorRank?: number;
+    /** BM25 分数 */
+    keyword?: number;
+    keywordRank?: number;
+    /** 融合分数 */
+    rrf: number;
+    /** 重排分数（0~1） */
+    rerank?: number;
+}
+
+export interface RetrievalHit {
+    chunk: RagChunk;
+    scores: RetrievalScores;
+}
+
+/**
+ * 重排器：给候选片段打与查询的相关度分（0~1，越大越相关）
+ */
+export interface Reranker {
+    name: string;
+    description: string;
+    rerank(query: string, chunks: RagChunk[], options: { model: ResolvedModelSpec }): Promise<number[]>;
+}
+
+const rerankers: Map<string, Reranker> = new Map();
+
+/**
+ * 注册（或覆盖）一个重排器
+ * @param {Reranker} reranker 重排器
+ * @returns {void}
+ */
+export function registerReranker(reranker: Reranker): void {
+    rerankers.set(reranker.name, reranker);
+}
+
+/**
+ * 已注册的重排器
+ * @returns {Array<{ name: string; description: string }>} 名称与说明
+ */
+export function listRerankers(): Array<{ name: string; description: string }> {
+    return [...rerankers.values()].map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * 用对话模型一次性给所有候选打分（0~10），解析失败时保持融合顺序
+ */
+registerReranker({
+    name: 'llm',
+    description: '对话模型逐条打分（一次调用）',
+    async rerank(query, chunks, { model }) {
+        const prompt = ChatPromptTemplate.fromTemplate(`
+        请评估下面每个片段对回答用户问题的帮助程度，给出 0 到 10 的整数分（10 表示能直接回答，0 表示无关）。
+
+        用户问题：{question}
+
+        候选片段：
+        {candidates}
+
+        请只输出 JSON 数组，按片段编号顺序给出分数，例如 [8, 0, 5]。
+        `);
+        const candidates = chunks.map((chunk, i) => `[${i + 1}] ${chunk.text.slice(0, 1000)}`).join('\n\n');
+        const chain = prompt.pipe(createChatModel(model, { temperature: 0 })).pipe(new StringOutputParser());
+        const result = await chain.invoke({ question: query, candidates });
+        try {
+            const parsed = JSON.parse(result.replace(/```json|```/g, '').trim());
+            if (Array.isArray(parsed) && parsed.length === chunks.length && parsed.every((s) => typeof s === 'number')) {
+                return parsed.map((s: number) => Math.min(Math.max(s, 0), 10) / 10);
+            }
+        } catch {
+            // 落到下方按原顺序给分
+        }
+        console.warn('[rag] LLM 重排结果无法解析，保持融合顺序');
+        return chunks.map((_, i) => 1 - i / chunks.length);
+    },
+});
+
+/**
+ * 倒数排名融合（Reciprocal Rank Fusion）：score = Σ 1 / (rrfK + rank)
+ * 各路召回的分数量纲不同（余弦相似度 vs BM25），只按名次融合可避免分数归一化问题
+ * @param {string[][]} rankings 各路召回的片段ID列表（按名次排列）
+ * @param {number} rrfK RRF 常数
+ * @returns {Map<string, number>} 片段ID -> 融合分数
+ */
+export function reciprocalRankFusion(rankings: string[][], rrfK: number): Map<string, number> {
+    const fused: Map<string, number> = new Map();
+    for (const ranking of rankings) {
+        ranking.forEach((id, i) => fused.set(id, (fused.get(id) ?? 0) + 1 / (rrfK + i + 1)));
+    }
+    return fused;
+}
+
+/**
+ * 混合检索：各集合分别做向量 / 关键词召回，RRF 融合后按需重排
+ * @param {KnowledgeBase[]} knowledgeBases 参与检索的集合
+ * @param {string} query 查询文本
+ * @param {RetrievalOptions} options 检索参数
+ * @returns {Promise<RetrievalHit[]>} 命中片段及各阶段得分（按最终顺序）
+ */
+export async function retrieve(
+    knowledgeBases: KnowledgeBase[],
+    query: string,
+    options: RetrievalOptions
+): Promise<RetrievalHit[]> {
+    const reranker = options.rerank === 'none' ? undefined : rerankers.get(options.rerank);
+    if (options.rerank !== 'none' && !reranker) {
+        throw Object.assign(new Error(`未知的重排器: ${options.rerank}（可选：none, ${[...rerankers.keys()].join(', ')}）`), {
+            status: 400,
+        });
+    }
+
+    const hits: Map<string, RetrievalHit> = new Map();
+    const rankings: string[][] = [];
+    const collect = (results: Array<{ chunk: RagChunk; score: number }>, stage: 'vector' | 'keyword') => {
+        const ids = results.map(({ chunk, score }, i) => {
+            const id = `${chunk.collection}/${chunk.chunkId}`;
+            const hit = hits.get(id) ?? { chunk, scores: { rrf: 0 } };
+            if (stage === 'vector') {
+                hit.scores.vector = score;
+                hit.scores.vectorRank = i + 1;
+            } else {
+                hit.scores.keyword = score;
+                hit.scores.keywordRank = i + 1;
+            }
+            hits.set(id, hit);
+            return id;
+        });
+        rankings.push(ids);
+    };
+
+    knowledgeBases = [...new Map(knowledgeBases.map((knowledgeBase) => [knowledgeBase.name, knowledgeBase])).values()];
+    // 先编译全部过滤条件：任一集合缺少所需字段时在检索前报错
+    const filters = knowledgeBases.map((knowledgeBase) =>
+        options.filter ? compileMetadataFilter(options.filter, knowledgeBase.config.metadataFields, knowledgeBase.name) : undefined
+    );
+    await Promise.all(
+        knowledgeBases.map(async (knowledgeBase, i) => {
+            const [vectorResults, keywordResults] = await Promise.all([
+                options.mode === 'keyword' ? undefined : knowledgeBase.similaritySearch(query, options.vectorK, filters[i]),
+                options.mode === 'vector' ? undefined : knowledgeBase.keywordSearch(query, options.keywordK, filters[i]),
+            ]);
+            if (vectorResults) collect(vectorResults, 'vector');
+            if (keywordResults) collect(keywordResults, 'keyword');
+        })
+    );
+
+    for (const [id, score] of reciprocalRankFusion(rankings, options.rrfK)) {
+        hits.get(id)!.scores.rrf = score;
+    }
+    if (options.minScore !== undefined) {
+        await fillVectorScores(knowledgeBases, query, [...hits.values()]);
+        for (const [id, hit] of hits) {
+            if ((hit.scores.vector ?? -1) < options.minScore) hits.delete(id);
+        }
+    }
+    // 融合分相同时（如单路召回的多个集合名次相同）按向量相似度排序
+    const fused = [...hits.values()].sort(
+        (a, b) => b.scores.rrf - a.scores.rrf || (b.scores.vector ?? 0) - (a.scores.vector ?? 0)
+    );
+    if (!reranker || fused.length === 0) return fused.slice(0, options.k);
+
+    const candidates = fused.slice(0, options.rerankCandidates);
+    const scores = await reranker.rerank(query, candidates.map((hit) => hit.chunk), { model: options.rerankModel });
+    candidates.forEach((hit, i) => {
+        hit.scores.rerank = scores[i] ?? 0;
+    });
+    // 稳定排序：同分时保持融合顺序
+    return candidates.sort((a, b) => (b.scores.rerank ?? 0) - (a.scores.rerank ?? 0)).slice(0, options.k);
+}
+
+/**
+ * 补齐只由关键词召回的片段的余弦相似度（相似度阈值对所有片段生效）
+ * @param {KnowledgeBase[]} knowledgeBases 参与检索的集合
+ * @param {string} query 查询文本
+ * @param {RetrievalHit[]} hits 命中片段（原地修改）
+ * @returns {Promise<void>}
+ */
+async function fillVectorScores(knowledgeBases: KnowledgeBase[], query: string, hits: RetrievalHit[]): Promise<void> {
+    const missing: Map<string, RetrievalHit[]> = new Map();
+    for (const hit of hits) {
+        if (hit.scores.vector !== undefined) continue;
+        missing.set(hit.chunk.collection, [...(missing.get(hit.chunk.collection) ?? []), hit]);
+    }
+    await Promise.all(
+        [...missing].map(async ([collection, collectionHits]) => {
+            const knowledgeBase = knowledgeBases.find((kb) => kb.name === collection)!;
+            const scores = await knowledgeBase.scoreChunks(
+                query,
+                collectionHits.map((hit) => hit.chunk.chunkId)
+            );
+            for (const hit of collectionHits) hit.scores.vector = scores.get(hit.chunk.chunkId);
+        })
+    );
+}
+
+/**
+ * 结合对话历史把追问改写为可独立检索的问题（"第二条呢？" -> "劳动合同第二条关于试用期的规定是什么？"）
+ * 没有历史时原样返回；模型返回空内容时退回原问题
+ * @param {string} query 本轮问题
+ * @param {MemoryContext} history 记忆上下文（摘要 / 实体 + 历史消息）
+ * @param {ResolvedModelSpec} model 改写使用的模型
+ * @returns {Promise<string>} 独立问题
+ */
+export async function rewriteStandaloneQuery(
+    query: string,
+    history: MemoryContext,
+    model: ResolvedModelSpec
+): Promise<string> {
+    if (history.messages.length === 0 && !history.systemText) return query;
+
+    const transcript = history.messages
+        .map((m) => {
+            const role = m._getType() === 'human' ? '用户' : m._getType() === 'ai' ? '助手' : '系统';
+            return `${role}：${typeof m.content === 'string' ? m.content : JSON.stringify(m.content)}`;
+        })
+        .join('\n');
+    const prompt = ChatPromptTemplate.fromTemplate(`
+        下面是用户与知识库助手的对话，以及用户的最新问题。
+        请把最新问题改写为一个不依赖对话上下文、可以单独用于检索的完整问题：补全其中的代词与省略的主语、文档名、条款编号等。
+        如果最新问题本身已经完整，原样输出。只输出改写后的问题，不要回答它。
+
+        {summary}
+        对话历史：
+        {history}
+
+        最新问题：{question}
+        `);
+    const chain = prompt.pipe(createChatModel(model, { temperature: 0 })).pipe(new StringOutputParser());
+    const rewritten = await chain.invoke({
+        summary: history.systemText ? `对话背景：\n${history.systemText}\n` : '',
+        history: transcript || '（无）',
+        question: query,
+    });
+    return rewritten.trim().replace(/^["“]|["”]$/g, '') || query;
+}
@@ -0,0 +1,1197 @@
+import { createHash, randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import * as lancedb from '@lancedb/lancedb';
+import { Field, FixedSizeList, Float32, Float64, Int32, Schema, Utf8 } from 'apache-arrow';
+import type { Document } from '@langchain/core/documents';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+
+import { Bm25Index } from './bm25';
+import {
+    defaultEmbeddingModelId,
+    embedDocumentsInBatches,
+    getDefaultEmbeddingModelId,
+    getEmbeddingModel,
+    type EmbeddingModelInfo,
+} from './embeddings';
+import { splitRagDocuments } from './ragLoaders';
+import {
+    metadataArrowField,
+    metadataColumnName,
+    metadataNullSql,
+    toMetadataColumns,
+    type RagMetadataField,
+} from './ragMetadata';
+
+/** 默认集合：对应旧版的 vectors 表 */
+export const defaultCollectionName = 'default';
+/** 默认切片参数：500 字 / 重叠 50 字 */
+export const defaultChunkSize = 500;
+export const defaultChunkOverlap = 50;
+
+const ragDbPath = path.join(process.cwd(), 'data/lancedb');
+const collectionsFile = path.join(ragDbPath, 'collections.json');
+
+/**
+ * 知识库集合配置：每个集合一张 LanceDB 表，各自记录向量模型与切片参数
+ */
+export interface RagCollectionConfig {
+    name: string;
+    description: string;
+    /** LanceDB 表名 */
+    table: string;
+    /** 向量模型ID（见 utils/embeddings.ts） */
+    embeddingModel: string;
+    dimensions: number;
+    chunkSize: number;
+    chunkOverlap: number;
+    /** 可过滤的元数据字段（各自一列，见 utils/ragMetadata.ts） */
+    metadataFields: RagMetadataField[];
+    createdAt: string;
+}
+
+/**
+ * 创建集合的参数
+ */
+export interface RagCollectionInput {
+    name: string;
+    description?: string;
+    embeddingModel?: string;
+    chunkSize?: number;
+    chunkOverlap?: number;
+    metadataFields?: RagMetadataField[];
+}
+
+/**
+ * 文档来源类型：上传文件 / 直接提交的文本 / 抓取的网页
+ */
+export type RagSourceType = 'upload' | 'text' | 'url';
+
+/**
+ * 入库文档的描述信息（同一文档的所有片段共享）
+ */
+export interface RagDocumentInput {
+    /** 文档ID，缺省时由 source 推导，同一来源重复入库会替换旧片段 */
+    docId?: string;
+    /** 来源：文件名或调用方给出的标识 */
+    source: string;
+    sourceType: RagSourceType;
+    metadata?: Record<string, unknown>;
+    /** 原始内容的哈希（如上传文件的 SHA-256）：未给出 docId 且同一文档内容与元数据都未变化时跳过入库 */
+    contentHash?: string;
+}
+
+/**
+ * 入库进度（每完成一批向量化回调一次）
+ */
+export interface RagUpsertProgress {
+    totalChunks: number;
+    /** 已向量化的片段数 */
+    embeddedChunks: number;
+    /** 复用已有向量的片段数（集合中已有相同文本） */
+    reusedChunks: number;
+}
+
+/**
+ * 知识库中的一个片段
+ */
+export interface RagChunk {
+    /** 片段ID，形如 "<docId>#<序号>" */
+    chunkId: string;
+    collection: string;
+    docId: string;
+    index: number;
+    text: string;
+    source: string;
+    /** 片段位置（页码、行号、标题路径、表格行号、压缩包内路径等，见 RagChunkLocation），来自 loader 与 splitter */
+    loc: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * 文档概览
+ */
+export interface RagDocumentSummary {
+    collection: string;
+    docId: string;
+    source: string;
+    sourceType: RagSourceType;
+    chunks: number;
+    characters: number;
+    ingestedAt: string;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * 文档入库结果
+ */
+export interface RagUpsertResult {
+    docId: string;
+    chunks: number;
+    /** 被替换掉的旧片段数（首次入库为 0） */
+    replacedChunks: number;
+    embeddedChunks: number;
+    reusedChunks: number;
+    /** 同一文档的内容与元数据都未变化，本次未入库 */
+    skipped?: boolean;
+}
+
+/**
+ * 重建索引结果
+ */
+export interface RagReembedResult {
+    collection: string;
+    previousEmbeddingModel: string;
+    embeddingModel: string;
+    dimensions: number;
+    /** 新表名 */
+    table: string;
+    chunks: number;
+    embeddedChunks: number;
+    /** 文本相同的片段只向量化一次 */
+    reusedChunks: number;
+}
+
+/**
+ * 表中记录的索引信息（写在表的 schema metadata 中；早期的表没有记录模型，只能核对维度）
+ */
+export interface RagIndexStatus {
+    embeddingModel: string | null;
+    dimensions: number | null;
+    /** 索引与集合配置的向量模型是否一致（表尚未创建时为 true） */
+    ok: boolean;
+    error?: string;
+}
+
+const indexModelKey = 'embedding_model';
+const indexDimensionsKey = 'embedding_dimensions';
+/** 旧版表迁移期间的备份表后缀：迁移写完后删除；迁移中途失败时旧数据保留在备份表中，下次打开时从备份重新迁移 */
+const legacyBackupSuffix = '__legacy_backup';
+
+/**
+ * LanceDB 中的一行（列名使用 snake_case，过滤表达式中无需转义）
+ */
+interface ChunkRow {
+    id: string;
+    doc_id: string;
+    chunk_index: number;
+    text: string;
+    vector: number[];
+    source: string;
+    source_type: string;
+    metadata: string;
+    loc: string;
+    ingested_at: number;
+    /** 片段文本的哈希，相同文本复用已有向量 */
+    content_hash: string;
+    /** 文档原始内容的哈希，用于整文档去重 */
+    doc_hash: string;
+    /** 元数据字段列（meta_<name>） */
+    [metadataColumn: `meta_${string}`]: string | number | boolean | null;
+}
+
+/** 除向量外的所有列（列表 / 详情查询不需要读取向量） */
+const rowColumns = ['id', 'doc_id', 'chunk_index', 'text', 'source', 'source_type', 'metadata', 'loc', 'ingested_at'];
+
+/**
+ * 由来源推导稳定的文档ID
+ * @param {string} source 来源（文件名等）
+ * @returns {string} 文档ID
+ */
+export function createDocumentId(source: string): string {
+    return `doc_${createHash('sha256').update(source).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * 内容哈希（SHA-256 十六进制）
+ * @param {string | Buffer} content 内容
+ * @returns {string} 哈希
+ */
+export function hashContent(content: string | Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 转义过滤表达式中的字符串字面量
+ * @param {string} value 字符串
+ * @returns {string} 带引号的字面量
+ */
+function quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * 解析 JSON 列，损坏时返回空对象
+ * @param {unknown} value 列值
+ * @returns {Record<string, unknown>} 对象
+ */
+function parseJsonColumn(value: unknown): Record<string, unknown> {
+    if (typeof value !== 'string' || !value) return {};
+    try {
+        const parsed = JSON.parse(value);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * 行转片段
+ * @param {any} row LanceDB 行
+ * @param {string} collection 所属集合
+ * @returns {RagChunk} 片段
+ */
+function toChunk(row: any, collection: string): RagChunk {
+    return {
+        chunkId: String(row.id),
+        collection,
+        docId: String(row.doc_id),
+        index: Number(row.chunk_index),
+        text: String(row.text ?? ''),
+        source: String(row.source ?? ''),
+        loc: parseJsonColumn(row.loc),
+        metadata: parseJsonColumn(row.metadata),
+    };
+}
+
+function conflict(message: string): Error & { status: number } {
+    return Object.assign(new Error(message), { status: 409 });
+}
+
+/**
+ * 解析集合配置的向量模型：模型未注册或维度与集合记录不一致时报错（避免用不匹配的向量检索出错误结果）
+ * @param {RagCollectionConfig} config 集合配置
+ * @returns {EmbeddingModelInfo} 向量模型定义
+ */
+function resolveCollectionEmbeddingModel(config: RagCollectionConfig): EmbeddingModelInfo {
+    let info: EmbeddingModelInfo;
+    try {
+        info = getEmbeddingModel(config.embeddingModel);
+    } catch {
+        throw conflict(`集合 ${config.name} 的向量模型 ${config.embeddingModel} 未注册，请注册该模型或用 npm run rag:migrate 换用其它模型重建索引`);
+    }
+    if (info.dimensions !== config.dimensions) {
+        throw conflict(
+            `集合 ${config.name} 的索引为 ${config.dimensions} 维，而向量模型 ${info.id} 为 ${info.dimensions} 维，请用 npm run rag:migrate 重建索引`
+        );
+    }
+    return info;
+}
+
+/**
+ * 校验向量维度（向量模型返回的维度与索引不一致时报错，而不是写入 / 检索出错误结果）
+ * @param {number[][]} vectors 向量
+ * @param {RagCollectionConfig} config 集合配置
+ * @returns {void}
+ */
+function assertVectorDimensions(vectors: number[][], config: RagCollectionConfig): void {
+    const invalid = vectors.find((vector) => vector.length !== config.dimensions);
+    if (invalid) {
+        throw Object.assign(
+            new Error(`向量模型 ${config.embeddingModel} 返回了 ${invalid.length} 维向量，与集合 ${config.name} 的索引（${config.dimensions} 维）不一致`),
+            { status: 502 }
+        );
+    }
+}
+
+/**
+ * 知识库：一个集合对应一张 LanceDB 表，按文档管理片段
+ * - 表在第一次写入时按向量维度显式建表，不再插入占位行
+ * - 同一文档重新入库时按片段ID覆盖写入、再删除新版本中没有的旧片段，期间检索不会出现空窗
+ */
+export class KnowledgeBase {
+    private table: lancedb.Table | undefined;
+    private opening: Promise<lancedb.Table | undefined> | undefined;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+    /** 关键词索引：首次关键词检索时构建，写入 / 删除文档时增量更新，其它写操作后失效 */
+    private keywordIndex: Promise<Bm25Index<RagChunk>> | undefined;
+    /** 向量模型实例：首次用到向量时按配置创建，只读操作（列出、删除文档等）不要求模型可用 */
+    private embeddings: EmbeddingsInterface | undefined;
+    /** 表中记录的索引信息（首次做向量操作时读取） */
+    private indexInfo: { embeddingModel?: string; dimensions: number } | undefined;
+    /** 实例已停用（集合重建索引后切换到了新实例，或集合已删除）：之后的写操作以该错误失败，不会再建表 */
+    private retired: (() => Error) | undefined;
+    private readonly splitter: RecursiveCharacterTextSplitter;
+    private readonly tableName: string;
+    private readonly dimensions: number;
+
+    /**
+     * @param {string} dbPath LanceDB 目录
+     * @param {RagCollectionConfig} config 集合配置
+     */
+    constructor(
+        private readonly dbPath: string,
+        readonly config: RagCollectionConfig
+    ) {
+        this.splitter = new RecursiveCharacterTextSplitter({ chunkSize: config.chunkSize, chunkOverlap: config.chunkOverlap });
+        this.tableName = config.table;
+        this.dimensions = config.dimensions;
+    }
+
+    get name(): string {
+        return this.config.name;
+    }
+
+    /**
+     * 按集合的切片参数切分文档（表格 / JSON 记录按行组合并，见 splitRagDocuments）
+     * @param {Document[]} docs 原始文档
+     * @returns {Promise<Document[]>} 片段
+     */
+    split(docs: Document[]): Promise<Document[]> {
+        return splitRagDocuments(docs, this.splitter, this.config.chunkSize);
+    }
+
+    private async connect(): Promise<lancedb.Connection> {
+        if (!fs.existsSync(this.dbPath)) {
+            fs.mkdirSync(this.dbPath, { recursive: true });
+        }
+        return lancedb.connect(this.dbPath);
+    }
+
+    private createSchema(): Schema {
+        // 向量模型与维度记录在表的 schema metadata 中，集合清单被改动时可以发现不一致
+        const metadata = new Map([
+            [indexModelKey, this.config.embeddingModel],
+            [indexDimensionsKey, String(this.dimensions)],
+        ]);
+        return new Schema([
+            new Field('id', new Utf8()),
+            new Field('doc_id', new Utf8()),
+            new Field('chunk_index', new Int32()),
+            new Field('text', new Utf8()),
+            new Field('vector', new FixedSizeList(this.dimensions, new Field('item', new Float32(), true))),
+            new Field('source', new Utf8()),
+            new Field('source_type', new Utf8()),
+            new Field('metadata', new Utf8()),
+            new Field('loc', new Utf8()),
+            new Field('ingested_at', new Float64()),
+            new Field('content_hash', new Utf8()),
+            new Field('doc_hash', new Utf8()),
+            ...this.config.metadataFields.map(metadataArrowField),
+        ], metadata);
+    }
+
+    /**
+     * 打开表（不存在时返回 undefined，create 为 true 时创建）
+     * @param {boolean} create 是否创建
+     * @returns {Promise<lancedb.Table | undefined>} 表
+     */
+    private async openTable(create = false): Promise<lancedb.Table | undefined> {
+        if (this.table) return this.table;
+        if (!this.opening) {
+            this.opening = (async () => {
+                const db = await this.connect();
+                const tableNames = await db.tableNames();
+                const backupName = `${this.tableName}${legacyBackupSuffix}`;
+                if (tableNames.includes(backupName)) return this.migrateLegacyTable(db, await db.openTable(backupName), true);
+                if (!tableNames.includes(this.tableName)) return undefined;
+                const table = await db.openTable(this.tableName);
+                const fields = (await table.schema()).fields.map((f) => f.name);
+                if (!fields.includes('doc_id')) return this.migrateLegacyTable(db, table, false);
+                // 早期按文档管理的表没有哈希列：补齐为空串（这些旧片段不参与去重）
+                if (!fields.includes('content_hash')) {
+                    await table.addColumns([
+                        { name: 'content_hash', valueSql: "''" },
+                        { name: 'doc_hash', valueSql: "''" },
+                    ]);
+                }
+                // 集合声明了新的元数据字段但表中还没有对应列（例如清单被手动修改）
+                const missing = this.config.metadataFields.filter((field) => !fields.includes(metadataColumnName(field.name)));
+                if (missing.length > 0) {
+                    await table.addColumns(missing.map((field) => ({ name: metadataColumnName(field.name), valueSql: metadataNullSql(field) })));
+                }
+                return table;
+            })().finally(() => {
+                this.opening = undefined;
+            });
+        }
+        this.table = await this.opening;
+        if (!this.table && create) {
+            const db = await this.connect();
+            this.table = await db.createEmptyTable(this.tableName, this.createSchema(), { existOk: true });
+        }
+        return this.table;
+    }
+
+    /**
+     * 向量模型实例（集合配置的模型未注册或维度不符时报错）
+     * @returns {EmbeddingsInterface} 向量模型
+     */
+    private getEmbeddings(): EmbeddingsInterface {
+        if (!this.embeddings) {
+            this.embeddings = resolveCollectionEmbeddingModel(this.config).create();
+        }
+        return this.embeddings;
+    }
+
+    /**
+     * 读取表中记录的索引信息
+     * @param {lancedb.Table} table 表
+     * @returns {Promise<{ embeddingModel?: string; dimensions: number }>} 索引信息
+     */
+    private async readIndexInfo(table: lancedb.Table): Promise<{ embeddingModel?: string; dimensions: number }> {
+        if (!this.indexInfo) {
+            const schema = await table.schema();
+            const vector = schema.fields.find((field) => field.name === 'vector')?.type as FixedSizeList | undefined;
+            this.indexInfo = { embeddingModel: schema.metadata.get(indexModelKey), dimensions: vector?.listSize ?? 0 };
+        }
+        return this.indexInfo;
+    }
+
+    /**
+     * 打开表并核对索引与集合配置的向量模型一致（向量检索与写入前调用）
+     * @param {boolean} create 是否创建
+     * @returns {Promise<lancedb.Table | undefined>} 表
+     */
+    private async openVectorTable(create = false): Promise<lancedb.Table | undefined> {
+        const table = await this.openTable(create);
+        if (!table) return undefined;
+        const { embeddingModel, dimensions } = await this.readIndexInfo(table);
+        if (dimensions !== this.config.dimensions || (embeddingModel && embeddingModel !== this.config.embeddingModel)) {
+            throw conflict(
+                `集合 ${this.name} 的索引由 ${embeddingModel ?? '未记录的模型'}（${dimensions} 维）生成，` +
+                    `与集合配置的向量模型 ${this.config.embeddingModel}（${this.config.dimensions} 维）不一致，请用 npm run rag:migrate 重建索引`
+            );
+        }
+        return table;
+    }
+
+    /**
+     * 查询向量（校验维度）
+     * @param {string} query 查询文本
+     * @returns {Promise<number[]>} 向量
+     */
+    private async embedQuery(query: string): Promise<number[]> {
+        const vector = await this.getEmbeddings().embedQuery(query);
+        assertVectorDimensions([vector], this.config);
+        return vector;
+    }
+
+    /**
+     * 索引状态：表中记录的向量模型与维度是否与集合配置一致
+     * @returns {Promise<RagIndexStatus>} 索引状态
+     */
+    async indexStatus(): Promise<RagIndexStatus> {
+        const table = await this.openTable();
+        const info = table ? await this.readIndexInfo(table) : undefined;
+        try {
+            resolveCollectionEmbeddingModel(this.config);
+            await this.openVectorTable();
+            return { embeddingModel: info?.embeddingModel ?? null, dimensions: info?.dimensions ?? null, ok: true };
+        } catch (err) {
+            return {
+                embeddingModel: info?.embeddingModel ?? null,
+                dimensions: info?.dimensions ?? null,
+                ok: false,
+                error: (err as Error).message,
+            };
+        }
+    }
+
+    /**
+     * 旧版表（id / vector / text / metadata + 占位行 "init"）迁移为按文档管理的结构
+     * 旧数据没有来源信息，每个片段各自成为一个文档。
+     * 覆盖原表前先把旧数据整体复制到备份表，新表写完后才删除备份，写入失败（维度不符、磁盘已满、进程退出）时旧数据不会丢失。
+     * @param {lancedb.Connection} db 连接
+     * @param {lancedb.Table} legacy 旧表（或上次未完成迁移留下的备份表）
+     * @param {boolean} fromBackup legacy 是否为备份表
+     * @returns {Promise<lancedb.Table | undefined>} 新表（旧表只有占位行时删除并返回 undefined）
+     */
+    private async migrateLegacyTable(db: lancedb.Connection, legacy: lancedb.Table, fromBackup: boolean): Promise<lancedb.Table | undefined> {
+        const backupName = `${this.tableName}${legacyBackupSuffix}`;
+        const data = await legacy.query().toArrow();
+        if (!fromBackup && data.numRows > 0) {
+            // 一次写入整个 Arrow 表：备份表要么完整存在，要么不存在
+            await db.createTable(backupName, data, { mode: 'overwrite' });
+        }
+        const now = Date.now();
+        const rows: ChunkRow[] = data.toArray()
+            .filter((row: any) => row.id !== 'init' && typeof row.text === 'string' && row.text)
+            .map((row: any) => {
+                const docId = createDocumentId(`legacy:${row.text}`);
+                return {
+                    id: `${docId}#0`,
+                    doc_id: docId,
+                    chunk_index: 0,
+                    text: row.text,
+                    vector: Array.from(row.vector as ArrayLike<number>),
+                    source: 'legacy',
+                    source_type: 'text',
+                    metadata: typeof row.metadata === 'string' ? row.metadata : '{}',
+                    loc: '{}',
+                    ingested_at: now,
+                    content_hash: hashContent(row.text),
+                    doc_hash: '',
+                    ...toMetadataColumns(this.config.metadataFields, {}),
+                };
+            });
+        console.log(`[rag] 迁移旧版知识库表 ${this.tableName}：${rows.length} 个片段`);
+        let table: lancedb.Table | undefined;
+        if (rows.length > 0) {
+            table = await db.createEmptyTable(this.tableName, this.createSchema(), { mode: 'overwrite' });
+            await table.add(rows as unknown as Record<string, unknown>[]);
+        } else if ((await db.tableNames()).includes(this.tableName)) {
+            await db.dropTable(this.tableName);
+        }
+        if ((await db.tableNames()).includes(backupName)) await db.dropTable(backupName);
+        return table;
+    }
+
+    /**
+     * 串行执行写操作（建表 / 写入 / 删除），避免并发首写时重复建表
+     * @template T
+     * @param {() => Promise<T>} task 写操作
+     * @param {(index: Bm25Index<RagChunk>) => void} [updateKeywordIndex] 写入成功后同步关键词索引（须可重复执行）；缺省时索引失效
+     * @returns {Promise<T>} 结果
+     */
+    private enqueueWrite<T>(task: () => Promise<T>, updateKeywordIndex?: (index: Bm25Index<RagChunk>) => void): Promise<T> {
+        const guarded = () => (this.retired ? Promise.reject(this.retired()) : task());
+        const run = this.writeQueue.then(guarded, guarded).then(
+            (result) => {
+                if (this.keywordIndex && updateKeywordIndex) {
+                    // 构建中的索引可能已读到本次写入，更新是幂等的（先按文档移除再加入）
+                    this.setKeywordIndex(this.keywordIndex.then((index) => {
+                        updateKeywordIndex(index);
+                        return index;
+                    }));
+                } else {
+                    this.keywordIndex = undefined;
+                }
+                return result;
+            },
+            (err) => {
+                this.keywordIndex = undefined;
+                throw err;
+            }
+        );
+        this.writeQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * 替换关键词索引，构建失败时清空以便下次重试
+     * @param {Promise<Bm25Index<RagChunk>>} index 索引
+     * @returns {void}
+     */
+    private setKeywordIndex(index: Promise<Bm25Index<RagChunk>>): void {
+        this.keywordIndex = index;
+        index.catch(() => {
+            if (this.keywordIndex === index) this.keywordIndex = undefined;
+        });
+    }
+
+    /**
+     * 查找内容与元数据都未变化的文档
+     * @param {string} docId 文档ID
+     * @param {string} contentHash 原始内容哈希
+     * @param {string} metadata 元数据（JSON 字符串）
+     * @returns {Promise<number | undefined>} 已有片段数（文档不存在或有变化时返回 undefined）
+     */
+    private async findUnchangedDocument(docId: string, contentHash: string, metadata: string): Promise<number | undefined> {
+        const table = await this.openTable();
+        if (!table) return undefined;
+        const filter = `doc_id = ${quote(docId)}`;
+        const rows = await table.query().where(filter).select(['doc_hash', 'metadata']).limit(1).toArray();
+        if (rows.length === 0 || String(rows[0].doc_hash) !== contentHash || String(rows[0].metadata) !== metadata) return undefined;
+        return table.countRows(filter);
+    }
+
+    /**
+     * 按片段文本哈希查找已有向量
+     * @param {string[]} hashes 片段文本哈希
+     * @returns {Promise<Map<string, number[]>>} 哈希 -> 向量
+     */
+    private async findVectorsByContentHash(hashes: string[]): Promise<Map<string, number[]>> {
+        const vectors: Map<string, number[]> = new Map();
+        const table = await this.openVectorTable();
+        if (!table) return vectors;
+        const unique = [...new Set(hashes)];
+        // 哈希为十六进制字符串，可直接拼进 IN 列表；分批避免过长的过滤表达式
+        for (let start = 0; start < unique.length; start += 200) {
+            const list = unique.slice(start, start + 200).map(quote).join(', ');
+            const rows = await table.query().where(`content_hash IN (${list})`).select(['content_hash', 'vector']).toArray();
+            for (const row of rows) vectors.set(String(row.content_hash), Array.from(row.vector as ArrayLike<number>));
+        }
+        return vectors;
+    }
+
+    /**
+     * 写入（或替换）一个文档的全部片段
+     * - 未给出 docId 时，若同一文档（由 source 推导）的 contentHash 与元数据都未变化则直接跳过
+     * - 集合中已有相同文本的片段复用其向量，其余片段分批向量化
+     * @param {RagDocumentInput} input 文档描述
+     * @param {Document[]} chunks 切分后的片段
+     * @param {(progress: RagUpsertProgress) => void} [onProgress] 向量化进度回调
+     * @returns {Promise<RagUpsertResult>} 入库结果
+     */
+    async upsertDocument(
+        input: RagDocumentInput,
+        chunks: Document[],
+        onProgress?: (progress: RagUpsertProgress) => void
+    ): Promise<RagUpsertResult> {
+        if (chunks.length === 0) {
+            throw Object.assign(new Error('文档中没有可索引的文本'), { status: 400 });
+        }
+        const docId = input.docId ?? createDocumentId(input.source);
+        const metadata = JSON.stringify(input.metadata ?? {});
+        // 调用方显式给出 docId 时总是写入；否则同一来源的内容与元数据都没变时跳过
+        if (!input.docId && input.contentHash) {
+            const existing = await this.findUnchangedDocument(docId, input.contentHash, metadata);
+            if (existing !== undefined) {
+                return { docId, chunks: existing, replacedChunks: 0, embeddedChunks: 0, reusedChunks: 0, skipped: true };
+            }
+        }
+        // 先校验元数据类型，避免向量化之后才报错
+        toMetadataColumns(this.config.metadataFields, input.metadata ?? {});
+
+        // 向量化在写队列外进行，耗时的网络调用不阻塞其它文档的写入
+        const hashes = chunks.map((chunk) => hashContent(chunk.pageContent));
+        const known = await this.findVectorsByContentHash(hashes);
+        const pending = chunks.map((_, index) => index).filter((index) => !known.has(hashes[index]));
+        const reusedChunks = chunks.length - pending.length;
+        const report = (embeddedChunks: number) => onProgress?.({ totalChunks: chunks.length, embeddedChunks, reusedChunks });
+        report(0);
+        const embedded = await embedDocumentsInBatches(
+            this.config.embeddingModel,
+            this.getEmbeddings(),
+            pending.map((index) => chunks[index].pageContent),
+            report
+        );
+        assertVectorDimensions(embedded, this.config);
+        const vectors = hashes.map((hash) => known.get(hash));
+        pending.forEach((index, i) => {
+            vectors[index] = embedded[i];
+        });
+
+        const ingestedAt = Date.now();
+        const toRows = (): ChunkRow[] => chunks.map((chunk, index) => ({
+            id: `${docId}#${index}`,
+            doc_id: docId,
+            chunk_index: index,
+            text: chunk.pageContent,
+            vector: vectors[index]!,
+            source: input.source,
+            source_type: input.sourceType,
+            metadata,
+            loc: JSON.stringify(chunk.metadata?.loc ?? {}),
+            ingested_at: ingestedAt,
+            content_hash: hashes[index],
+            doc_hash: input.contentHash ?? '',
+            ...toMetadataColumns(this.config.metadataFields, input.metadata ?? {}),
+        }));
+
+        let written: RagChunk[] = [];
+        return this.enqueueWrite(async () => {
+            // 在写队列内生成行：排队期间集合可能新增了元数据字段
+            const rows = toRows();
+            const table = (await this.openVectorTable(true))!;
+            const previous = (await table.query().where(`doc_id = ${quote(docId)}`).select(['id']).toArray()).map((row) => String(row.id));
+            // 按片段ID覆盖写入，再删除新版本中已不存在的旧片段（文档变短时多出的序号）
+            await table
+                .mergeInsert('id')
+                .whenMatchedUpdateAll()
+                .whenNotMatchedInsertAll()
+                .execute(rows as unknown as Record<string, unknown>[]);
+            const ids = new Set(rows.map((row) => row.id));
+            const stale = previous.filter((id) => !ids.has(id));
+            for (let start = 0; start < stale.length; start += 200) {
+                await table.delete(`id IN (${stale.slice(start, start + 200).map(quote).join(', ')})`);
+            }
+            written = rows.map((row) => toChunk(row, this.name));
+            return { docId, chunks: rows.length, replacedChunks: previous.length, embeddedChunks: pending.length, reusedChunks };
+        }, (index) => {
+            index.remove((chunk) => chunk.docId === docId);
+            index.add(written);
+        });
+    }
+
+    /**
+     * 删除一个文档的全部片段
+     * @param {string} docId 文档ID
+     * @returns {Promise<number>} 删除的片段数（0 表示文档不存在）
+     */
+    async deleteDocument(docId: string): Promise<number> {
+        return this.enqueueWrite(async () => {
+            const table = await this.openTable();
+            if (!table) return 0;
+            const filter = `doc_id = ${quote(docId)}`;
+            const count = await table.countRows(filter);
+            if (count > 0) await table.delete(filter);
+            return count;
+        }, (index) => {
+            index.remove((chunk) => chunk.docId === docId);
+        });
+    }
+
+    /**
+     * 列出所有文档及其片段数
+     * @returns {Promise<RagDocumentSummary[]>} 文档列表（按入库时间倒序）
+     */
+    async listDocuments(): Promise<RagDocumentSummary[]> {
+        const table = await this.openTable();
+        if (!table) return [];
+        const rows = await table.query().select(rowColumns).toArray();
+        const documents: Map<string, RagDocumentSummary> = new Map();
+        for (const row of rows) {
+            const docId = String(row.doc_id);
+            let summary = documents.get(docId);
+            if (!summary) {
+                summary = {
+                    collection: this.name,
+                    docId,
+                    source: String(row.source ?? ''),
+                    sourceType: row.source_type as RagSourceType,
+                    chunks: 0,
+                    characters: 0,
+                    ingestedAt: new Date(Number(row.ingested_at)).toISOString(),
+                    metadata: parseJsonColumn(row.metadata),
+                };
+                documents.set(docId, summary);
+            }
+            summary.chunks += 1;
+            summary.characters += String(row.text ?? '').length;
+        }
+        return [...documents.values()].sort((a, b) => b.ingestedAt.localeCompare(a.ingestedAt));
+    }
+
+    /**
+     * 获取文档及其全部片段
+     * @param {string} docId 文档ID
+     * @returns {Promise<(RagDocumentSummary & { chunkList: RagChunk[] }) | undefined>} 文档（不存在时返回 undefined）
+     */
+    async getDocument(docId: string): Promise<(RagDocumentSummary & { chunkList: RagChunk[] }) | undefined> {
+        const table = await this.openTable();
+        if (!table) return undefined;
+        const rows = await table.query().where(`doc_id = ${quote(docId)}`).select(rowColumns).toArray();
+        if (rows.length === 0) return undefined;
+        const chunkList = rows.map((row) => toChunk(row, this.name)).sort((a, b) => a.index - b.index);
+        const first = rows[0];
+        return {
+            collection: this.name,
+            docId,
+            source: String(first.source ?? ''),
+            sourceType: first.source_type as RagSourceType,
+            chunks: chunkList.length,
+            characters: chunkList.reduce((sum, chunk) => sum + chunk.text.length, 0),
+            ingestedAt: new Date(Number(first.ingested_at)).toISOString(),
+            metadata: parseJsonColumn(first.metadata),
+            chunkList,
+        };
+    }
+
+    /**
+     * 向量检索
+     * @param {string} query 查询文本
+     * @param {number} k 返回条数
+     * @param {string} [where] 过滤表达式（见 compileMetadataFilter），在检索前执行
+     * @returns {Promise<Array<{ chunk: RagChunk; score: number }>>} 片段及余弦相似度（越大越相关）
+     */
+    async similaritySearch(query: string, k: number, where?: string): Promise<Array<{ chunk: RagChunk; score: number }>> {
+        const table = await this.openVectorTable();
+        if (!table) return [];
+        const vector = await this.embedQuery(query);
+        let search = table.vectorSearch(vector).distanceType('cosine');
+        if (where) search = search.where(where);
+        const rows = await search
+            .select([...rowColumns, '_distance'])
+            .limit(k)
+            .toArray();
+        return rows.map((row: any) => ({ chunk: toChunk(row, this.name), score: 1 - Number(row._distance) }));
+    }
+
+    /**
+     * 计算指定片段与查询的余弦相似度（用于只由关键词召回的片段）
+     * @param {string} query 查询文本
+     * @param {string[]} chunkIds 片段ID
+     * @returns {Promise<Map<string, number>>} 片段ID -> 相似度
+     */
+    async scoreChunks(query: string, chunkIds: string[]): Promise<Map<string, number>> {
+        const scores: Map<string, number> = new Map();
+        const table = await this.openVectorTable();
+        if (!table || chunkIds.length === 0) return scores;
+        const vector = await this.embedQuery(query);
+        const rows = await table
+            .vectorSearch(vector)
+            .distanceType('cosine')
+            .where(`id IN (${chunkIds.map(quote).join(', ')})`)
+            .select(['id', '_distance'])
+            .limit(chunkIds.length)
+            .toArray();
+        for (const row of rows) scores.set(String(row.id), 1 - Number(row._distance));
+        return scores;
+    }
+
+    /**
+     * 关键词检索（BM25，分词方式见 utils/bm25.ts）
+     * @param {string} query 查询文本
+     * @param {number} k 返回条数
+     * @param {string} [where] 过滤表达式，只在满足条件的片段中检索
+     * @returns {Promise<Array<{ chunk: RagChunk; score: number }>>} 片段及 BM25 分数
+     */
+    async keywordSearch(query: string, k: number, where?: string): Promise<Array<{ chunk: RagChunk; score: number }>> {
+        if (!this.keywordIndex) {
+            this.setKeywordIndex((async () => {
+                const table = await this.openTable();
+                const rows = table ? await table.query().select(rowColumns).toArray() : [];
+                return new Bm25Index(rows.map((row) => toChunk(row, this.name)), (chunk: RagChunk) => chunk.text);
+            })());
+        }
+        const index = await this.keywordIndex!;
+        let allowed: Set<string> | undefined;
+        if (where) {
+            const table = await this.openTable();
+            const rows = table ? await table.query().where(where).select(['id']).toArray() : [];
+            allowed = new Set(rows.map((row) => String(row.id)));
+        }
+        return index
+            .search(query, k, allowed && ((chunk) => allowed.has(chunk.chunkId)))
+            .map(({ document, score }) => ({ chunk: document, score }));
+    }
+
+    /**
+     * 片段数与文档数
+     * @returns {Promise<{ documents: number; chunks: number }>} 统计
+     */
+    async stats(): Promise<{ documents: number; chunks: number }> {
+        const table = await this.openTable();
+        if (!table) return { documents: 0, chunks: 0 };
+        const rows = await table.query().select(['doc_id']).toArray();
+        return { documents: new Set(rows.map((row: any) => String(row.doc_id))).size, chunks: rows.length };
+    }
+
+    /**
+     * 新增可过滤的元数据字段：表中加列，并按已有文档的 metadata 回填
+     * @param {RagMetadataField} field 字段
+     * @returns {Promise<number>} 回填的文档数
+     */
+    async addMetadataField(field: RagMetadataField): Promise<number> {
+        return this.enqueueWrite(async () => {
+            const table = await this.openTable();
+            let backfilled = 0;
+            if (table) {
+                const column = metadataColumnName(field.name);
+                await table.addColumns([{ name: column, valueSql: metadataNullSql(field) }]);
+                // 按已有文档的 metadata 回填，值相同的文档合并为一次更新
+                const documents: Map<string, string> = new Map();
+                for (const row of await table.query().select(['doc_id', 'metadata']).toArray()) {
+                    documents.set(String(row.doc_id), String(row.metadata ?? ''));
+                }
+                const groups: Map<string | number | boolean, string[]> = new Map();
+                for (const [docId, metadata] of documents) {
+                    let value: string | number | boolean | null = null;
+                    try {
+                        value = toMetadataColumns([field], parseJsonColumn(metadata))[column];
+                    } catch {
+                        console.warn(`[rag] 文档 ${docId} 的 metadata.${field.name} 类型不符，回填时跳过`);
+                    }
+                    if (value === null) continue;
+                    groups.set(value, [...(groups.get(value) ?? []), docId]);
+                }
+                for (const [value, docIds] of groups) {
+                    await table.update({ where: `doc_id IN (${docIds.map(quote).join(', ')})`, values: { [column]: value } });
+                    backfilled += docIds.length;
+                }
+            }
+            this.config.metadataFields.push(field);
+            return backfilled;
+        });
+    }
+
+    /**
+     * 删除整张表并停用本实例
+     * 排在已入队的写操作之后执行；之后排队或新提交的写操作都失败，不会重新建表
+     * @returns {Promise<void>}
+     */
+    async drop(): Promise<void> {
+        await this.enqueueWrite(async () => {
+            const db = await this.connect();
+            if ((await db.tableNames()).includes(this.tableName)) {
+                await db.dropTable(this.tableName);
+            }
+            this.retired = () => Object.assign(new Error(`知识库集合不存在: ${this.name}`), { status: 404 });
+            this.table = undefined;
+            this.indexInfo = undefined;
+        });
+    }
+
+    /**
+     * 用另一个向量模型重建索引：读出全部片段重新向量化，写入新表后切换配置并删除旧表
+     * 重建期间检索仍使用旧表；写操作排队，切换后因本实例已停用而失败（调用方重试即写入新表）
+     * @param {EmbeddingModelInfo} model 新的向量模型
+     * @param {(next: KnowledgeBase) => void} commit 新表写好后切换集合配置（在写队列内同步执行）
+     * @param {(progress: RagUpsertProgress) => void} [onProgress] 向量化进度回调
+     * @returns {Promise<RagReembedResult>} 重建结果
+     */
+    async reembed(
+        model: EmbeddingModelInfo,
+        commit: (next: KnowledgeBase) => void,
+        onProgress?: (progress: RagUpsertProgress) => void
+    ): Promise<RagReembedResult> {
+        return this.enqueueWrite(async () => {
+            // 表名带上时间戳，与旧表同时存在直到切换完成
+            const baseTable = this.tableName.replace(/__r[0-9a-z]+$/, '');
+            const next = new KnowledgeBase(this.dbPath, {
+                ...this.config,
+                table: `${baseTable}__r${Date.now().toString(36)}`,
+                embeddingModel: model.id,
+                dimensions: model.dimensions,
+                metadataFields: [...this.config.metadataFields],
+            });
+
+            const table = await this.openTable();
+            const rows = table ? await table.query().toArray() : [];
+            const columns = table ? (await table.schema()).fields.map((field) => field.name) : [];
+            // 文本相同的片段只向量化一次
+            const hashes = rows.map((row: any) => String(row.content_hash || hashContent(String(row.text ?? ''))));
+            const texts: Map<string, string> = new Map();
+            rows.forEach((row: any, i) => {
+                if (!texts.has(hashes[i])) texts.set(hashes[i], String(row.text ?? ''));
+            });
+            const reusedChunks = rows.length - texts.size;
+            onProgress?.({ totalChunks: rows.length, embeddedChunks: 0, reusedChunks });
+            const embedded = await embedDocumentsInBatches(model.id, next.getEmbeddings(), [...texts.values()], (done) =>
+                onProgress?.({ totalChunks: rows.length, embeddedChunks: done, reusedChunks })
+            );
+            assertVectorDimensions(embedded, next.config);
+            const vectors = new Map([...texts.keys()].map((hash, i) => [hash, embedded[i]]));
+
+            if (rows.length > 0) {
+                const nextRows = rows.map((row: any, i) => ({
+                    ...Object.fromEntries(columns.map((column) => [column, row[column]])),
+                    vector: vectors.get(hashes[i])!,
+                    content_hash: hashes[i],
+                }));
+                const nextTable = (await next.openTable(true))!;
+                for (let start = 0; start < nextRows.length; start += 1000) {
+                    await nextTable.add(nextRows.slice(start, start + 1000));
+                }
+            }
+
+            commit(next);
+            this.retired = () => conflict(`集合 ${this.name} 刚刚重建了索引，请重试`);
+            if (table) {
+                const db = await this.connect();
+                await db.dropTable(this.tableName);
+            }
+            this.table = undefined;
+            return {
+                collection: this.name,
+                previousEmbeddingModel: this.config.embeddingModel,
+                embeddingModel: model.id,
+                dimensions: model.dimensions,
+                table: next.config.table,
+                chunks: rows.length,
+                embeddedChunks: texts.size,
+                reusedChunks,
+            };
+        });
+    }
+}
+
+// --- 集合 ---
+
+/**
+ * 默认集合配置：沿用旧版的 vectors 表
+ * @returns {RagCollectionConfig} 配置
+ */
+function createDefaultCollectionConfig(): RagCollectionConfig {
+    return {
+        name: defaultCollectionName,
+        description: '默认知识库',
+        table: 'vectors',
+        embeddingModel: defaultEmbeddingModelId,
+        dimensions: getEmbeddingModel(defaultEmbeddingModelId).dimensions,
+        chunkSize: defaultChunkSize,
+        chunkOverlap: defaultChunkOverlap,
+        metadataFields: [],
+        createdAt: new Date(0).toISOString(),
+    };
+}
+
+let collectionConfigs: Map<string, RagCollectionConfig> | undefined;
+const knowledgeBases: Map<string, KnowledgeBase> = new Map();
+
+/**
+ * 读取集合清单（data/lancedb/collections.json），默认集合始终存在
+ * @returns {Map<string, RagCollectionConfig>} 集合配置
+ */
+function loadCollectionConfigs(): Map<string, RagCollectionConfig> {
+    if (collectionConfigs) return collectionConfigs;
+    collectionConfigs = new Map([[defaultCollectionName, createDefaultCollectionConfig()]]);
+    if (fs.existsSync(collectionsFile)) {
+        try {
+            const parsed = JSON.parse(fs.readFileSync(collectionsFile, 'utf-8'));
+            for (const config of Object.values(parsed?.collections ?? {}) as RagCollectionConfig[]) {
+                // 早期清单没有 metadataFields
+                collectionConfigs.set(config.name, { ...config, metadataFields: config.metadataFields ?? [] });
+            }
+        } catch (err) {
+            console.error('知识库集合清单加载失败:', (err as Error).message);
+        }
+    }
+    return collectionConfigs;
+}
+
+/**
+ * 写回集合清单（先写临时文件再 rename）
+ * @returns {void}
+ */
+function saveCollectionConfigs(): void {
+    const configs = loadCollectionConfigs();
+    if (!fs.existsSync(ragDbPath)) {
+        fs.mkdirSync(ragDbPath, { recursive: true });
+    }
+    // 临时文件名唯一，多个进程（或容器内同号进程）共用知识库目录时不会写进同一个临时文件
+    const tmpPath = `${collectionsFile}.${process.pid}.${randomUUID()}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ collections: Object.fromEntries(configs) }, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, collectionsFile);
+}
+
+/**
+ * 列出集合
+ * @returns {RagCollectionConfig[]} 集合配置（默认集合在前）
+ */
+export function listCollections(): RagCollectionConfig[] {
+    return [...loadCollectionConfigs().values()];
+}
+
+/**
+ * 获取集合配置
+ * @param {string} name 集合名
+ * @returns {RagCollectionConfig} 配置（不存在时抛出 404）
+ */
+export function getCollectionConfig(name: string): RagCollectionConfig {
+    const config = loadCollectionConfigs().get(name);
+    if (!config) {
+        throw Object.assign(new Error(`知识库集合不存在: ${name}，请先创建`), { status: 404 });
+    }
+    return config;
+}
+
+/**
+ * 创建集合
+ * @param {RagCollectionInput} input 集合参数
+ * @returns {RagCollectionConfig} 配置
+ */
+export function createCollection(input: RagCollectionInput): RagCollectionConfig {
+    const configs = loadCollectionConfigs();
+    if (configs.has(input.name)) {
+        throw Object.assign(new Error(`知识库集合已存在: ${input.name}`), { status: 409 });
+    }
+    const embeddingModel = getEmbeddingModel(input.embeddingModel ?? getDefaultEmbeddingModelId());
+    const chunkSize = input.chunkSize ?? defaultChunkSize;
+    const chunkOverlap = input.chunkOverlap ?? Math.min(defaultChunkOverlap, Math.floor(chunkSize / 5));
+    if (chunkOverlap >= chunkSize) {
+        throw Object.assign(new Error('chunkOverlap 必须小于 chunkSize'), { status: 400 });
+    }
+    const metadataFields = input.metadataFields ?? [];
+    const duplicated = metadataFields.find((field, i) => metadataFields.findIndex((f) => f.name === field.name) !== i);
+    if (duplicated) {
+        throw Object.assign(new Error(`元数据字段重复: ${duplicated.name}`), { status: 400 });
+    }
+    const config: RagCollectionConfig = {
+        name: input.name,
+        description: input.description ?? '',
+        table: `kb_${input.name}`,
+        embeddingModel: embeddingModel.id,
+        dimensions: embeddingModel.dimensions,
+        chunkSize,
+        chunkOverlap,
+        metadataFields: metadataFields.map(({ name, type }) => ({ name, type })),
+        createdAt: new Date().toISOString(),
+    };
+    configs.set(config.name, config);
+    saveCollectionConfigs();
+    return config;
+}
+
+/**
+ * 为集合新增可过滤的元数据字段（已有文档按其 metadata 回填）
+ * @param {string} name 集合名
+ * @param {RagMetadataField} field 字段
+ * @returns {Promise<{ config: RagCollectionConfig; backfilledDocuments: number }>} 更新后的配置与回填的文档数
+ */
+export async function addCollectionMetadataField(
+    name: string,
+    field: RagMetadataField
+): Promise<{ config: RagCollectionConfig; backfilledDocuments: number }> {
+    const config = getCollectionConfig(name);
+    if (config.metadataFields.some((f) => f.name === field.name)) {
+        throw Object.assign(new Error(`集合 ${name} 已有元数据字段 ${field.name}`), { status: 409 });
+    }
+    const backfilledDocuments = await getKnowledgeBase(name).addMetadataField({ name: field.name, type: field.type });
+    saveCollectionConfigs();
+    return { config, backfilledDocuments };
+}
+
+/**
+ * 用新的向量模型重建集合索引（也可用同一模型重建，修复损坏或维度不一致的索引）
+ * @param {string} name 集合名
+ * @param {string} embeddingModel 新的向量模型ID
+ * @param {(progress: RagUpsertProgress) => void} [onProgress] 向量化进度回调
+ * @returns {Promise<RagReembedResult>} 重建结果
+ */
+export async function reembedCollection(
+    name: string,
+    embeddingModel: string,
+    onProgress?: (progress: RagUpsertProgress) => void
+): Promise<RagReembedResult> {
+    const model = getEmbeddingModel(embeddingModel);
+    return getKnowledgeBase(name).reembed(
+        model,
+        (next) => {
+            loadCollectionConfigs().set(name, next.config);
+            knowledgeBases.set(name, next);
+            saveCollectionConfigs();
+        },
+        onProgress
+    );
+}
+
+/**
+ * 删除集合及其表（默认集合不可删除）
+ * @param {string} name 集合名
+ * @returns {Promise<void>}
+ */
+export async function dropCollection(name: string): Promise<void> {
+    if (name === defaultCollectionName) {
+        throw Object.assign(new Error('默认集合不可删除，可逐个删除其中的文档'), { status: 400 });
+    }
+    const knowledgeBase = getKnowledgeBase(name);
+    await knowledgeBase.drop();
+    knowledgeBases.delete(name);
+    loadCollectionConfigs().delete(name);
+    saveCollectionConfigs();
+}
+
+/**
+ * 获取集合对应的知识库
+ * @param {string} [name] 集合名，缺省为默认集合
+ * @returns {KnowledgeBase} 知识库（集合不存在时抛出 404）
+ */
+export function getKnowledgeBase(name: string = defaultCollectionName): KnowledgeBase {
+    let knowledgeBase = knowledgeBases.get(name);
+    if (!knowledgeBase) {
+        knowledgeBase = new KnowledgeBase(ragDbPath, getCollectionConfig(name));
+        knowledgeBases.set(name, knowledgeBase);
+    }
+    return knowledgeBase;
+}
+
+/**
+ * 跨集合检索：各集合分别用自己的向量模型检索，再按相似度合并
+ * @param {string[]} collections 集合名列表
+ * @param {string} query 查询文本
+ * @param {number} k 返回条数
+ * @returns {Promise<Array<{ chunk: RagChunk; score: number }>>} 片段及相似度
+ */
+export async function searchCollections(
+    collections: string[],
+    query: string,
+    k: number
+): Promise<Array<{ chunk: RagChunk; score: number }>> {
+    const knowledgeBases = [...new Set(collections)].map((name) => getKnowledgeBase(name));
+    const results = await Promise.all(knowledgeBases.map((knowledgeBase) => knowledgeBase.similaritySearch(query, k)));
+    return results.flat().sort((a, b) => b.score - a.score).slice(0, k);
+}
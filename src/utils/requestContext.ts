@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type UsageKind = 'chat' | 'embedding';
+
+/**
+ * 单个模型在一次请求内的累计用量
+ */
+export interface ModelUsage {
+    /** 规范化模型名 "provider:model" */
+    model: string;
+    kind: UsageKind;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+/**
+ * 单次请求（或一次 WebSocket 任务）的上下文
+ * 通过 AsyncLocalStorage 传递，模型回调里也能拿到，无需层层透传参数。
+ */
+export interface RequestContext {
+    /** 鉴权通过的 API Key 名称（鉴权关闭时为空） */
+    apiKeyName?: string;
+    /** 路由（HTTP 路由模板，未命中路由时为实际路径；或网关路由） */
+    route: string;
+    /** 聊天类请求所属会话 */
+    sessionId?: string;
+    /** 按模型累计的用量（含 Agent 每一步、记忆摘要、向量调用） */
+    usage: Map<string, ModelUsage>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * 创建请求上下文
+ * @param {string} route 路由
+ * @param {string | undefined} apiKeyName API Key 名称
+ * @returns {RequestContext} 请求上下文
+ */
+export function createRequestContext(route: string, apiKeyName?: string): RequestContext {
+    return { route, apiKeyName, usage: new Map() };
+}
+
+/**
+ * 在请求上下文中执行
+ * @template T
+ * @param {RequestContext} context 请求上下文
+ * @param {() => Promise<T>} fn 执行函数
+ * @returns {Promise<T>} 执行结果
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+    return storage.run(context, fn);
+}
+
+/**
+ * 当前请求上下文（不在请求内时返回 undefined，例如脚本直接调用模型）
+ * @returns {RequestContext | undefined} 请求上下文
+ */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * 标记当前请求所属会话（用量按会话汇总）
+ * @param {string} sessionId 会话ID
+ * @returns {void}
+ */
+export function setRequestSession(sessionId: string): void {
+    const context = storage.getStore();
+    if (context) context.sessionId = sessionId;
+}
+
+/**
+ * 累加当前请求中某个模型的一次调用用量
+ * @param {string} model 模型名
+ * @param {UsageKind} kind 调用类型
+ * @param {number} promptTokens 输入 token
+ * @param {number} completionTokens 输出 token
+ * @returns {void}
+ */
+export function addRequestUsage(model: string, kind: UsageKind, promptTokens: number, completionTokens: number): void {
+    const context = storage.getStore();
+    if (!context) return;
+    const key = `${kind}|${model}`;
+    const entry = context.usage.get(key) ?? { model, kind, calls: 0, promptTokens: 0, completionTokens: 0 };
+    entry.calls += 1;
+    entry.promptTokens += promptTokens;
+    entry.completionTokens += completionTokens;
+    context.usage.set(key, entry);
+}
+
+/**
+ * 当前请求累计的 token 总数
+ * @param {RequestContext} context 请求上下文
+ * @returns {number} token 数
+ */
+export function getRequestTotalTokens(context: RequestContext): number {
+    let total = 0;
+    for (const entry of context.usage.values()) total += entry.promptTokens + entry.completionTokens;
+    return total;
+}
@@ -0,0 +1,60 @@
+import { createChatModel, resolveModelSpec } from './llm';
+import { createChatMemory, type ChatMemory, type MemoryState } from './memory';
+import type { SessionMemoryConfig, SessionRecord } from './sessionStore';
+
+// 默认记忆策略：窗口记忆，保留最近 10 轮
+const defaultMemoryConfig: SessionMemoryConfig = { type: 'window', k: 10, summaryModel: 'qwen-plus' };
+
+/**
+ * 合并会话已有的记忆配置与本次请求传入的配置（请求优先）
+ * 聊天与知识库问答的多轮会话共用这里的记忆策略
+ * @param {SessionRecord} record 会话记录
+ * @param {Partial<SessionMemoryConfig>} requested 本次请求指定的配置
+ * @returns {SessionMemoryConfig} 生效的记忆配置
+ */
+export function resolveMemoryConfig(record: SessionRecord, requested: Partial<SessionMemoryConfig>): SessionMemoryConfig {
+    const current = record.memory ?? defaultMemoryConfig;
+    return {
+        type: requested.type ?? current.type,
+        k: requested.k ?? current.k,
+        summaryModel: requested.summaryModel ?? current.summaryModel,
+    };
+}
+
+/**
+ * 按会话配置恢复记忆
+ * 配置未变时直接导入已保存的状态；切换策略（或调整参数）时用完整对话重新初始化，
+ * 基于消息的策略会保留历史，summary / entity 从空状态开始积累。
+ * @param {SessionRecord} record 会话记录
+ * @param {SessionMemoryConfig} config 生效的记忆配置
+ * @returns {Promise<ChatMemory>} 已加载状态的记忆实例
+ */
+export async function restoreMemory(record: SessionRecord, config: SessionMemoryConfig): Promise<ChatMemory> {
+    const memory = createChatMemory(config.type, {
+        k: config.k,
+        llm: createChatModel(resolveModelSpec({ model: config.summaryModel }, { provider: 'dashscope' }), { temperature: 0 }),
+    });
+    const saved = record.memory;
+    const unchanged = saved && saved.type === config.type && saved.k === config.k && saved.summaryModel === config.summaryModel;
+    await memory.importState(unchanged ? saved.state : { messages: record.messages });
+    return memory;
+}
+
+/**
+ * 生成返回给前端的记忆快照（便于对比不同策略）
+ * @param {SessionMemoryConfig} config 记忆配置
+ * @param {MemoryState} state 记忆状态
+ * @returns {Record<string, unknown>} 记忆快照
+ */
+export function describeMemory(config: SessionMemoryConfig, state: MemoryState): Record<string, unknown> {
+    return {
+        type: config.type,
+        k: config.type === 'window' || config.type === 'summary_buffer' ? config.k : undefined,
+        summaryModel: config.type === 'summary' || config.type === 'summary_buffer' || config.type === 'entity'
+            ? config.summaryModel
+            : undefined,
+        summary: state.summary,
+        entities: state.entities,
+        bufferedMessages: state.messages?.length,
+    };
+}
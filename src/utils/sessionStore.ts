@@ -0,0 +1,297 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { StoredMessage } from '@langchain/core/messages';
+import type { MemoryState, MemoryType } from './memory';
+import type { UsageTotals } from './usage';
+
+/**
+ * 会话级记忆策略配置
+ */
+export interface SessionMemoryConfig {
+    type: MemoryType;
+    /** window / summary_buffer 保留的轮数 */
+    k: number;
+    /** summary / summary_buffer / entity 使用的模型 */
+    summaryModel: string;
+}
+
+/**
+ * 会话记录：以可序列化的 StoredMessage 形式保存完整对话
+ * memory 保存该会话的记忆策略与其状态（摘要、实体表等），与完整对话分开存放
+ */
+export interface SessionRecord {
+    sessionId: string;
+    messages: StoredMessage[];
+    memory?: SessionMemoryConfig & { state: MemoryState };
+    /** 会话累计 token 用量与费用 */
+    usage?: UsageTotals;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * 会话存储抽象：内存版与文件版实现同一接口，通过环境变量选择
+ */
+export interface SessionStore {
+    get(sessionId: string): Promise<SessionRecord | undefined>;
+    set(record: SessionRecord): Promise<void>;
+    delete(sessionId: string): Promise<boolean>;
+    list(): Promise<SessionRecord[]>;
+}
+
+export interface SessionStoreOptions {
+    /** 会话闲置多久后过期（按 updatedAt 计算） */
+    ttlMs: number;
+    /** 会话总数上限，超出时按 LRU 淘汰 */
+    maxSessions: number;
+    /** 单个会话最多保留的消息条数，超出时丢弃最早的消息 */
+    maxMessages: number;
+}
+
+/**
+ * 创建一条空会话记录
+ * @param {string} sessionId 会话ID
+ * @returns {SessionRecord} 会话记录
+ */
+export function createSessionRecord(sessionId: string): SessionRecord {
+    const now = Date.now();
+    return { sessionId, messages: [], createdAt: now, updatedAt: now };
+}
+
+function isExpired(record: SessionRecord, options: SessionStoreOptions): boolean {
+    return Date.now() - record.updatedAt > options.ttlMs;
+}
+
+/**
+ * 写入前统一裁剪消息条数（完整对话与记忆状态中的消息），避免单个会话无限增长
+ * buffer 记忆的状态保存全部历史并每轮发给模型，同样按 maxMessages 截断
+ * @param {SessionRecord} record 会话记录
+ * @param {SessionStoreOptions} options 存储配置
+ * @returns {SessionRecord} 裁剪后的副本
+ */
+function trimRecord(record: SessionRecord, options: SessionStoreOptions): SessionRecord {
+    const copy = structuredClone(record);
+    if (copy.messages.length > options.maxMessages) {
+        copy.messages = copy.messages.slice(-options.maxMessages);
+    }
+    const state = copy.memory?.state;
+    if (state?.messages && state.messages.length > options.maxMessages) {
+        state.messages = state.messages.slice(-options.maxMessages);
+    }
+    return copy;
+}
+
+/**
+ * 内存版会话存储
+ * Map 的插入顺序即 LRU 顺序：每次访问先删后插，淘汰时取第一个 key。
+ */
+export class MemorySessionStore implements SessionStore {
+    private readonly records: Map<string, SessionRecord> = new Map();
+    private readonly options: SessionStoreOptions;
+
+    constructor(options: SessionStoreOptions) {
+        this.options = options;
+    }
+
+    async get(sessionId: string): Promise<SessionRecord | undefined> {
+        const record = this.records.get(sessionId);
+        if (!record) return undefined;
+        if (isExpired(record, this.options)) {
+            this.records.delete(sessionId);
+            return undefined;
+        }
+        this.records.delete(sessionId);
+        this.records.set(sessionId, record);
+        return structuredClone(record);
+    }
+
+    async set(record: SessionRecord): Promise<void> {
+        this.records.delete(record.sessionId);
+        this.records.set(record.sessionId, trimRecord(record, this.options));
+        while (this.records.size > this.options.maxSessions) {
+            const oldest = this.records.keys().next().value as string;
+            this.records.delete(oldest);
+        }
+    }
+
+    async delete(sessionId: string): Promise<boolean> {
+        return this.records.delete(sessionId);
+    }
+
+    async list(): Promise<SessionRecord[]> {
+        const result: SessionRecord[] = [];
+        for (const [sessionId, record] of this.records) {
+            if (isExpired(record, this.options)) {
+                this.records.delete(sessionId);
+                continue;
+            }
+            result.push(structuredClone(record));
+        }
+        return result;
+    }
+}
+
+/**
+ * 文件版会话存储：每个会话一个 JSON 文件，重启/重新部署后仍可恢复
+ * 内存中只维护 sessionId -> updatedAt 的 LRU 索引，启动时按文件修改时间重建。
+ */
+export class FileSessionStore implements SessionStore {
+    private readonly dir: string;
+    private readonly options: SessionStoreOptions;
+    private index: Map<string, number> | null = null;
+
+    constructor(dir: string, options: SessionStoreOptions) {
+        this.dir = dir;
+        this.options = options;
+    }
+
+    private filePathOf(sessionId: string): string {
+        return path.join(this.dir, `${Buffer.from(sessionId).toString('base64url')}.json`);
+    }
+
+    private async ensureIndex(): Promise<Map<string, number>> {
+        if (this.index) return this.index;
+        await fs.promises.mkdir(this.dir, { recursive: true });
+
+        const entries: Array<{ sessionId: string; mtime: number }> = [];
+        for (const name of await fs.promises.readdir(this.dir)) {
+            if (!name.endsWith('.json')) continue;
+            const stat = await fs.promises.stat(path.join(this.dir, name));
+            const sessionId = Buffer.from(name.slice(0, -'.json'.length), 'base64url').toString();
+            entries.push({ sessionId, mtime: stat.mtimeMs });
+        }
+        entries.sort((a, b) => a.mtime - b.mtime);
+
+        this.index = new Map(entries.map((e) => [e.sessionId, e.mtime]));
+        return this.index;
+    }
+
+    private async readRecord(sessionId: string): Promise<SessionRecord | undefined> {
+        try {
+            const raw = await fs.promises.readFile(this.filePathOf(sessionId), 'utf-8');
+            return JSON.parse(raw) as SessionRecord;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async removeFile(sessionId: string): Promise<void> {
+        await fs.promises.rm(this.filePathOf(sessionId), { force: true });
+    }
+
+    async get(sessionId: string): Promise<SessionRecord | undefined> {
+        const index = await this.ensureIndex();
+        if (!index.has(sessionId)) return undefined;
+
+        const record = await this.readRecord(sessionId);
+        if (!record || isExpired(record, this.options)) {
+            index.delete(sessionId);
+            await this.removeFile(sessionId);
+            return undefined;
+        }
+        const updatedAt = index.get(sessionId)!;
+        index.delete(sessionId);
+        index.set(sessionId, updatedAt);
+        return record;
+    }
+
+    async set(record: SessionRecord): Promise<void> {
+        const index = await this.ensureIndex();
+        const filePath = this.filePathOf(record.sessionId);
+        // 先写临时文件再 rename，避免进程中途退出留下半截 JSON；临时文件名唯一，并发写同一会话时不会互相截断
+        const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(trimRecord(record, this.options)), 'utf-8');
+        await fs.promises.rename(tmpPath, filePath);
+
+        index.delete(record.sessionId);
+        index.set(record.sessionId, record.updatedAt);
+        while (index.size > this.options.maxSessions) {
+            const oldest = index.keys().next().value as string;
+            index.delete(oldest);
+            await this.removeFile(oldest);
+        }
+    }
+
+    async delete(sessionId: string): Promise<boolean> {
+        const index = await this.ensureIndex();
+        const existed = index.delete(sessionId);
+        await this.removeFile(sessionId);
+        return existed;
+    }
+
+    async list(): Promise<SessionRecord[]> {
+        const index = await this.ensureIndex();
+        const result: SessionRecord[] = [];
+        for (const sessionId of [...index.keys()]) {
+            const record = await this.readRecord(sessionId);
+            if (!record || isExpired(record, this.options)) {
+                index.delete(sessionId);
+                await this.removeFile(sessionId);
+                continue;
+            }
+            result.push(record);
+        }
+        return result;
+    }
+}
+
+/** 每个会话最后一个排队中的轮次 */
+const sessionLocks: Map<string, Promise<void>> = new Map();
+
+/**
+ * 独占一个会话：读取记录 - 调用模型 - 写回之间持有，同一会话的并发请求依次执行，避免后写入的一方覆盖先完成的一轮
+ * @param {string} sessionId 会话ID
+ * @returns {Promise<() => void>} 释放函数（本轮结束后务必调用）
+ */
+export async function lockSession(sessionId: string): Promise<() => void> {
+    const previous = sessionLocks.get(sessionId) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+        release = resolve;
+    });
+    const tail = previous.then(() => current);
+    sessionLocks.set(sessionId, tail);
+    await previous;
+    return () => {
+        release();
+        if (sessionLocks.get(sessionId) === tail) sessionLocks.delete(sessionId);
+    };
+}
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+let sessionStoreInstance: SessionStore | null = null;
+
+/**
+ * 按环境变量获取会话存储（单例）
+ * - SESSION_STORE: memory（默认）| file
+ * - SESSION_DIR: 文件版存储目录，默认 data/sessions
+ * - SESSION_TTL_MS: 会话闲置过期时间，默认 7 天
+ * - SESSION_MAX: 会话总数上限，默认 1000
+ * - SESSION_MAX_MESSAGES: 单会话消息上限（完整对话与记忆状态各自计算），默认 200
+ * @returns {SessionStore} 会话存储实例
+ */
+export function getSessionStore(): SessionStore {
+    if (sessionStoreInstance) return sessionStoreInstance;
+
+    const options: SessionStoreOptions = {
+        ttlMs: readPositiveIntEnv('SESSION_TTL_MS', 7 * 24 * 60 * 60 * 1000),
+        maxSessions: readPositiveIntEnv('SESSION_MAX', 1000),
+        maxMessages: readPositiveIntEnv('SESSION_MAX_MESSAGES', 200),
+    };
+
+    const backend = (process.env.SESSION_STORE ?? 'memory').trim().toLowerCase();
+    if (backend === 'file') {
+        const dir = process.env.SESSION_DIR ?? path.join(process.cwd(), 'data/sessions');
+        sessionStoreInstance = new FileSessionStore(dir, options);
+    } else if (backend === 'memory') {
+        sessionStoreInstance = new MemorySessionStore(options);
+    } else {
+        throw new Error(`不支持的 SESSION_STORE: ${backend}（可选 memory | file）`);
+    }
+    return sessionStoreInstance;
+}
@@ -0,0 +1,82 @@
+import { Context } from 'koa';
+
+import { booleanish } from './validation';
+
+/**
+ * SSE 写入器：封装事件写入、连接状态与断开信号
+ */
+export interface SseWriter {
+    /** 客户端是否已断开（或服务端已主动结束） */
+    readonly closed: boolean;
+    /** 客户端断开时触发 abort，可直接传给模型调用以中止生成 */
+    readonly signal: AbortSignal;
+    send(event: string, data: unknown): void;
+    /** 只写 data 行（无 event 名），用于 OpenAI 风格的流式协议 */
+    sendData(data: unknown): void;
+    end(): void;
+}
+
+/**
+ * 判断本次请求是否需要以 SSE 方式返回
+ * @param {Context} ctx Koa上下文
+ * @param {Record<string, any>} body 请求体
+ * @returns {boolean} body.stream 为 true（同布尔参数，接受 'true' / '1'）或 Accept 包含 text/event-stream 时返回 true
+ */
+export function wantsEventStream(ctx: Context, body: Record<string, any>): boolean {
+    if (booleanish().safeParse(body.stream).data === true) return true;
+    const accept = ctx.get('Accept');
+    return typeof accept === 'string' && accept.includes('text/event-stream');
+}
+
+/**
+ * 打开 SSE 响应流
+ * 直接写 ctx.res（ctx.respond = false），handler 可以 await 整个生成过程，
+ * 访问日志中的耗时与状态码也能保持准确。
+ * @param {Context} ctx Koa上下文
+ * @returns {SseWriter} SSE 写入器
+ */
+export function openSseStream(ctx: Context): SseWriter {
+    const res = ctx.res;
+    const controller = new AbortController();
+    let closed = false;
+
+    ctx.respond = false;
+    ctx.status = 200;
+    ctx.req.socket.setTimeout(0);
+    ctx.req.socket.setNoDelay(true);
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // res 的 close 在连接关闭或响应正常结束时都会触发，用 writableEnded 区分客户端中途断开
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            closed = true;
+            controller.abort();
+        }
+    });
+
+    return {
+        get closed() {
+            return closed;
+        },
+        signal: controller.signal,
+        send(event: string, data: unknown): void {
+            if (closed) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        sendData(data: unknown): void {
+            if (closed) return;
+            res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+        },
+        end(): void {
+            if (closed) return;
+            closed = true;
+            res.end();
+        },
+    };
+}
@@ -0,0 +1,99 @@
+/**
+ * 市场：A 股 / 港股 / 美股
+ */
+export type MarketId = 'CN' | 'HK' | 'US';
+
+export type QuoteCurrency = 'CNY' | 'HKD' | 'USD';
+
+/** A 股交易所：上交所 / 深交所 / 北交所 */
+export type ChinaExchange = 'SH' | 'SZ' | 'BJ';
+
+/**
+ * 归一化后的股票代码
+ */
+export interface NormalizedSymbol {
+    /** 规范写法：600519.SH、00700.HK、AAPL */
+    symbol: string;
+    market: MarketId;
+    /** 交易所内的代码：600519、00700、AAPL（美股多类股份用 "."，如 BRK.B） */
+    code: string;
+    /** A 股交易所（其它市场缺省） */
+    exchange?: ChinaExchange;
+    /** 交易币种 */
+    currency: QuoteCurrency;
+}
+
+export const marketCurrencies: Record<MarketId, QuoteCurrency> = {
+    CN: 'CNY',
+    HK: 'HKD',
+    US: 'USD',
+};
+
+/**
+ * 按代码前缀推断 A 股交易所：6/9（900 为 B 股）开头为上交所，4/8/92 开头为北交所，其余为深交所
+ * @param {string} code 6 位代码
+ * @returns {ChinaExchange} 交易所
+ */
+function inferChinaExchange(code: string): ChinaExchange {
+    if (/^(4|8|92)/.test(code)) return 'BJ';
+    if (/^[69]/.test(code)) return 'SH';
+    return 'SZ';
+}
+
+function china(code: string, exchange: ChinaExchange): NormalizedSymbol {
+    return { symbol: `${code}.${exchange}`, market: 'CN', code, exchange, currency: 'CNY' };
+}
+
+function hongKong(digits: string): NormalizedSymbol {
+    const code = digits.replace(/^0+(?=\d)/, '').padStart(5, '0');
+    return { symbol: `${code}.HK`, market: 'HK', code, currency: 'HKD' };
+}
+
+function unitedStates(ticker: string): NormalizedSymbol {
+    const code = ticker.replace('-', '.');
+    return { symbol: code, market: 'US', code, currency: 'USD' };
+}
+
+/**
+ * 归一化股票代码，支持常见写法：
+ * - A 股：600519、600519.SH、SH600519、600519.SS（Yahoo 写法）、430047.BJ
+ * - 港股：700.HK、0700.HK、00700.HK、HK00700
+ * - 美股：AAPL、aapl、AAPL.US、BRK.B、BRK-B
+ * @param {string} raw 用户输入的代码
+ * @returns {NormalizedSymbol} 归一化结果（无法识别时抛出 400）
+ */
+export function normalizeSymbol(raw: string): NormalizedSymbol {
+    const upper = raw.trim().toUpperCase();
+    let match: RegExpExecArray | null;
+
+    if ((match = /^(\d{6})(?:\.(SH|SS|SZ|BJ))?$/.exec(upper))) {
+        const exchange = match[2] === 'SS' ? 'SH' : (match[2] as ChinaExchange | undefined);
+        return china(match[1], exchange ?? inferChinaExchange(match[1]));
+    }
+    if ((match = /^(SH|SZ|BJ)(\d{6})$/.exec(upper))) {
+        return china(match[2], match[1] as ChinaExchange);
+    }
+    if ((match = /^(\d{1,5})\.HK$/.exec(upper)) || (match = /^HK(\d{1,5})$/.exec(upper))) {
+        return hongKong(match[1]);
+    }
+    if ((match = /^([A-Z]{1,5}(?:[.-][A-Z])?)(?:\.US)?$/.exec(upper))) {
+        return unitedStates(match[1]);
+    }
+    throw Object.assign(
+        new Error(`无法识别的股票代码: ${raw}（示例：600519.SH、000001.SZ、00700.HK、AAPL）`),
+        { status: 400 }
+    );
+}
+
+/**
+ * 是否为 A 股代码
+ * @param {string} symbol 股票代码
+ * @returns {boolean} 是否为 A 股
+ */
+export function isChinaSymbol(symbol: string): boolean {
+    try {
+        return normalizeSymbol(symbol).market === 'CN';
+    } catch {
+        return false;
+    }
+}
@@ -1,5 +1,6 @@
 import { postJson } from './axios';
 import { tushareBaseUrl } from '../const/tushare';
+import { normalizeSymbol } from './symbols';
 
 export interface TushareReportItem {
     end_date?: string;
@@ -22,11 +23,13 @@ function getTushareToken(): string {
     return token;
 }
 
+// Tushare 代码写法与归一化后的 A 股代码一致：600519.SH
 function normalizeChinaSymbol(symbol: string): string {
-    const upper = symbol.toUpperCase();
-    if (upper.endsWith('.SH') || upper.endsWith('.SZ')) return upper;
-    const market = upper.startsWith('6') || upper.startsWith('9') ? 'SH' : 'SZ';
-    return `${upper}.${market}`;
+    const normalized = normalizeSymbol(symbol);
+    if (normalized.market !== 'CN') {
+        throw Object.assign(new Error(`Tushare 暂仅支持 A 股代码：${symbol}`), { status: 400 });
+    }
+    return normalized.symbol;
 }
 
 async function callTushare<T = any>(apiName: string, params: Record<string, unknown>, fields: string, limit?: number): Promise<T> {
@@ -0,0 +1,369 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { defaultModelPrices, defaultPriceCurrency } from '../const/prices';
+import { getRequestContext, type ModelUsage, type RequestContext, type UsageKind } from './requestContext';
+
+/**
+ * 用量合计
+ */
+export interface UsageTotals {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;
+}
+
+/**
+ * 单次请求的用量（随响应返回）
+ */
+export interface UsageSummary extends UsageTotals {
+    currency: string;
+    models: Array<UsageTotals & { model: string; kind: UsageKind; calls: number }>;
+}
+
+/**
+ * 账本中的一行：某天、某 Key、某会话、某路由下某个模型的累计用量
+ */
+export interface UsageLedgerEntry extends UsageTotals {
+    day: string;
+    apiKey?: string;
+    sessionId?: string;
+    route: string;
+    model: string;
+    kind: UsageKind;
+    calls: number;
+}
+
+export interface UsageReportFilter {
+    from?: string;
+    to?: string;
+    apiKey?: string;
+    sessionId?: string;
+    route?: string;
+}
+
+export interface UsageReport {
+    currency: string;
+    filter: UsageReportFilter;
+    total: UsageTotals & { calls: number };
+    byRoute: Array<UsageTotals & { route: string; calls: number }>;
+    byModel: Array<UsageTotals & { model: string; kind: UsageKind; calls: number }>;
+    byDay: Array<UsageTotals & { day: string; calls: number }>;
+    byApiKey: Array<UsageTotals & { apiKey: string; calls: number }>;
+}
+
+/**
+ * 读取环境变量（去除两侧引号与空格）
+ * @param {string} name 变量名
+ * @returns {string | undefined} 变量值
+ */
+function readEnv(name: string): string | undefined {
+    const value = (process.env[name] ?? '').trim().replace(/^['"]|['"]$/g, '');
+    return value || undefined;
+}
+
+/**
+ * 本地日期（YYYY-MM-DD），与每日配额的重置时间一致
+ * @param {Date} [date] 日期
+ * @returns {string} 日期字符串
+ */
+export function getLocalDay(date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function roundCost(cost: number): number {
+    return Math.round(cost * 1e6) / 1e6;
+}
+
+function emptyTotals(): UsageTotals {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addTotals<T extends UsageTotals>(target: T, source: UsageTotals): T {
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+    target.totalTokens += source.totalTokens;
+    target.cost = roundCost(target.cost + source.cost);
+    return target;
+}
+
+// --- 价格表 ---
+
+/**
+ * 模型价格表：内置默认值 + PRICE_TABLE_FILE（默认 config/prices.json）覆盖，文件修改后自动重新加载
+ * 文件格式：{ "currency": "CNY", "models": { "dashscope:qwen-plus": { "input": 0.8, "output": 2 } } }，单价为每百万 token
+ */
+class PriceTable {
+    private readonly filePath: string;
+    private fileMtimeMs = -1;
+    private lastCheckedAt = 0;
+    private currency = defaultPriceCurrency;
+    private prices: Record<string, { input: number; output: number }> = { ...defaultModelPrices };
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    private reloadIfChanged(): void {
+        const now = Date.now();
+        if (now - this.lastCheckedAt < 5_000) return;
+        this.lastCheckedAt = now;
+        const mtimeMs = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : -1;
+        if (mtimeMs === this.fileMtimeMs) return;
+        this.fileMtimeMs = mtimeMs;
+        if (mtimeMs < 0) {
+            this.currency = defaultPriceCurrency;
+            this.prices = { ...defaultModelPrices };
+            return;
+        }
+        try {
+            const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+            this.currency = typeof parsed?.currency === 'string' ? parsed.currency : defaultPriceCurrency;
+            this.prices = { ...defaultModelPrices, ...(parsed?.models ?? {}) };
+        } catch (err) {
+            console.error('价格表加载失败，继续使用旧价格:', (err as Error).message);
+        }
+    }
+
+    getCurrency(): string {
+        this.reloadIfChanged();
+        return this.currency;
+    }
+
+    /**
+     * 查找模型单价：先按 "provider:model"，再按模型名，最后按 "*"
+     * @param {string} model 模型名
+     * @returns {{ input: number; output: number } | undefined} 单价
+     */
+    find(model: string): { input: number; output: number } | undefined {
+        this.reloadIfChanged();
+        const bare = model.slice(model.indexOf(':') + 1);
+        return this.prices[model] ?? this.prices[bare] ?? this.prices['*'];
+    }
+
+    list(): { currency: string; unit: string; models: Record<string, { input: number; output: number }> } {
+        this.reloadIfChanged();
+        return { currency: this.currency, unit: 'per_million_tokens', models: { ...this.prices } };
+    }
+}
+
+let priceTable: PriceTable | undefined;
+
+/**
+ * 获取全局价格表
+ * @returns {PriceTable} 价格表
+ */
+export function getPriceTable(): PriceTable {
+    if (!priceTable) {
+        priceTable = new PriceTable(path.resolve(readEnv('PRICE_TABLE_FILE') ?? path.join('config', 'prices.json')));
+    }
+    return priceTable;
+}
+
+/**
+ * 按价格表计算费用
+ * @param {string} model 模型名
+ * @param {number} promptTokens 输入 token
+ * @param {number} completionTokens 输出 token
+ * @returns {number} 费用
+ */
+export function priceUsage(model: string, promptTokens: number, completionTokens: number): number {
+    const price = getPriceTable().find(model);
+    if (!price) return 0;
+    return roundCost((promptTokens * price.input + completionTokens * price.output) / 1_000_000);
+}
+
+// --- 单次请求汇总 ---
+
+/**
+ * 汇总一次请求的用量
+ * @param {Iterable<ModelUsage>} usage 按模型累计的用量
+ * @returns {UsageSummary} 用量汇总
+ */
+export function summarizeUsage(usage: Iterable<ModelUsage>): UsageSummary {
+    const summary: UsageSummary = { ...emptyTotals(), currency: getPriceTable().getCurrency(), models: [] };
+    for (const entry of usage) {
+        const totals: UsageTotals = {
+            promptTokens: entry.promptTokens,
+            completionTokens: entry.completionTokens,
+            totalTokens: entry.promptTokens + entry.completionTokens,
+            cost: priceUsage(entry.model, entry.promptTokens, entry.completionTokens),
+        };
+        summary.models.push({ model: entry.model, kind: entry.kind, calls: entry.calls, ...totals });
+        addTotals(summary, totals);
+    }
+    return summary;
+}
+
+/**
+ * 当前请求到目前为止的用量（不在请求上下文中时返回 undefined）
+ * @returns {UsageSummary | undefined} 用量汇总
+ */
+export function getCurrentUsage(): UsageSummary | undefined {
+    const context = getRequestContext();
+    return context ? summarizeUsage(context.usage.values()) : undefined;
+}
+
+/**
+ * 把一次请求的用量累加到已有合计上（会话累计用量）
+ * @param {UsageTotals | undefined} base 已有合计
+ * @param {UsageTotals | undefined} delta 本次用量
+ * @returns {UsageTotals} 新的合计
+ */
+export function accumulateUsage(base: UsageTotals | undefined, delta: UsageTotals | undefined): UsageTotals {
+    const result = addTotals(emptyTotals(), base ?? emptyTotals());
+    return delta ? addTotals(result, delta) : result;
+}
+
+// --- 账本 ---
+
+/**
+ * 用量账本：按 天 / Key / 会话 / 路由 / 模型 聚合
+ * 每次请求结束追加一行 JSONL（USAGE_DIR，默认 data/usage），启动时重放；USAGE_STORE=memory 时只保存在内存中
+ */
+export class UsageLedger {
+    private readonly entries: Map<string, UsageLedgerEntry> = new Map();
+    private readonly dailyByKey: Map<string, number> = new Map();
+    private readonly filePath?: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath?: string) {
+        this.filePath = filePath;
+        if (filePath && fs.existsSync(filePath)) {
+            const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                try {
+                    this.apply(JSON.parse(line) as UsageLedgerEntry);
+                } catch {
+                    // 进程异常退出可能留下半行，跳过即可
+                }
+            }
+        }
+    }
+
+    private apply(entry: UsageLedgerEntry): void {
+        const key = [entry.day, entry.apiKey ?? '', entry.sessionId ?? '', entry.route, entry.kind, entry.model].join('|');
+        const existing = this.entries.get(key);
+        if (existing) {
+            existing.calls += entry.calls;
+            addTotals(existing, entry);
+        } else {
+            this.entries.set(key, { ...entry });
+        }
+        if (entry.apiKey) {
+            const dayKey = `${entry.day}|${entry.apiKey}`;
+            this.dailyByKey.set(dayKey, (this.dailyByKey.get(dayKey) ?? 0) + entry.totalTokens);
+        }
+    }
+
+    /**
+     * 记录一次请求的用量
+     * @param {RequestContext} context 请求上下文
+     * @returns {void}
+     */
+    record(context: RequestContext): void {
+        const day = getLocalDay();
+        const lines: string[] = [];
+        for (const usage of summarizeUsage(context.usage.values()).models) {
+            const entry: UsageLedgerEntry = {
+                day,
+                apiKey: context.apiKeyName,
+                sessionId: context.sessionId,
+                route: context.route,
+                model: usage.model,
+                kind: usage.kind,
+                calls: usage.calls,
+                promptTokens: usage.promptTokens,
+                completionTokens: usage.completionTokens,
+                totalTokens: usage.totalTokens,
+                cost: usage.cost,
+            };
+            this.apply(entry);
+            lines.push(JSON.stringify(entry));
+        }
+        if (!this.filePath || lines.length === 0) return;
+
+        // 串行追加，避免并发请求交错写入同一行
+        const filePath = this.filePath;
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.promises.appendFile(filePath, `${lines.join('\n')}\n`, 'utf-8');
+            })
+            .catch((err) => console.error('写入用量账本失败:', (err as Error).message));
+    }
+
+    /**
+     * 某个 Key 当天已用 token（每日配额据此判断）
+     * @param {string} apiKey Key 名称
+     * @returns {number} token 数
+     */
+    getTokensUsedToday(apiKey: string): number {
+        return this.dailyByKey.get(`${getLocalDay()}|${apiKey}`) ?? 0;
+    }
+
+    /**
+     * 生成用量报表
+     * @param {UsageReportFilter} filter 过滤条件（日期为闭区间）
+     * @returns {UsageReport} 报表
+     */
+    report(filter: UsageReportFilter): UsageReport {
+        const total = { ...emptyTotals(), calls: 0 };
+        const byRoute: Map<string, UsageReport['byRoute'][number]> = new Map();
+        const byModel: Map<string, UsageReport['byModel'][number]> = new Map();
+        const byDay: Map<string, UsageReport['byDay'][number]> = new Map();
+        const byApiKey: Map<string, UsageReport['byApiKey'][number]> = new Map();
+
+        const bump = <T extends UsageTotals & { calls: number }>(map: Map<string, T>, key: string, init: () => T, entry: UsageLedgerEntry) => {
+            const target = map.get(key) ?? init();
+            target.calls += entry.calls;
+            addTotals(target, entry);
+            map.set(key, target);
+        };
+
+        for (const entry of this.entries.values()) {
+            if (filter.from && entry.day < filter.from) continue;
+            if (filter.to && entry.day > filter.to) continue;
+            if (filter.apiKey && entry.apiKey !== filter.apiKey) continue;
+            if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+            if (filter.route && entry.route !== filter.route) continue;
+
+            total.calls += entry.calls;
+            addTotals(total, entry);
+            bump(byRoute, entry.route, () => ({ route: entry.route, calls: 0, ...emptyTotals() }), entry);
+            bump(byModel, `${entry.kind}|${entry.model}`, () => ({ model: entry.model, kind: entry.kind, calls: 0, ...emptyTotals() }), entry);
+            bump(byDay, entry.day, () => ({ day: entry.day, calls: 0, ...emptyTotals() }), entry);
+            bump(byApiKey, entry.apiKey ?? '', () => ({ apiKey: entry.apiKey ?? '', calls: 0, ...emptyTotals() }), entry);
+        }
+
+        const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.totalTokens - a.totalTokens;
+        return {
+            currency: getPriceTable().getCurrency(),
+            filter,
+            total,
+            byRoute: [...byRoute.values()].sort(byCost),
+            byModel: [...byModel.values()].sort(byCost),
+            byDay: [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day)),
+            byApiKey: [...byApiKey.values()].sort(byCost),
+        };
+    }
+}
+
+let usageLedger: UsageLedger | undefined;
+
+/**
+ * 获取全局用量账本
+ * @returns {UsageLedger} 用量账本
+ */
+export function getUsageLedger(): UsageLedger {
+    if (!usageLedger) {
+        const inMemory = readEnv('USAGE_STORE') === 'memory';
+        usageLedger = new UsageLedger(
+            inMemory ? undefined : path.resolve(readEnv('USAGE_DIR') ?? path.join('data', 'usage'), 'ledger.jsonl')
+        );
+    }
+    return usageLedger;
+}
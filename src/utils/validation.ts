@@ -0,0 +1,189 @@
+import { Context } from 'koa';
+import { z } from 'zod';
+
+import { getKoaRequestBody } from './dashscope';
+import { resolveModelSpec, type ModelSelector, type ResolvedModelSpec } from './llm';
+
+/**
+ * 单个字段的校验失败信息
+ */
+export interface FieldError {
+    /** 字段路径，如 "temperature"、"messages.0.role"；整体错误为空字符串 */
+    field: string;
+    reason: string;
+}
+
+const typeNames: Record<string, string> = {
+    string: '字符串',
+    number: '数字',
+    int: '整数',
+    boolean: '布尔值',
+    array: '数组',
+    object: '对象',
+    record: '对象',
+    null: 'null',
+    undefined: 'undefined',
+};
+
+/**
+ * 描述实际收到的值类型
+ * @param {unknown} value 输入值
+ * @returns {string} 类型名
+ */
+function describeInput(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return '数组';
+    if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+    return typeNames[typeof value] ?? typeof value;
+}
+
+/**
+ * 校验失败原因的中文描述（schema 中显式写了 message 的以 schema 为准）
+ * @param {any} issue zod issue
+ * @returns {string | undefined} 原因，返回 undefined 时使用 zod 默认文案
+ */
+function formatIssue(issue: any): string | undefined {
+    const unit = issue.origin === 'string' ? '长度' : issue.origin === 'array' ? '元素个数' : '';
+    switch (issue.code) {
+        case 'invalid_type':
+            if (issue.input === undefined) return '必填';
+            return `类型应为${typeNames[issue.expected] ?? issue.expected}，实际为${describeInput(issue.input)}`;
+        case 'too_small':
+            if (issue.origin === 'string' && Number(issue.minimum) === 1) return '不能为空';
+            return `${unit}不能${issue.inclusive === false ? '小于等于' : '小于'} ${issue.minimum}`;
+        case 'too_big':
+            return `${unit}不能${issue.inclusive === false ? '大于等于' : '大于'} ${issue.maximum}`;
+        case 'invalid_value':
+            return `可选值：${issue.values.map((v: unknown) => String(v)).join(' | ')}`;
+        case 'invalid_format':
+            return `格式不正确（${issue.format}）`;
+        case 'unrecognized_keys':
+            return `不支持的字段：${issue.keys.join(', ')}`;
+        case 'invalid_union':
+            return '不符合任何一种允许的格式';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 把 zod 错误转换为字段错误列表
+ * @param {z.ZodError} error zod 错误
+ * @returns {FieldError[]} 字段错误列表
+ */
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+    return error.issues.map((issue) => ({
+        field: issue.path.map(String).join('.'),
+        reason: issue.message,
+    }));
+}
+
+/**
+ * 构造统一的 400 参数错误（setKoaError / 错误中间件会把 errors 一并返回）
+ * @param {FieldError[]} errors 字段错误列表
+ * @returns {Error & { status: number; errors: FieldError[] }} 错误对象
+ */
+export function createValidationError(errors: FieldError[]): Error & { status: number; errors: FieldError[] } {
+    const first = errors[0];
+    // 自定义文案通常已包含字段名（如“缺少必要参数：input（string）”），此时不再重复前缀
+    const detail = !first ? '' : !first.field || first.reason.includes(first.field) ? first.reason : `${first.field} ${first.reason}`;
+    return Object.assign(new Error(detail ? `请求参数校验失败：${detail}` : '请求参数校验失败'), { status: 400, errors });
+}
+
+/**
+ * 按 schema 校验输入，失败时抛出 400（带 errors 字段列表）
+ * @template T
+ * @param {z.ZodType<T>} schema zod schema
+ * @param {unknown} input 输入
+ * @returns {T} 校验（及转换）后的值
+ */
+export function parseWithSchema<T>(schema: z.ZodType<T>, input: unknown): T {
+    const result = schema.safeParse(input, { error: formatIssue });
+    if (!result.success) {
+        throw createValidationError(toFieldErrors(result.error));
+    }
+    return result.data;
+}
+
+/**
+ * 按 schema 校验 Koa 请求体
+ * @template T
+ * @param {Context} ctx Koa上下文
+ * @param {z.ZodType<T>} schema zod schema
+ * @returns {T} 类型化的请求参数
+ */
+export function parseKoaBody<T>(ctx: Context, schema: z.ZodType<T>): T {
+    return parseWithSchema(schema, getKoaRequestBody(ctx));
+}
+
+/**
+ * 按 schema 校验 Koa 查询参数（查询参数均为字符串，数字 / 布尔字段需使用下方的宽松类型）
+ * @template T
+ * @param {Context} ctx Koa上下文
+ * @param {z.ZodType<T>} schema zod schema
+ * @returns {T} 类型化的查询参数
+ */
+export function parseKoaQuery<T>(ctx: Context, schema: z.ZodType<T>): T {
+    return parseWithSchema(schema, ctx.query);
+}
+
+// --- 常用字段 ---
+
+/**
+ * 必填字符串（trim 后不能为空）
+ * @param {string} [message] 自定义错误信息
+ * @returns {z.ZodString} schema
+ */
+export function requiredString(message?: string): z.ZodString {
+    return z.string(message ? { error: message } : undefined).trim().min(1, message ? { error: message } : undefined);
+}
+
+/**
+ * 数字：同时接受 JSON 数字与数字字符串（如 "0.5"），其它类型照常报错
+ * @param {z.ZodNumber} [inner] 转换后的数字 schema（可带 min / max / int 等约束）
+ * @returns {z.ZodType<number>} schema
+ */
+export function numeric(inner: z.ZodNumber = z.number()) {
+    return z.preprocess(
+        (value) => (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value),
+        inner
+    );
+}
+
+/**
+ * 布尔：同时接受 true / false 与 "true" / "false" / "1" / "0"
+ * @returns {z.ZodType<boolean>} schema
+ */
+export function booleanish() {
+    return z.preprocess((value) => {
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+        return value;
+    }, z.boolean());
+}
+
+/** 温度参数 */
+export const temperatureField = numeric(z.number().min(0).max(2));
+/** 最大输出 token 数 */
+export const maxTokensField = numeric(z.number().int().positive());
+
+/** 模型选择字段（provider / model），与 resolveModelSpec 配合使用 */
+export const modelSelectorShape = {
+    provider: z.string().trim().optional(),
+    model: z.string().trim().optional(),
+};
+
+/**
+ * 解析请求中的模型选择，写法错误（未知提供方等）同样以字段错误返回
+ * @param {ModelSelector} selector 请求传入的 provider / model
+ * @param {ModelSelector} defaults 路由默认值
+ * @returns {ResolvedModelSpec} 解析结果
+ */
+export function resolveBodyModel(selector: ModelSelector, defaults: ModelSelector): ResolvedModelSpec {
+    try {
+        return resolveModelSpec(selector, defaults);
+    } catch (err) {
+        if ((err as any)?.status !== 400) throw err;
+        throw createValidationError([{ field: selector.model ? 'model' : 'provider', reason: (err as Error).message }]);
+    }
+}
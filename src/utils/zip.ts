@@ -0,0 +1,106 @@
+import zlib from 'node:zlib';
+
+/**
+ * ZIP 中的一个文件
+ */
+export interface ZipEntry {
+    /** 压缩包内路径（使用 / 分隔） */
+    path: string;
+    /** 解压后的大小 */
+    size: number;
+    /** 解压（仅在读取时执行） */
+    read(): Buffer;
+}
+
+export interface ZipReadOptions {
+    /** 最多读取的文件数 */
+    maxEntries?: number;
+    /** 解压后的总大小上限（字节），防止压缩炸弹 */
+    maxTotalSize?: number;
+}
+
+const endOfCentralDirectorySignature = 0x06054b50;
+const centralDirectorySignature = 0x02014b50;
+const localFileHeaderSignature = 0x04034b50;
+
+/**
+ * 是否为 ZIP 文件（按文件头判断，DOCX / XLSX 等 OOXML 也是 ZIP）
+ * @param {Buffer} buffer 文件内容
+ * @returns {boolean} 是否为 ZIP
+ */
+export function isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === localFileHeaderSignature;
+}
+
+/**
+ * 创建格式错误（400）
+ * @param {string} message 错误信息
+ * @returns {Error & { status: number }} 错误对象
+ */
+function zipError(message: string): Error & { status: number } {
+    return Object.assign(new Error(`ZIP 文件无法解析：${message}`), { status: 400 });
+}
+
+/**
+ * 读取 ZIP 目录（只支持 stored / deflate 两种压缩方式，不支持 ZIP64 与加密）
+ * @param {Buffer} buffer 文件内容
+ * @param {ZipReadOptions} options 限制
+ * @returns {ZipEntry[]} 文件列表（不含目录）
+ */
+export function readZipEntries(buffer: Buffer, options: ZipReadOptions = {}): ZipEntry[] {
+    const maxEntries = options.maxEntries ?? 1000;
+    const maxTotalSize = options.maxTotalSize ?? 200 * 1024 * 1024;
+
+    // 目录结尾记录位于文件末尾（其后可能有最长 65535 字节的注释）
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === endOfCentralDirectorySignature) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw zipError('找不到中央目录');
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    const directoryOffset = buffer.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) throw zipError('不支持 ZIP64');
+
+    const entries: ZipEntry[] = [];
+    let totalSize = 0;
+    let offset = directoryOffset;
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== centralDirectorySignature) {
+            throw zipError('中央目录已损坏');
+        }
+        const flags = buffer.readUInt16LE(offset + 8);
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        // 未设置 UTF-8 标志的旧压缩包文件名编码不确定，这里同样按 UTF-8 解码
+        const entryPath = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (entryPath.endsWith('/')) continue;
+        if (flags & 0x1) throw zipError(`不支持加密文件 ${entryPath}`);
+        if (method !== 0 && method !== 8) throw zipError(`不支持的压缩方式 ${method}（${entryPath}）`);
+        if (entries.length >= maxEntries) throw zipError(`文件数超过上限 ${maxEntries}`);
+        totalSize += size;
+        if (totalSize > maxTotalSize) throw zipError(`解压后大小超过上限 ${Math.round(maxTotalSize / 1024 / 1024)}MB`);
+
+        entries.push({
+            path: entryPath,
+            size,
+            read: () => {
+                if (buffer.readUInt32LE(localOffset) !== localFileHeaderSignature) throw zipError(`文件头已损坏（${entryPath}）`);
+                const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+                const data = buffer.subarray(dataStart, dataStart + compressedSize);
+                return method === 0 ? Buffer.from(data) : zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+            },
+        });
+    }
+    return entries;
+}
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import Koa from 'koa';
+import Router from '@koa/router';
+
+process.env.API_KEYS = 'tester:secret';
+process.env.API_KEYS_FILE = '/nonexistent/api-keys.json';
+process.env.USAGE_STORE = 'memory';
+
+import { registerMiddlewares } from '../src/middleware';
+import { ApiKeyLimiter, getRouteGroup, type ApiKeyRecord } from '../src/utils/apiKeys';
+import { addRequestUsage } from '../src/utils/requestContext';
+import { getUsageLedger } from '../src/utils/usage';
+
+describe('getRouteGroup', () => {
+    it('按第一段路径分组，不区分大小写', () => {
+        assert.equal(getRouteGroup('/quant/strategy'), 'quant');
+        assert.equal(getRouteGroup('/QUANT/strategy'), 'quant');
+        assert.equal(getRouteGroup('/DashScope/chat'), 'dashscope');
+        assert.equal(getRouteGroup('/V1/models'), 'openai');
+        assert.equal(getRouteGroup('/unknown/x'), undefined);
+    });
+});
+
+describe('API Key 鉴权中间件', () => {
+    let server: ReturnType<Koa['listen']>;
+    let baseUrl: string;
+
+    before(() => {
+        const app = new Koa();
+        registerMiddlewares(app);
+        const router = new Router();
+        router.get('/quant/ping', (ctx) => {
+            ctx.body = { ok: true };
+        });
+        router.get('/other/ping', (ctx) => {
+            ctx.body = { ok: true };
+        });
+        router.get('/quant/items/:id', (ctx) => {
+            addRequestUsage('test-model', 'chat', 3, 2);
+            ctx.body = { id: ctx.params.id };
+        });
+        app.use(router.routes());
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    it('缺少 Key 时拒绝，大小写变体同样拒绝', async () => {
+        for (const path of ['/quant/ping', '/QUANT/ping', '/Quant/Ping']) {
+            const res = await fetch(`${baseUrl}${path}`);
+            assert.equal(res.status, 401, path);
+        }
+    });
+
+    it('携带有效 Key 时放行', async () => {
+        const res = await fetch(`${baseUrl}/QUANT/ping`, { headers: { Authorization: 'Bearer secret' } });
+        assert.equal(res.status, 200);
+    });
+
+    it('无效 Key 返回 401', async () => {
+        const res = await fetch(`${baseUrl}/quant/ping`, { headers: { 'X-API-Key': 'wrong' } });
+        assert.equal(res.status, 401);
+    });
+
+    it('不属于任何分组的路径同样需要 Key', async () => {
+        assert.equal((await fetch(`${baseUrl}/other/ping`)).status, 401);
+        // API_KEYS 注入的 Key 可访问全部分组
+        assert.equal((await fetch(`${baseUrl}/other/ping`, { headers: { 'X-API-Key': 'secret' } })).status, 200);
+    });
+
+    it('用量按路由模板记账', async () => {
+        for (const id of ['a', 'b']) {
+            const res = await fetch(`${baseUrl}/quant/items/${id}`, { headers: { 'X-API-Key': 'secret' } });
+            assert.equal(res.status, 200);
+            assert.equal((await res.json()).usage.totalTokens, 5);
+        }
+        const { byRoute } = getUsageLedger().report({ apiKey: 'tester' });
+        assert.deepEqual(byRoute.map((item) => [item.route, item.calls]), [['/quant/items/:id', 2]]);
+    });
+});
+
+describe('ApiKeyLimiter 每日配额', () => {
+    const record: ApiKeyRecord = { name: 'quota', keyHash: '', routes: ['*'], requestsPerMinute: 0, burst: 0, dailyTokens: 3000, admin: false };
+
+    it('并发请求预占配额，超出后拒绝，释放后恢复', () => {
+        const limiter = new ApiKeyLimiter();
+        const first = limiter.checkRequest(record);
+        const second = limiter.checkRequest(record);
+        assert.equal(first.ok, true);
+        assert.equal(second.ok, true);
+        const third = limiter.checkRequest(record);
+        assert.equal(third.ok, false);
+        assert.equal(!third.ok && third.reason, 'quota');
+
+        if (first.ok) first.release();
+        if (first.ok) first.release();
+        const fourth = limiter.checkRequest(record);
+        assert.equal(fourth.ok, true);
+        assert.equal(limiter.checkRequest(record).ok, false);
+    });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { backtestStrategySchema, runBacktest } from '../src/utils/backtest';
+import type { IndicatorBar } from '../src/utils/indicators';
+
+const closes = [10, 10, 12, 14, 13, 11, 10, 12];
+const bars: IndicatorBar[] = closes.map((close, i) => ({
+    date: `2024-01-${String(i + 2).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+}));
+
+const strategy = (overrides: Record<string, unknown>) =>
+    backtestStrategySchema.parse({ feeRate: 0, slippage: 0, stampDutyRate: 0, ...overrides });
+
+describe('runBacktest', () => {
+    it('收盘出信号，下一根开盘成交', () => {
+        const result = runBacktest(
+            bars,
+            strategy({ entry: { left: 'close', op: '>', right: 11 }, exit: { left: 'close', op: '<', right: 12 } }),
+            { market: 'US', interval: '1d' }
+        );
+        assert.equal(result.trades.length, 1);
+        const [trade] = result.trades;
+        assert.equal(trade.entryDate, '2024-01-05');
+        assert.equal(trade.entryPrice, 14);
+        assert.equal(trade.exitDate, '2024-01-08');
+        assert.equal(trade.exitPrice, 10);
+        assert.equal(trade.shares, 7142);
+        assert.equal(trade.exitReason, 'signal');
+        assert.equal(trade.pnl, -28568);
+        assert.equal(result.metrics.finalEquity, 100000 - 28568);
+        assert.equal(result.metrics.buyAndHoldReturn, 20);
+    });
+
+    it('止损按收盘价触发', () => {
+        const result = runBacktest(
+            bars,
+            strategy({ entry: { left: 'close', op: '>', right: 11 }, exit: { left: 'close', op: '>', right: 100 }, stopLossPercent: 5 }),
+            { market: 'US', interval: '1d' }
+        );
+        assert.equal(result.trades[0].exitReason, 'stop_loss');
+        assert.equal(result.trades[0].exitDate, '2024-01-07');
+    });
+
+    it('引用继承成员或未知序列时返回 400', () => {
+        const indicators = [{ id: 'flow', name: 'obv', params: { period: 2 } }];
+        for (const operand of ['constructor', 'toString', '__proto__', 'flow.constructor', 'flow.hasOwnProperty', 'unknown']) {
+            const rules = { entry: { left: operand, op: '>', right: 1 }, exit: { left: 'close', op: '<', right: 1 } };
+            assert.throws(
+                () => runBacktest(bars, strategy({ indicators, ...rules }), { market: 'US', interval: '1d' }),
+                (err: Error & { status?: number }) => err.status === 400,
+                operand
+            );
+        }
+    });
+});
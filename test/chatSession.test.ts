@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Context } from 'koa';
+
+process.env.SESSION_STORE = 'memory';
+
+import { deleteSessionTurnHandler, importSessionHandler } from '../src/routes/dashscope/chatSession';
+import { getSessionStore, lockSession } from '../src/utils/sessionStore';
+
+const createContext = (body: unknown = {}, params: Record<string, string> = {}) =>
+    ({ request: { body }, params, status: 404, body: undefined }) as unknown as Context & { body: any };
+
+const message = (type: string, content: string) => ({
+    type,
+    data: { content, role: undefined, name: undefined, tool_call_id: undefined },
+});
+
+describe('importSessionHandler', () => {
+    it('按记忆策略校验导入的记忆状态', async () => {
+        const base = { sessionId: 'imported', messages: [message('human', '你好'), message('ai', '你好！')] };
+        for (const memory of [
+            { type: 'summary', k: 10, summaryModel: 'qwen-plus', state: { summary: 42 } },
+            { type: 'entity', k: 10, summaryModel: 'qwen-plus', state: { entities: { 张三: { age: 1 } } } },
+            { type: 'buffer', k: 10, summaryModel: 'qwen-plus', state: { messages: 'oops' } },
+            { type: 'summary_buffer', k: 10, summaryModel: 'qwen-plus', state: { messages: [{ type: 'tool', data: {} }] } },
+        ]) {
+            const ctx = createContext({ ...base, memory });
+            await importSessionHandler(ctx);
+            assert.equal(ctx.status, 400, memory.type);
+        }
+        assert.equal(await getSessionStore().get('imported'), undefined);
+
+        const ctx = createContext({ ...base, memory: { type: 'summary', k: 10, summaryModel: 'qwen-plus', state: { summary: '打招呼' } } });
+        await importSessionHandler(ctx);
+        assert.equal(ctx.status, 200);
+        assert.deepEqual((await getSessionStore().get('imported'))?.memory?.state, { summary: '打招呼' });
+    });
+});
+
+describe('deleteSessionTurnHandler', () => {
+    it('等待进行中的对话结束后再读-改-写', async () => {
+        const ctx = createContext({
+            sessionId: 'locked',
+            messages: [message('human', 'q1'), message('ai', 'a1'), message('human', 'q2'), message('ai', 'a2')],
+        });
+        await importSessionHandler(ctx);
+
+        // 模拟一轮进行中的对话：持有会话锁期间追加一轮
+        const release = await lockSession('locked');
+        const deleting = createContext({}, { sessionId: 'locked', turn: '0' });
+        const done = deleteSessionTurnHandler(deleting);
+        const record = (await getSessionStore().get('locked'))!;
+        record.messages.push(message('human', 'q3'), message('ai', 'a3'));
+        await getSessionStore().set(record);
+        release();
+        await done;
+
+        assert.equal(deleting.status, 200);
+        const saved = await getSessionStore().get('locked');
+        assert.deepEqual(saved?.messages.map((item) => item.data.content), ['q2', 'a2', 'q3', 'a3']);
+    });
+});
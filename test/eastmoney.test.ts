@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+
+import { http } from '../src/utils/axios';
+import { fetchEastmoneyFundFlow, parseEastmoneyKline } from '../src/utils/eastmoney';
+
+let requests: URL[] = [];
+
+(http.defaults as any).adapter = async (config: any) => {
+    requests.push(new URL(config.url));
+    const klines = ['2024-03-01,1000,-200,300,-400,-400,10.5,-2.1,3.2,-4.3,-4.3,100.5,1.2'];
+    return { data: { data: { name: '测试股份', klines } }, status: 200, statusText: 'OK', headers: {}, config };
+};
+
+describe('fetchEastmoneyFundFlow', () => {
+    beforeEach(() => {
+        requests = [];
+    });
+
+    it('按 days 请求最近的交易日', async () => {
+        const result = await fetchEastmoneyFundFlow('600519.SH', { days: 30 });
+        assert.equal(requests[0].searchParams.get('lmt'), '30');
+        assert.equal(result.points[0].time, '2024-03-01');
+        assert.equal(result.points[0].main, 1000);
+    });
+
+    it('days 超出范围或不是整数时返回 400，不发请求', async () => {
+        for (const days of [0, -1, 1.5, 121, Number.NaN]) {
+            await assert.rejects(fetchEastmoneyFundFlow('600519.SH', { days }), (err: Error & { status?: number }) => err.status === 400, String(days));
+        }
+        assert.equal(requests.length, 0);
+    });
+
+    it('只支持 A 股代码', async () => {
+        await assert.rejects(fetchEastmoneyFundFlow('00700.HK'), (err: Error & { status?: number }) => err.status === 400);
+    });
+});
+
+describe('parseEastmoneyKline', () => {
+    it('A 股成交量由手换算为股，字段缺失时返回 undefined', () => {
+        const bar = parseEastmoneyKline('2024-03-01,10,11,12,9,500,550000,30,10,1,0.5', 'CN');
+        assert.deepEqual(bar, {
+            date: '2024-03-01',
+            open: 10,
+            close: 11,
+            high: 12,
+            low: 9,
+            volume: 50000,
+            amount: 550000,
+            amplitude: 30,
+            changePercent: 10,
+            change: 1,
+            turnover: 0.5,
+        });
+        assert.equal(parseEastmoneyKline('2024-03-01,10,11,12,9,500', 'HK')?.volume, 500);
+        assert.equal(parseEastmoneyKline('2024-03-01,10', 'CN'), undefined);
+    });
+});
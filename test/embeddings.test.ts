@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getEmbeddingModel } from '../src/utils/embeddings';
+
+const nonZero = (vector: number[]) => vector.filter((value) => value !== 0).sort((a, b) => b - a);
+
+describe('本地哈希向量', () => {
+    it('local:hash-v1 按词频加权，local:hash-v2 按 log(1 + 词频) 加权', async () => {
+        const v1 = await getEmbeddingModel('local:hash-v1').create().embedQuery('apple apple banana');
+        const v2 = await getEmbeddingModel('local:hash-v2').create().embedQuery('apple apple banana');
+        assert.equal(v1.length, 256);
+        assert.equal(v2.length, 256);
+
+        const [a1, b1] = nonZero(v1);
+        assert.ok(Math.abs(a1 - 2 / Math.sqrt(5)) < 1e-12);
+        assert.ok(Math.abs(b1 - 1 / Math.sqrt(5)) < 1e-12);
+        const [a2, b2] = nonZero(v2);
+        assert.ok(Math.abs(a2 / b2 - Math.log(3) / Math.log(2)) < 1e-12);
+    });
+
+    it('同一文本的向量恒定，没有词项时给出固定方向', async () => {
+        const embeddings = getEmbeddingModel('local:hash-v2').create();
+        assert.deepEqual(await embeddings.embedQuery('知识库检索'), await embeddings.embedQuery('知识库检索'));
+        const empty = await embeddings.embedQuery('！？');
+        assert.equal(empty[0], 1);
+        assert.equal(nonZero(empty).length, 1);
+    });
+});
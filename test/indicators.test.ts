@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kline-cache-'));
+process.env.KLINE_CACHE_DIR = cacheDir;
+
+import { indicatorTools } from '../src/routes/quant/indicators';
+import { http } from '../src/utils/axios';
+import { bollinger, computeIndicator, crossovers, ema, macd, obv, rsi, sma, type IndicatorBar } from '../src/utils/indicators';
+import { rangeStart } from '../src/utils/klines';
+
+const bar = (close: number, volume = 100): IndicatorBar => ({ date: '', open: close, high: close, low: close, close, volume });
+
+const assertSeries = (actual: Array<number | null>, expected: Array<number | null>) => {
+    assert.equal(actual.length, expected.length);
+    actual.forEach((value, i) => {
+        if (expected[i] === null) assert.equal(value, null, `#${i}`);
+        else assert.ok(value !== null && Math.abs(value - expected[i]!) < 1e-9, `#${i}: ${value} != ${expected[i]}`);
+    });
+};
+
+describe('指标序列', () => {
+    it('SMA / EMA 与 K 线逐根对齐，数据不足的位置为 null', () => {
+        assertSeries(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+        assertSeries(ema([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+        assertSeries(ema([null, 2, 4, 8], 2), [null, null, 3, 6.333333333333333]);
+    });
+
+    it('RSI 使用 Wilder 平滑，只涨不跌时为 100', () => {
+        assertSeries(rsi([1, 2, 1, 2, 1], 2), [null, null, 50, 75, 37.5]);
+        assertSeries(rsi([1, 2, 3, 4], 2), [null, null, 100, 100]);
+    });
+
+    it('MACD 柱为 2 × (DIF - DEA)', () => {
+        const closes = Array.from({ length: 40 }, (_, i) => 10 + Math.sin(i / 3));
+        const { dif, dea, histogram } = macd(closes, 12, 26, 9);
+        assert.equal(dif.findIndex((value) => value !== null), 25);
+        assert.equal(dea.findIndex((value) => value !== null), 33);
+        histogram.forEach((value, i) => {
+            if (value !== null) assert.ok(Math.abs(value - 2 * (dif[i]! - dea[i]!)) < 1e-12);
+        });
+    });
+
+    it('布林带在价格不变时收敛到中轨', () => {
+        const result = bollinger([5, 5, 5], 3, 2);
+        assertSeries(result.upper, [null, null, 5]);
+        assertSeries(result.lower, [null, null, 5]);
+        assertSeries(result.bandwidth, [null, null, 0]);
+        assertSeries(result.percentB, [null, null, 0.5]);
+    });
+
+    it('OBV 收涨加量、收跌减量、持平不变', () => {
+        assertSeries(obv([bar(1, 10), bar(2, 20), bar(2, 30), bar(1, 40)]), [0, 20, 20, -20]);
+    });
+
+    it('交叉点区分金叉与死叉', () => {
+        assert.deepEqual(crossovers([1, 2, 3, 2, 1], [2, 2, 2, 2, 2]), [
+            { index: 2, type: 'golden' },
+            { index: 4, type: 'death' },
+        ]);
+    });
+});
+
+describe('computeIndicator', () => {
+    const bars = Array.from({ length: 30 }, (_, i) => bar(10 + i));
+
+    it('缺省参数取默认值', () => {
+        const result = computeIndicator(bars, 'rsi');
+        assert.deepEqual(result.params, { period: 14 });
+        assert.equal(result.series.rsi?.[29], 100);
+    });
+
+    it('未知指标、无效参数与数据不足返回 400', () => {
+        const status = (err: Error & { status?: number }) => err.status === 400;
+        assert.throws(() => computeIndicator(bars, 'foo'), status);
+        assert.throws(() => computeIndicator(bars, 'rsi', { period: 0 }), status);
+        assert.throws(() => computeIndicator(bars.slice(0, 10), 'macd'), status);
+    });
+});
+
+describe('calculate_<name> 工具', () => {
+    after(() => {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('分钟线按 range 换算的起始日期拉取，而不是固定根数', async () => {
+        const requests: URLSearchParams[] = [];
+        // 一个月的 5 分钟线远多于日线的根数
+        const start = rangeStart('1mo');
+        const klines = Array.from({ length: 900 }, (_, i) => {
+            const day = new Date(Date.parse(`${start}T00:00:00Z`) + Math.floor(i / 48) * 86_400_000);
+            const minutes = 9 * 60 + 35 + (i % 48) * 5;
+            const time = `${day.toISOString().slice(0, 10)} ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+            const close = 10 + Math.sin(i / 7);
+            return `${time},${close},${close},${close + 0.1},${close - 0.1},1000`;
+        });
+        (http.defaults as any).adapter = async (config: any) => {
+            requests.push(new URL(config.url).searchParams);
+            return { data: { data: { name: '测试股份', klines } }, status: 200, statusText: 'OK', headers: {}, config };
+        };
+
+        const tool = indicatorTools.find((item) => item.name === 'calculate_rsi')!;
+        const output = JSON.parse(await tool.invoke({ symbol: '600519.SH', range: '1mo', interval: '5m' }));
+
+        assert.equal(requests.length, 1);
+        assert.equal(requests[0].get('klt'), '5');
+        assert.equal(requests[0].get('beg'), start.replace(/-/g, ''));
+        assert.equal(output.interval, '5m');
+        assert.equal(output.points, 900);
+        assert.equal(typeof output.value, 'number');
+    });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kline-cache-'));
+process.env.KLINE_CACHE_DIR = cacheDir;
+process.env.KLINE_CACHE_TTL_MS = String(24 * 60 * 60 * 1000);
+
+import { http } from '../src/utils/axios';
+import { fetchKlineSeries } from '../src/utils/klines';
+
+/** 2024 上半年的工作日，收盘价依次为 100、101、…，乘以当前复权系数 */
+const tradingDays: string[] = [];
+for (let date = new Date(Date.UTC(2024, 0, 1)); date < new Date(Date.UTC(2024, 6, 1)); date.setUTCDate(date.getUTCDate() + 1)) {
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) tradingDays.push(date.toISOString().slice(0, 10));
+}
+const baseClose = (date: string) => 100 + tradingDays.indexOf(date);
+
+let factor = 1;
+let requests: Array<{ beg?: string; end?: string; lmt?: string }> = [];
+
+(http.defaults as any).adapter = async (config: any) => {
+    const params = new URL(config.url).searchParams;
+    const beg = params.get('beg') ?? undefined;
+    const end = params.get('end') ?? undefined;
+    requests.push({ beg, end, lmt: params.get('lmt') ?? undefined });
+    const compact = (date: string) => date.replace(/-/g, '');
+    const klines = tradingDays
+        .filter((date) => (!beg || compact(date) >= beg) && (!end || compact(date) <= end))
+        .map((date) => {
+            const close = baseClose(date) * factor;
+            return `${date},${close},${close},${close},${close},1000`;
+        });
+    return { data: { data: { name: '测试股份', klines } }, status: 200, statusText: 'OK', headers: {}, config };
+};
+
+describe('fetchKlineSeries 本地缓存', () => {
+    beforeEach(() => {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+        factor = 1;
+        requests = [];
+    });
+
+    after(() => {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('命中缓存时不再请求，按日期区间截取', async () => {
+        const first = await fetchKlineSeries('600519.SH', { start: '2024-03-01', end: '2024-03-31' });
+        assert.equal(first.fetched, true);
+        assert.equal(first.bars[0].date, '2024-03-01');
+        assert.equal(first.bars[first.bars.length - 1].date, '2024-03-29');
+
+        const second = await fetchKlineSeries('600519.SH', { start: '2024-03-04', end: '2024-03-08' });
+        assert.equal(second.fetched, false);
+        assert.deepEqual(second.bars.map((bar) => bar.date), ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08']);
+        assert.equal(requests.length, 1);
+    });
+
+    it('复权基准未变时只补拉更早的区间并拼接', async () => {
+        await fetchKlineSeries('600519.SH', { start: '2024-03-01', end: '2024-03-31' });
+        const series = await fetchKlineSeries('600519.SH', { start: '2024-02-01', end: '2024-03-31' });
+        assert.equal(series.fetched, true);
+        assert.deepEqual(requests[1], { beg: '20240201', end: '20240301', lmt: '1000000' });
+        assert.equal(series.bars[0].date, '2024-02-01');
+        assert.equal(new Set(series.bars.map((bar) => bar.date)).size, series.bars.length);
+        for (const bar of series.bars) assert.equal(bar.close, baseClose(bar.date));
+    });
+
+    it('补拉时复权基准变化（除权）则整体重建缓存', async () => {
+        await fetchKlineSeries('600519.SH', { start: '2024-03-01', end: '2024-03-31' });
+        factor = 0.9;
+        const series = await fetchKlineSeries('600519.SH', { start: '2024-02-01', end: '2024-03-31' });
+        for (const bar of series.bars) assert.ok(Math.abs(bar.close - baseClose(bar.date) * 0.9) < 1e-9, bar.date);
+        assert.deepEqual(requests[requests.length - 1], { beg: '20240201', end: '20500101', lmt: '1000000' });
+
+        // 重建后的缓存也是新基准
+        const cached = await fetchKlineSeries('600519.SH', { start: '2024-06-03', end: '2024-06-28' });
+        assert.equal(cached.fetched, false);
+        for (const bar of cached.bars) assert.ok(Math.abs(bar.close - baseClose(bar.date) * 0.9) < 1e-9, bar.date);
+    });
+
+    it('起始日期晚于截止日期时返回 400', async () => {
+        await assert.rejects(fetchKlineSeries('600519.SH', { start: '2024-03-02', end: '2024-03-01' }), (err: Error & { status?: number }) => err.status === 400);
+    });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { BaseMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import type { Context } from 'koa';
+
+process.env.SESSION_STORE = 'memory';
+process.env.DASHSCOPE_API_KEY = 'test';
+
+import { chatCompletionsHandler } from '../src/routes/openai/v1';
+import { registerLlmProvider, type ChatModelOptions } from '../src/utils/llm';
+
+const calls: Array<{ options: ChatModelOptions; messages: BaseMessage[]; stop?: string[] }> = [];
+
+registerLlmProvider({
+    name: 'fake',
+    description: '测试用模型',
+    defaultModel: () => 'echo',
+    parse: (rest) => ({ model: rest }),
+    create: (_spec, options) => {
+        const call: (typeof calls)[number] = { options, messages: [] };
+        calls.push(call);
+        return new (class extends FakeListChatModel {
+            async _generate(messages: BaseMessage[], callOptions?: this['ParsedCallOptions'], runManager?: any) {
+                call.messages = messages;
+                call.stop = callOptions?.stop;
+                return super._generate(messages, callOptions, runManager);
+            }
+        })({ responses: ['好的'] });
+    },
+});
+
+const createContext = (body: unknown) => ({ request: { body }, status: 404, body: undefined }) as unknown as Context & { body: any };
+
+describe('POST /v1/chat/completions（session_id 模式）', () => {
+    it('透传生成参数与 system 消息', async () => {
+        const ctx = createContext({
+            model: 'fake:echo',
+            session_id: 'v1-session',
+            temperature: 0.2,
+            max_tokens: 64,
+            stop: 'END',
+            messages: [
+                { role: 'system', content: '只用英文回答' },
+                { role: 'user', content: '你好' },
+            ],
+        });
+        await chatCompletionsHandler(ctx);
+
+        assert.equal(ctx.status, 200);
+        // FakeListChatModel 收到 stop 时直接返回第一个 stop 词
+        assert.equal(ctx.body.choices[0].message.content, 'END');
+        const call = calls.find((item) => item.messages.length > 0)!;
+        assert.deepEqual(call.options, { temperature: 0.2, maxTokens: 64 });
+        assert.deepEqual(call.stop, ['END']);
+        assert.match(String(call.messages[0].content), /只用英文回答/);
+        assert.equal(call.messages.at(-1)?.content, '你好');
+    });
+});
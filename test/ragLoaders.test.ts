@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { isPrivateAddress, loadRagUrl } from '../src/utils/ragLoaders';
+
+describe('isPrivateAddress', () => {
+    it('拦截内网、回环、链路本地、组播与保留地址', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '198.18.0.1', '198.19.255.255', '224.0.0.1', '255.255.255.255', '0.0.0.0']) {
+            assert.equal(isPrivateAddress(address), true, address);
+        }
+        for (const address of ['::', '::1', 'fc00::1', 'fd12::1', 'fe80::1', 'ff02::1']) {
+            assert.equal(isPrivateAddress(address), true, address);
+        }
+    });
+
+    it('拦截 IPv4 映射的 IPv6 地址（含 URL 规范化后的十六进制写法）', () => {
+        for (const address of ['::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::ffff:c0a8:101', '::127.0.0.1']) {
+            assert.equal(isPrivateAddress(address), true, address);
+        }
+    });
+
+    it('放行公网地址，拒绝非 IP 字符串', () => {
+        assert.equal(isPrivateAddress('8.8.8.8'), false);
+        assert.equal(isPrivateAddress('::ffff:808:808'), false);
+        assert.equal(isPrivateAddress('2606:4700:4700::1111'), false);
+        assert.equal(isPrivateAddress('localhost'), true);
+    });
+});
+
+describe('loadRagUrl', () => {
+    it('拒绝指向内网的 URL', async () => {
+        for (const url of ['http://127.0.0.1:9/', 'http://[::ffff:127.0.0.1]:9/', 'http://[::ffff:a9fe:a9fe]/latest/meta-data/', 'http://198.18.0.1/']) {
+            await assert.rejects(loadRagUrl(url), (err: Error & { status?: number }) => err.status === 403, url);
+        }
+    });
+
+    it('只允许 http / https', async () => {
+        await assert.rejects(loadRagUrl('file:///etc/passwd'), (err: Error & { status?: number }) => err.status === 400);
+    });
+});
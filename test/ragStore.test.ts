@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { Document } from '@langchain/core/documents';
+import * as lancedb from '@lancedb/lancedb';
+
+// 知识库目录取自 cwd，切到临时目录后再加载
+const originalCwd = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-store-'));
+process.chdir(workDir);
+
+import { createCollection, dropCollection, getKnowledgeBase, hashContent } from '../src/utils/ragStore';
+
+const docs = (...texts: string[]) => texts.map((text) => new Document({ pageContent: text }));
+
+after(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('KnowledgeBase.upsertDocument', () => {
+    before(() => {
+        createCollection({ name: 'dedupe', embeddingModel: 'local:hash-v1' });
+    });
+
+    it('未给出 docId 时，同一来源内容与元数据都未变化才跳过', async () => {
+        const kb = getKnowledgeBase('dedupe');
+        const input = { source: 'a.txt', sourceType: 'upload' as const, metadata: { tag: 'x' }, contentHash: hashContent('same') };
+        const first = await kb.upsertDocument(input, docs('第一段', '第二段'));
+        assert.equal(first.skipped, undefined);
+
+        const again = await kb.upsertDocument(input, docs('第一段', '第二段'));
+        assert.equal(again.skipped, true);
+        assert.equal(again.docId, first.docId);
+        assert.equal(again.chunks, 2);
+
+        const retagged = await kb.upsertDocument({ ...input, metadata: { tag: 'y' } }, docs('第一段', '第二段'));
+        assert.equal(retagged.skipped, undefined);
+        assert.equal(retagged.replacedChunks, 2);
+    });
+
+    it('内容相同但来源不同的文档各自入库', async () => {
+        const kb = getKnowledgeBase('dedupe');
+        const result = await kb.upsertDocument(
+            { source: 'b.txt', sourceType: 'upload', metadata: { tag: 'y' }, contentHash: hashContent('same') },
+            docs('第一段', '第二段')
+        );
+        assert.equal(result.skipped, undefined);
+        assert.notEqual(result.docId, (await kb.listDocuments()).find((doc) => doc.source === 'a.txt')?.docId);
+        assert.equal(result.reusedChunks, 2);
+    });
+
+    it('显式给出 docId 时总是写入', async () => {
+        const kb = getKnowledgeBase('dedupe');
+        const input = { docId: 'fixed', source: 'c.txt', sourceType: 'text' as const, contentHash: hashContent('c') };
+        await kb.upsertDocument(input, docs('内容'));
+        const again = await kb.upsertDocument(input, docs('内容'));
+        assert.equal(again.skipped, undefined);
+        assert.equal(again.docId, 'fixed');
+        assert.equal(again.replacedChunks, 1);
+    });
+
+    it('重新入库时覆盖同序号片段，删除多出的旧片段', async () => {
+        const kb = getKnowledgeBase('dedupe');
+        const input = { docId: 'shrink', source: 'd.txt', sourceType: 'text' as const };
+        await kb.upsertDocument(input, docs('一', '二', '三'));
+        const result = await kb.upsertDocument(input, docs('新的一'));
+        assert.equal(result.replacedChunks, 3);
+
+        const document = await kb.getDocument('shrink');
+        assert.deepEqual(document?.chunkList.map((chunk) => [chunk.chunkId, chunk.text]), [['shrink#0', '新的一']]);
+    });
+});
+
+describe('KnowledgeBase.keywordSearch', () => {
+    it('索引构建后随文档写入与删除增量更新', async () => {
+        createCollection({ name: 'keywords', embeddingModel: 'local:hash-v1' });
+        const kb = getKnowledgeBase('keywords');
+        await kb.upsertDocument({ docId: 'a', source: 'a.txt', sourceType: 'text' }, docs('apple banana', 'cherry'));
+        assert.deepEqual((await kb.keywordSearch('apple', 5)).map(({ chunk }) => chunk.chunkId), ['a#0']);
+
+        await kb.upsertDocument({ docId: 'b', source: 'b.txt', sourceType: 'text' }, docs('apple pie'));
+        await kb.upsertDocument({ docId: 'a', source: 'a.txt', sourceType: 'text' }, docs('durian'));
+        assert.deepEqual((await kb.keywordSearch('apple', 5)).map(({ chunk }) => chunk.chunkId), ['b#0']);
+        assert.deepEqual((await kb.keywordSearch('durian', 5)).map(({ chunk }) => chunk.chunkId), ['a#0']);
+        assert.equal((await kb.keywordSearch('cherry', 5)).length, 0);
+
+        await kb.deleteDocument('b');
+        assert.equal((await kb.keywordSearch('apple', 5)).length, 0);
+    });
+});
+
+describe('dropCollection', () => {
+    it('排在删除之后的写入失败，不会重新建表', async () => {
+        createCollection({ name: 'dropped', embeddingModel: 'local:hash-v1' });
+        const kb = getKnowledgeBase('dropped');
+        await kb.upsertDocument({ docId: 'a', source: 'a.txt', sourceType: 'text' }, docs('第一段'));
+
+        const dropping = dropCollection('dropped');
+        const late = kb.upsertDocument({ docId: 'b', source: 'b.txt', sourceType: 'text' }, docs('第二段'));
+        await dropping;
+        // 与删除并发的写入可能在入队前读表时失败，也可能在队列中以 404 失败
+        await assert.rejects(late);
+        await assert.rejects(kb.upsertDocument({ docId: 'c', source: 'c.txt', sourceType: 'text' }, docs('第三段')), (err: Error & { status?: number }) => err.status === 404);
+
+        assert.equal(fs.existsSync(path.join(workDir, 'data/lancedb/kb_dropped.lance')), false);
+        assert.throws(() => getKnowledgeBase('dropped'), (err: Error & { status?: number }) => err.status === 404);
+    });
+});
+
+describe('旧版表迁移', () => {
+    it('写入新表失败时旧数据保留在备份表中，下次打开时从备份完成迁移', async () => {
+        createCollection({ name: 'legacy', embeddingModel: 'local:hash-v1' });
+        const db = await lancedb.connect(path.join(workDir, 'data/lancedb'));
+        const legacy = await db.createTable('kb_legacy', [
+            { id: 'init', vector: Array(256).fill(0), text: '', metadata: '{}' },
+            { id: 'x', vector: Array(256).fill(0.5), text: '旧片段', metadata: '{"tag":"old"}' },
+        ]);
+
+        // 模拟覆盖原表后写入失败（磁盘已满等）
+        const tableProto = Object.getPrototypeOf(legacy);
+        const add = tableProto.add;
+        tableProto.add = async () => {
+            throw new Error('disk full');
+        };
+        try {
+            await assert.rejects(getKnowledgeBase('legacy').listDocuments(), /disk full/);
+        } finally {
+            tableProto.add = add;
+        }
+        assert.equal(await (await db.openTable('kb_legacy__legacy_backup')).countRows(), 2);
+
+        const documents = await getKnowledgeBase('legacy').listDocuments();
+        assert.deepEqual(documents.map((doc) => [doc.source, doc.metadata]), [['legacy', { tag: 'old' }]]);
+        assert.equal((await db.tableNames()).includes('kb_legacy__legacy_backup'), false);
+    });
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { createSessionRecord, FileSessionStore, lockSession, MemorySessionStore } from '../src/utils/sessionStore';
+
+const options = { ttlMs: 60_000, maxSessions: 10, maxMessages: 50 };
+
+describe('FileSessionStore', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+
+    after(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('并发写同一会话不会互相截断临时文件', async () => {
+        const store = new FileSessionStore(dir, options);
+        await Promise.all(
+            Array.from({ length: 20 }, (_, i) => {
+                const record = createSessionRecord('s1');
+                record.messages = [{ type: 'human', data: { content: `m${i}`, role: undefined, name: undefined, tool_call_id: undefined } }];
+                return store.set(record);
+            })
+        );
+        const saved = await store.get('s1');
+        assert.equal(saved?.messages.length, 1);
+        assert.deepEqual(fs.readdirSync(dir).filter((name) => name.endsWith('.tmp')), []);
+    });
+});
+
+describe('MemorySessionStore', () => {
+    it('完整对话与 buffer 记忆状态都按 maxMessages 截断', async () => {
+        const store = new MemorySessionStore({ ...options, maxMessages: 4 });
+        const messages = Array.from({ length: 10 }, (_, i) => ({
+            type: 'human',
+            data: { content: `m${i}`, role: undefined, name: undefined, tool_call_id: undefined },
+        }));
+        const record = createSessionRecord('s1');
+        record.messages = messages;
+        record.memory = { type: 'buffer', k: 10, summaryModel: 'qwen-plus', state: { messages } };
+        await store.set(record);
+
+        const saved = await store.get('s1');
+        assert.deepEqual(saved?.messages.map((message) => message.data.content), ['m6', 'm7', 'm8', 'm9']);
+        assert.deepEqual(saved?.memory?.state.messages?.map((message) => message.data.content), ['m6', 'm7', 'm8', 'm9']);
+    });
+});
+
+describe('lockSession', () => {
+    it('同一会话依次执行，不同会话互不阻塞', async () => {
+        const order: string[] = [];
+        const turn = async (sessionId: string, label: string, ms: number) => {
+            const release = await lockSession(sessionId);
+            try {
+                order.push(`${label}:start`);
+                await new Promise((resolve) => setTimeout(resolve, ms));
+                order.push(`${label}:end`);
+            } finally {
+                release();
+            }
+        };
+        await Promise.all([turn('a', 'a1', 30), turn('a', 'a2', 1), turn('b', 'b1', 1)]);
+        assert.ok(order.indexOf('a1:end') < order.indexOf('a2:start'));
+        assert.ok(order.indexOf('b1:end') < order.indexOf('a1:end'));
+    });
+});
@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Context } from 'koa';
+
+import { wantsEventStream } from '../src/utils/sse';
+
+const ctx = (accept = '') => ({ get: () => accept }) as unknown as Context;
+
+describe('wantsEventStream', () => {
+    it('stream 与布尔参数一样接受 true / "true" / "1"', () => {
+        for (const stream of [true, 'true', '1']) assert.equal(wantsEventStream(ctx(), { stream }), true, String(stream));
+        for (const stream of [false, 'false', '0', undefined, 'yes']) assert.equal(wantsEventStream(ctx(), { stream }), false, String(stream));
+    });
+
+    it('Accept 包含 text/event-stream 时返回 SSE', () => {
+        assert.equal(wantsEventStream(ctx('text/event-stream'), {}), true);
+    });
+});